@@ -56,10 +56,14 @@ export default defineConfig({
   ],
 
   /* Run your local dev server before starting the tests */
+  /* Runs offline against the mock DEX, Typhoon, wallet and node, on its own port so a mainnet dev server is never reused */
   webServer: {
-    command: 'npm run dev',
+    command: 'npm run dev -- --port 8084 --strictPort',
     url: 'http://localhost:8084',
     reuseExistingServer: !process.env.CI,
     timeout: 120 * 1000,
+    env: {
+      VITE_USE_MOCKS: 'true',
+    },
   },
 });
\ No newline at end of file
@@ -8,6 +8,10 @@ import Layout from "./components/Layout";
 import Index from "./pages/Index";
 import HowItWorks from "./pages/HowItWorks";
 import Roadmap from "./pages/Roadmap";
+import Withdrawals from "./pages/Withdrawals";
+import Allowances from "./pages/Allowances";
+import History from "./pages/History";
+import Portfolio from "./pages/Portfolio";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -22,6 +26,10 @@ const App = () => (
           <Routes>
             <Route path="/" element={<Layout />}>
               <Route index element={<Index />} />
+              <Route path="withdrawals" element={<Withdrawals />} />
+              <Route path="allowances" element={<Allowances />} />
+              <Route path="history" element={<History />} />
+              <Route path="portfolio" element={<Portfolio />} />
               <Route path="how-it-works" element={<HowItWorks />} />
               <Route path="roadmap" element={<Roadmap />} />
             </Route>
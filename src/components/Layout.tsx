@@ -1,8 +1,15 @@
 import { Outlet, NavLink } from 'react-router-dom';
 import { Button } from '@/shared/components/ui/button';
 import PixelBlast from '@/shared/components/PixelBlast';
+import { RpcStatusMenu } from '@/shared/components/RpcStatusMenu';
+import { useSwapRecovery, useWithdrawalScheduler } from '@/features/swap';
 
 const Layout = () => {
+  // Scheduled private withdrawals run on every page
+  useWithdrawalScheduler();
+  // Swaps interrupted by a reload are picked up again once the vault is unlocked
+  useSwapRecovery();
+
   return (
     <div className="min-h-screen bg-transparent flex flex-col relative">
       {/* PixelBlast Background */}
@@ -40,6 +47,39 @@ const Layout = () => {
               </Button>
             )}
           </NavLink>
+          <NavLink to="/withdrawals">
+            {({ isActive }) => (
+              <Button
+                variant="link"
+                className={`text-sm font-medium transition-colors hover:text-white ${isActive ? 'text-white' : 'text-gray-400'
+                  }`}
+              >
+                Withdrawals
+              </Button>
+            )}
+          </NavLink>
+          <NavLink to="/allowances">
+            {({ isActive }) => (
+              <Button
+                variant="link"
+                className={`text-sm font-medium transition-colors hover:text-white ${isActive ? 'text-white' : 'text-gray-400'
+                  }`}
+              >
+                Allowances
+              </Button>
+            )}
+          </NavLink>
+          <NavLink to="/history">
+            {({ isActive }) => (
+              <Button
+                variant="link"
+                className={`text-sm font-medium transition-colors hover:text-white ${isActive ? 'text-white' : 'text-gray-400'
+                  }`}
+              >
+                History
+              </Button>
+            )}
+          </NavLink>
           <NavLink to="/how-it-works">
             {({ isActive }) => (
               <Button
@@ -62,6 +102,7 @@ const Layout = () => {
               </Button>
             )}
           </NavLink>
+          <RpcStatusMenu />
         </nav>
       </div>
 
@@ -1,3 +1,5 @@
+import { subtractBps } from '@/shared/utils/lib/amounts';
+
 // Fee configuration constants
 export const FEE_CONFIG = {
   // Privfi platform fee (sent to AVNU as integratorFees)
@@ -16,4 +18,20 @@ export const FEE_CONFIG = {
   bpsToMultiplier: (bps: number) => bps / 10000,
 } as const;
 
-export const TYPHOON_FEE_MULTIPLIER = 1 - FEE_CONFIG.bpsToMultiplier(FEE_CONFIG.TYPHOON_FEE_BPS);
\ No newline at end of file
+export const TYPHOON_FEE_MULTIPLIER = 1 - FEE_CONFIG.bpsToMultiplier(FEE_CONFIG.TYPHOON_FEE_BPS);
+
+/**
+ * Gross up a raw token amount so that it equals the given amount once the Typhoon fee is deducted.
+ * Rounds up so the user never receives less than requested.
+ */
+export const addTyphoonFee = (rawAmount: bigint): bigint => {
+  const denominator = 10000n - BigInt(FEE_CONFIG.TYPHOON_FEE_BPS);
+  return (rawAmount * 10000n + denominator - 1n) / denominator;
+};
+
+/**
+ * Raw token amount the user receives once the Typhoon fee is deducted, rounded down
+ */
+export const deductTyphoonFee = (rawAmount: bigint): bigint => {
+  return subtractBps(rawAmount, FEE_CONFIG.TYPHOON_FEE_BPS);
+};
\ No newline at end of file
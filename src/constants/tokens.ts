@@ -1,9 +1,12 @@
+import { formatAmount, parseAmount, toRawAmount } from '@/shared/utils/lib/amounts';
+
 export interface Token {
   address: string;
   symbol: string;
   name: string;
   decimals: number;
   logoURI?: string;
+  verified?: boolean; // False for tokens imported by address
 }
 
 // StarkNet Mainnet Token Addresses
@@ -64,15 +67,13 @@ export const getTokenByAddress = (address: string): Token | undefined => {
 };
 
 // Format token amount with proper decimals
-export const formatTokenAmount = (amount: string | number, decimals: number): string => {
-  const num = typeof amount === 'string' ? parseFloat(amount) : amount;
-  return (num / Math.pow(10, decimals)).toFixed(6);
+export const formatTokenAmount = (amount: string | bigint, decimals: number): string => {
+  return formatAmount(toRawAmount(amount), decimals, 6);
 };
 
 // Parse token amount to wei/smallest unit
 export const parseTokenAmount = (amount: string, decimals: number): string => {
-  const num = parseFloat(amount);
-  return (num * Math.pow(10, decimals)).toString();
+  return parseAmount(amount, decimals).toString();
 };
 
 // Format balance for display with appropriate precision
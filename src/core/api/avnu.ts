@@ -0,0 +1,25 @@
+import { API_CONFIG } from '../config';
+import { ApiClient, ApiRequestOptions } from './base';
+
+/**
+ * The one client every AVNU call goes through, so all of them share the
+ * timeout, cancellation, error mapping and request instrumentation.
+ */
+export class AVNUApiClient extends ApiClient {
+  constructor(baseUrl: string = API_CONFIG.avnu.baseUrl, timeout: number = API_CONFIG.avnu.timeout) {
+    super(baseUrl, timeout, 'AVNU');
+  }
+
+  get<T>(endpoint: string, options: ApiRequestOptions = {}): Promise<T> {
+    return this.request<T>(endpoint, { ...options, method: 'GET' });
+  }
+
+  post<T>(endpoint: string, body: unknown, options: ApiRequestOptions = {}): Promise<T> {
+    return this.request<T>(endpoint, { ...options, method: 'POST', body: JSON.stringify(body) });
+  }
+}
+
+export const avnuApiClient = new AVNUApiClient();
+
+// Market data (prices, 24h changes) is served from a separate AVNU host
+export const avnuMarketClient = new AVNUApiClient(API_CONFIG.avnu.marketUrl);
@@ -1,57 +1,147 @@
-import { ErrorInfo } from '@/shared/types';
+import { PrivfiError, PrivfiErrorCode, getErrorCodeForStatus, isRetryableError, toPrivfiError } from '../errors';
+
+// Statuses worth retrying: the request may succeed once the service recovers
+const RETRYABLE_STATUS_CODES = new Set([408, 425, 429, 500, 502, 503, 504]);
+
+export interface ApiRequestOptions extends RequestInit {
+  signal?: AbortSignal; // Cancels the request, e.g. React Query's signal when a query goes stale
+}
+
+export interface ApiRequestEvent {
+  client: string;
+  method: string;
+  endpoint: string; // Path without the query string
+  status?: number;
+  durationMs: number;
+  outcome: 'success' | 'error' | 'timeout' | 'cancelled';
+  errorCode?: PrivfiErrorCode;
+}
+
+type ApiRequestListener = (event: ApiRequestEvent) => void;
+
+const requestListeners = new Set<ApiRequestListener>();
+
+/**
+ * Subscribes to every request made through an ApiClient. Returns the unsubscribe function.
+ */
+export function onApiRequest(listener: ApiRequestListener): () => void {
+  requestListeners.add(listener);
+  return () => {
+    requestListeners.delete(listener);
+  };
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
 
 export abstract class ApiClient {
   protected baseUrl: string;
   protected timeout: number;
+  protected clientName: string;
 
-  constructor(baseUrl: string, timeout = 10000) {
+  constructor(baseUrl: string, timeout = 10000, clientName = 'API') {
     this.baseUrl = baseUrl;
     this.timeout = timeout;
+    this.clientName = clientName;
   }
 
   protected async request<T>(
     endpoint: string,
-    options: RequestInit = {}
+    options: ApiRequestOptions = {}
   ): Promise<T> {
     const url = `${this.baseUrl}${endpoint}`;
-    
+    const { signal, ...init } = options;
+    const startedAt = Date.now();
+    let status: number | undefined;
+
+    if (signal?.aborted) {
+      throw new PrivfiError('CANCELLED', `Request to ${endpoint} was cancelled`);
+    }
+
+    // One controller for both the timeout and the caller's signal
     const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+    let timedOut = false;
+    const timeoutId = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, this.timeout);
+    const abortFromCaller = () => controller.abort();
+    signal?.addEventListener('abort', abortFromCaller);
 
     try {
       const response = await fetch(url, {
-        ...options,
+        ...init,
         signal: controller.signal,
         headers: {
-          'Content-Type': 'application/json',
-          ...options.headers,
+          // Only requests with a body declare it, so simple GETs skip the CORS preflight
+          ...(init.body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+          ...init.headers,
         },
       });
-
-      clearTimeout(timeoutId);
+      status = response.status;
 
       if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
+        const body = await response.text().catch(() => '');
+        throw new PrivfiError(getErrorCodeForStatus(response.status), `HTTP error! status: ${response.status}`, {
+          status: response.status,
+          details: body,
+          retryable: RETRYABLE_STATUS_CODES.has(response.status),
+          retryAfterMs: parseRetryAfter(response.headers.get('Retry-After')),
+        });
       }
 
-      return await response.json();
+      const data = await response.json();
+      this.report(init.method, endpoint, startedAt, 'success', status);
+      return data;
     } catch (error) {
+      const apiError = signal?.aborted
+        ? new PrivfiError('CANCELLED', `Request to ${endpoint} was cancelled`, { cause: error })
+        : timedOut
+          ? new PrivfiError('TIMEOUT', `Request to ${endpoint} timed out after ${this.timeout}ms`, { cause: error })
+          : this.createApiError(error);
+      const outcome = apiError.code === 'CANCELLED' ? 'cancelled' : apiError.code === 'TIMEOUT' ? 'timeout' : 'error';
+      this.report(init.method, endpoint, startedAt, outcome, status, apiError.code);
+      throw apiError;
+    } finally {
       clearTimeout(timeoutId);
-      
-      if (error instanceof Error) {
-        throw this.createApiError(error);
-      }
-      
-      throw new Error('Unknown API error');
+      signal?.removeEventListener('abort', abortFromCaller);
     }
   }
 
-  protected createApiError(error: Error): ErrorInfo {
-    return {
-      message: error.message,
-      code: error.name === 'AbortError' ? 'TIMEOUT' : 'API_ERROR',
-      details: error,
+  protected createApiError(error: unknown): PrivfiError {
+    return toPrivfiError(error, 'API_ERROR');
+  }
+
+  private report(
+    method: string | undefined,
+    endpoint: string,
+    startedAt: number,
+    outcome: ApiRequestEvent['outcome'],
+    status?: number,
+    errorCode?: PrivfiErrorCode
+  ): void {
+    const event: ApiRequestEvent = {
+      client: this.clientName,
+      method: method ?? 'GET',
+      endpoint: endpoint.split('?')[0],
+      status,
+      durationMs: Date.now() - startedAt,
+      outcome,
+      errorCode,
     };
+    requestListeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (listenerError) {
+        // Instrumentation must never break a request
+      }
+    });
   }
 }
 
@@ -59,12 +149,45 @@ export interface RetryOptions {
   maxRetries: number;
   delayMs: number;
   backoffMultiplier: number;
+  jitter?: number; // Fraction of each delay randomised either way, so clients do not retry in lockstep
+  maxRetryAfterMs?: number; // Give up rather than wait longer than this for a server's Retry-After
+  signal?: AbortSignal;
 }
 
+const DEFAULT_RETRY_JITTER = 0.25;
+const DEFAULT_MAX_RETRY_AFTER_MS = 30000;
+
+function waitForRetry(delayMs: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new PrivfiError('CANCELLED', 'Retry was cancelled'));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(new PrivfiError('CANCELLED', 'Retry was cancelled'));
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, delayMs);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Runs an operation until it succeeds, giving up early on errors that are not retryable
+ * or once the signal aborts. Waits at least as long as the server's Retry-After.
+ */
 export async function withRetry<T>(
   operation: () => Promise<T>,
   options: RetryOptions = { maxRetries: 3, delayMs: 1000, backoffMultiplier: 2 }
 ): Promise<T> {
+  const {
+    signal,
+    jitter = DEFAULT_RETRY_JITTER,
+    maxRetryAfterMs = DEFAULT_MAX_RETRY_AFTER_MS,
+  } = options;
   let lastError: Error;
 
   for (let attempt = 0; attempt <= options.maxRetries; attempt++) {
@@ -72,13 +195,19 @@ export async function withRetry<T>(
       return await operation();
     } catch (error) {
       lastError = error as Error;
-      
-      if (attempt === options.maxRetries) {
+
+      if (attempt === options.maxRetries || signal?.aborted || !isRetryableError(error)) {
+        throw lastError;
+      }
+
+      const retryAfterMs = toPrivfiError(error).retryAfterMs ?? 0;
+      if (retryAfterMs > maxRetryAfterMs) {
         throw lastError;
       }
 
-      const delay = options.delayMs * Math.pow(options.backoffMultiplier, attempt);
-      await new Promise(resolve => setTimeout(resolve, delay));
+      const backoff = options.delayMs * Math.pow(options.backoffMultiplier, attempt);
+      const jittered = backoff * (1 - jitter + Math.random() * jitter * 2);
+      await waitForRetry(Math.max(jittered, retryAfterMs), signal);
     }
   }
 
@@ -1 +1,2 @@
-export * from './base';
\ No newline at end of file
+export * from './base';
+export * from './avnu';
\ No newline at end of file
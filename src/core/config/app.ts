@@ -7,6 +7,7 @@ export const APP_CONFIG = {
 export const BLOCKCHAIN_CONFIG = {
   network: 'mainnet',
   defaultChainId: 'SN_MAIN',
+  explorerTxUrl: 'https://voyager.online/tx/',
 } as const;
 
 export const INTEGRATOR_CONFIG = {
@@ -18,16 +19,89 @@ export const INTEGRATOR_CONFIG = {
 export const API_CONFIG = {
   avnu: {
     baseUrl: 'https://starknet.api.avnu.fi',
+    marketUrl: 'https://starknet.impulse.avnu.fi/v1',
     timeout: 10000,
+    quoteTimeout: 8000, // Quotes arriving later are dropped from the comparison
+    routerAddress: '0x04270219d365d6b017231b52e92b3fb5d7c8378b05e9abc97724537a80e93b0f',
   },
+  fibrous: {
+    baseUrl: 'https://api.fibrous.finance',
+    timeout: 10000,
+    quoteTimeout: 5000,
+    routerAddress: '0x00f6f4cf62e3c010e0ac2451cc7807b5eec19a40b0faacd00cca3914280fdf5a',
+  },
+  typhoon: {
+    // The contract the Typhoon SDK deposits to and withdraws from, hardcoded in the SDK
+    contractAddress: '0x01f902d238fc1f371688b63323ca9c9eaac7a3f43eb6ef330377f60d0a9f9102',
+  },
+} as const;
+
+export type MockScenario =
+  | 'success'
+  | 'no-quotes'
+  | 'slow-quotes'
+  | 'build-failure'
+  | 'deposit-failure'
+  | 'withdraw-failure';
+
+export const MOCK_CONFIG = {
+  // Replace the DEX aggregators, token prices and Typhoon with scripted local data
+  enabled: import.meta.env.VITE_USE_MOCKS === 'true',
+  // Default scenario; e2e tests can override it through localStorage
+  scenario: (import.meta.env.VITE_MOCK_SCENARIO || 'success') as MockScenario,
+  scenarioStorageKey: 'privfi_mock_scenario',
+  latencyMs: 300,
+  routerAddress: '0x0000000000000000000000000000000000000000000000000000000000000bad',
+  typhoonAddress: '0x0000000000000000000000000000000000000000000000000000000000000b0b',
+  // The scripted wallet, and the balances the mock node reports for it keyed by token symbol
+  walletAddress: '0x00000000000000000000000000000000000000000000000000000000000a11ce',
+  balances: {
+    ETH: '10',
+    STRK: '20000',
+    USDC: '10000',
+    WBTC: '0.5',
+  } as Record<string, string>,
+  // Prices used for mock quotes, keyed by token symbol
+  pricesUsd: {
+    ETH: 2500,
+    STRK: 0.5,
+    USDC: 1,
+    WBTC: 60000,
+  } as Record<string, number>,
+} as const;
+
+export const TOKEN_LIST_CONFIG = {
+  // How long the fetched token list is reused before it is requested again
+  cacheTtlMs: 24 * 60 * 60 * 1000,
+  pageSize: 200,
+} as const;
+
+export const VAULT_CONFIG = {
+  // PBKDF2-SHA256 work factor used to derive the vault key from the passphrase
+  pbkdf2Iterations: 310000,
+  // Lock the vault after this long without user activity
+  autoLockMs: 15 * 60 * 1000,
+} as const;
+
+export const TRANSACTION_CONFIG = {
+  // How often submitted transactions are checked
+  pollIntervalMs: 3000,
+  // Blocks on top of the including block before a private withdrawal starts
+  confirmationBlocks: Math.max(1, Number(import.meta.env.VITE_CONFIRMATION_BLOCKS) || 1),
+  // A transaction the node still does not know after this long was dropped
+  droppedAfterMs: 10 * 60 * 1000,
 } as const;
 
 export const RPC_CONFIG = {
-  // Use a more reliable RPC endpoint for Typhoon SDK
-  starknetMainnet: 'https://starknet-mainnet.public.blastapi.io',
-  // Alternative endpoints in case the primary fails
-  fallbackEndpoints: [
-    'https://starknet-mainnet.infura.io/v3/YOUR_API_KEY',
+  // Mainnet endpoints in order of preference, users can edit the list from the RPC status menu
+  defaultEndpoints: [
+    'https://rpc.starknet.lava.build/',
+    'https://starknet-mainnet.public.blastapi.io/rpc/v0_8',
     'https://free-rpc.nethermind.io/mainnet-juno',
   ],
+  // Built into the Typhoon SDK, its requests to this URL are redirected to the active endpoint
+  typhoonSdkUrl: 'https://rpc.starknet.lava.build:443',
+  healthCheckIntervalMs: 60000,
+  healthCheckTimeoutMs: 5000,
+  slowLatencyMs: 2000, // Healthy endpoints slower than this are only used when nothing faster is up
 } as const;
\ No newline at end of file
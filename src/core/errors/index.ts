@@ -0,0 +1 @@
+export * from './privfiError';
\ No newline at end of file
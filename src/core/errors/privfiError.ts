@@ -0,0 +1,147 @@
+export type PrivfiErrorCode =
+  | 'QUOTE_UNAVAILABLE'
+  | 'INSUFFICIENT_LIQUIDITY'
+  | 'BUILD_FAILED'
+  | 'INVALID_REQUEST'
+  | 'USER_REJECTED'
+  | 'WALLET_NOT_CONNECTED'
+  | 'VAULT_LOCKED'
+  | 'SIMULATION_REVERTED'
+  | 'TRANSACTION_FAILED'
+  | 'RPC_UNAVAILABLE'
+  | 'NETWORK_ERROR'
+  | 'TIMEOUT'
+  | 'RATE_LIMITED'
+  | 'SERVICE_UNAVAILABLE'
+  | 'API_ERROR'
+  | 'TYPHOON_UNAVAILABLE'
+  | 'TYPHOON_MINIMUM'
+  | 'WITHDRAWAL_FAILED'
+  | 'WITHDRAWAL_IN_PROGRESS'
+  | 'CANCELLED'
+  | 'UNKNOWN';
+
+interface PrivfiErrorDefinition {
+  retryable: boolean; // Trying the same operation again may succeed
+  userMessage: string;
+}
+
+export const PRIVFI_ERRORS: Record<PrivfiErrorCode, PrivfiErrorDefinition> = {
+  QUOTE_UNAVAILABLE: { retryable: true, userMessage: 'No quote is available right now. Please try again shortly.' },
+  INSUFFICIENT_LIQUIDITY: { retryable: false, userMessage: 'Not enough liquidity for this pair. Try a smaller amount or another token.' },
+  BUILD_FAILED: { retryable: true, userMessage: 'The swap transaction could not be prepared. Please try again.' },
+  INVALID_REQUEST: { retryable: false, userMessage: 'The swap request is invalid. Check the tokens and amounts.' },
+  USER_REJECTED: { retryable: false, userMessage: 'The transaction was rejected in your wallet.' },
+  WALLET_NOT_CONNECTED: { retryable: false, userMessage: 'Connect your wallet to continue.' },
+  VAULT_LOCKED: { retryable: false, userMessage: 'Unlock your vault before making a private swap.' },
+  SIMULATION_REVERTED: { retryable: false, userMessage: 'The swap would revert on chain. Try a new quote or a higher slippage.' },
+  TRANSACTION_FAILED: { retryable: false, userMessage: 'The transaction failed.' },
+  RPC_UNAVAILABLE: { retryable: true, userMessage: 'The Starknet node is not responding. Please try again later.' },
+  NETWORK_ERROR: { retryable: true, userMessage: 'Network error. Check your connection and try again.' },
+  TIMEOUT: { retryable: true, userMessage: 'The request timed out. Please try again.' },
+  RATE_LIMITED: { retryable: true, userMessage: 'Too many requests. Please wait a moment and try again.' },
+  SERVICE_UNAVAILABLE: { retryable: true, userMessage: 'The service is temporarily unavailable. Please try again later.' },
+  API_ERROR: { retryable: false, userMessage: 'The request was refused by the service.' },
+  TYPHOON_UNAVAILABLE: { retryable: true, userMessage: 'The Typhoon privacy service is temporarily unavailable.' },
+  TYPHOON_MINIMUM: { retryable: false, userMessage: 'The amount is below the minimum Typhoon accepts for private swaps.' },
+  WITHDRAWAL_FAILED: { retryable: true, userMessage: 'The withdrawal did not go through. Your funds stay in Typhoon and it can be retried from the Withdrawals page.' },
+  WITHDRAWAL_IN_PROGRESS: { retryable: false, userMessage: 'This deposit is already being withdrawn.' },
+  CANCELLED: { retryable: false, userMessage: 'The request was cancelled.' },
+  UNKNOWN: { retryable: false, userMessage: 'Something went wrong. Please try again.' },
+};
+
+export interface PrivfiErrorOptions {
+  cause?: unknown;
+  status?: number; // HTTP status of the failed request
+  details?: unknown;
+  userMessage?: string; // Overrides the code's message when the caller knows more
+  retryable?: boolean; // Overrides the code's retryability
+  retryAfterMs?: number; // How long the server asked to wait before retrying
+}
+
+/**
+ * Error raised by the app's services. The message is for logs and the code
+ * decides what the user sees and whether trying again makes sense.
+ */
+export class PrivfiError extends Error {
+  readonly code: PrivfiErrorCode;
+  readonly retryable: boolean;
+  readonly userMessage: string;
+  readonly status?: number;
+  readonly retryAfterMs?: number;
+  readonly details?: unknown;
+  readonly cause?: unknown;
+
+  constructor(code: PrivfiErrorCode, message?: string, options: PrivfiErrorOptions = {}) {
+    const definition = PRIVFI_ERRORS[code];
+    super(message ?? definition.userMessage);
+    this.name = 'PrivfiError';
+    this.code = code;
+    this.retryable = options.retryable ?? definition.retryable;
+    this.userMessage = options.userMessage ?? definition.userMessage;
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+    this.details = options.details;
+    this.cause = options.cause;
+  }
+}
+
+export function isPrivfiError(error: unknown): error is PrivfiError {
+  return error instanceof PrivfiError;
+}
+
+export function getErrorCodeForStatus(status: number): PrivfiErrorCode {
+  if (status === 408) return 'TIMEOUT';
+  if (status === 429) return 'RATE_LIMITED';
+  if (status >= 500) return 'SERVICE_UNAVAILABLE';
+  return 'API_ERROR';
+}
+
+// Wallets signal a refused signature with EIP-1193's 4001 or the Starknet wallet API's 113
+const USER_REJECTED_CODES = new Set([4001, 113]);
+const USER_REJECTED_PATTERN = /user (rejected|refused|abort|cancel)|USER_REFUSED_OP|rejected by user/i;
+
+// Error classes starknet.js throws when the node misbehaves
+const RPC_ERROR_NAMES = new Set(['RpcError', 'TimeoutError', 'WebSocketNotConnectedError']);
+
+/**
+ * Classifies anything thrown by a service, the wallet or starknet.js.
+ * Errors that are already typed pass through unchanged.
+ */
+export function toPrivfiError(error: unknown, fallbackCode: PrivfiErrorCode = 'UNKNOWN'): PrivfiError {
+  if (isPrivfiError(error)) {
+    return error;
+  }
+
+  const message = error instanceof Error
+    ? error.message
+    : error && typeof error === 'object' && 'message' in error
+      ? String(error.message)
+      : typeof error === 'string' ? error : undefined;
+  const code = error && typeof error === 'object' && 'code' in error ? error.code : undefined;
+  const name = error instanceof Error ? error.name : undefined;
+
+  if ((typeof code === 'number' && USER_REJECTED_CODES.has(code)) || (message && USER_REJECTED_PATTERN.test(message))) {
+    return new PrivfiError('USER_REJECTED', message, { cause: error });
+  }
+  if (name === 'AbortError') {
+    return new PrivfiError('CANCELLED', message, { cause: error });
+  }
+  if (name && RPC_ERROR_NAMES.has(name)) {
+    return new PrivfiError('RPC_UNAVAILABLE', message, { cause: error });
+  }
+  // fetch rejects with a TypeError when the request never reached the server
+  if (error instanceof TypeError && message && /fetch|network/i.test(message)) {
+    return new PrivfiError('NETWORK_ERROR', message, { cause: error });
+  }
+
+  return new PrivfiError(fallbackCode, message, { cause: error });
+}
+
+export function getUserErrorMessage(error: unknown, fallbackCode?: PrivfiErrorCode): string {
+  return toPrivfiError(error, fallbackCode).userMessage;
+}
+
+export function isRetryableError(error: unknown): boolean {
+  return toPrivfiError(error).retryable;
+}
@@ -1,3 +1,5 @@
 export * from './api';
 export * from './config';
-export * from './providers';
\ No newline at end of file
+export * from './providers';
+export * from './errors';
+export * from './rpc';
\ No newline at end of file
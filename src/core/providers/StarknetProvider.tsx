@@ -1,26 +1,34 @@
-import React from 'react';
+import React, { useMemo } from 'react';
 import { mainnet } from '@starknet-react/chains';
 import {
   StarknetConfig,
-  publicProvider,
+  jsonRpcProvider,
+  avnuPaymasterProvider,
   argent,
   braavos,
   voyager
 } from '@starknet-react/core';
+import { MOCK_CONFIG } from '../config';
+import { useRpcHealth } from '../rpc';
+import { createMockWalletConnector } from './mockWallet';
 
 interface StarknetProviderProps {
   children: React.ReactNode;
 }
 
 export const StarknetProvider: React.FC<StarknetProviderProps> = ({ children }) => {
-  // Use explicit connectors instead of useInjectedConnectors
-  const connectors = [argent(), braavos()];
+  // Use explicit connectors instead of useInjectedConnectors, or the scripted wallet in mock mode
+  const connectors = useMemo(() => (MOCK_CONFIG.enabled ? [createMockWalletConnector()] : [argent(), braavos()]), []);
 
+  // Reads go to the healthiest configured endpoint and follow it when it fails over
+  const { activeUrl } = useRpcHealth();
+  const provider = useMemo(() => jsonRpcProvider({ rpc: () => ({ nodeUrl: activeUrl }) }), [activeUrl]);
 
   return (
     <StarknetConfig
       chains={[mainnet]}
-      provider={publicProvider()}
+      provider={provider}
+      paymasterProvider={avnuPaymasterProvider({})}
       connectors={connectors}
       explorer={voyager}
       autoConnect
@@ -0,0 +1,34 @@
+import { mainnet } from '@starknet-react/chains';
+import { MockConnector } from '@starknet-react/core';
+import { Account, InvokeFunctionResponse } from 'starknet';
+import { MOCK_CONFIG } from '../config';
+import { getRpcProvider } from '../rpc';
+
+/**
+ * Account of the scripted wallet. Transactions are never signed or sent, they get a random
+ * hash that the mock node reports as accepted.
+ */
+class MockWalletAccount extends Account {
+  async execute(): Promise<InvokeFunctionResponse> {
+    await new Promise(resolve => setTimeout(resolve, MOCK_CONFIG.latencyMs));
+    const hash = Array.from(crypto.getRandomValues(new Uint8Array(31)), byte => byte.toString(16).padStart(2, '0')).join('');
+    return { transaction_hash: `0x${hash}` };
+  }
+}
+
+/**
+ * Wallet connector used when MOCK_CONFIG is enabled, connected to MOCK_CONFIG.walletAddress on mainnet
+ */
+export function createMockWalletConnector(): MockConnector {
+  const account = new MockWalletAccount({
+    provider: getRpcProvider(),
+    address: MOCK_CONFIG.walletAddress,
+    signer: '0x1',
+  });
+  const connector = new MockConnector({
+    accounts: { mainnet: [account], sepolia: [account] },
+    options: { id: 'mock', name: 'Mock Wallet' },
+  });
+  connector.switchChain(mainnet.id);
+  return connector;
+}
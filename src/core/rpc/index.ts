@@ -0,0 +1,4 @@
+export * from './rpcHealth';
+export * from './rpcProvider';
+export * from './rpcStore';
+export * from './useRpcHealth';
\ No newline at end of file
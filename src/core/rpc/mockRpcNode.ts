@@ -0,0 +1,155 @@
+import { MOCK_CONFIG } from '../config';
+import { useRpcStore } from './rpcStore';
+import { STARKNET_TOKENS } from '@/constants/tokens';
+import { parseAmount } from '@/shared/utils/lib/amounts';
+
+interface JsonRpcRequest {
+  jsonrpc: '2.0';
+  id: number | string;
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+type JsonRpcOutcome = { result: unknown } | { error: { code: number; message: string } };
+
+interface StarknetCallRequest {
+  contract_address: string;
+  entry_point_selector: string;
+  calldata: string[];
+}
+
+// starknet_keccak of the entry point names the app reads. Hardcoded because importing
+// starknet here would bind fetch before the node is installed.
+const SELECTORS = {
+  balance_of: '0x35a73cd311a05d46deda634c5ee045db92f811b4e74bca4437fcb5302b7af33',
+  balanceOf: '0x2e4263afad30923c891518314c3c95dbe830a16874e8abc5777a9a20b54c76e',
+  allowance: '0x1e888a1026b19c8c0b57c72d63ed1737106aa10034105b980ba117bd0c29fe1',
+  decimals: '0x4c4fb1ab068f6039d5780c68dd0fa2f8742cceb3426d19667778ca7f3518a9',
+  symbol: '0x216b05c387bab9ac31918a3e61672f4618601f3c598a2f3f2710f37053e1ea4',
+  name: '0x361458367e696363fbcc70777d07ebbd2394e89fd0adcaf147faccd1d294d60',
+} as const;
+
+const MAINNET_CHAIN_ID = '0x534e5f4d41494e';
+const SPEC_VERSION = '0.9.0';
+const START_BLOCK = 1000000;
+const startedAt = Date.now();
+
+// Transactions are included in the block current when the node first hears of them
+const includedInBlock = new Map<string, number>();
+
+// One block per mock latency, so confirmations keep growing while a swap is watched
+const getBlockNumber = (): number => START_BLOCK + Math.floor((Date.now() - startedAt) / MOCK_CONFIG.latencyMs);
+
+const toU256 = (value: bigint): string[] => [
+  `0x${(value & ((BigInt(1) << BigInt(128)) - BigInt(1))).toString(16)}`,
+  `0x${(value >> BigInt(128)).toString(16)}`,
+];
+
+const toShortString = (value: string): string =>
+  `0x${Array.from(value, char => char.charCodeAt(0).toString(16).padStart(2, '0')).join('')}`;
+
+const isSelector = (selector: string, name: keyof typeof SELECTORS): boolean => BigInt(selector) === BigInt(SELECTORS[name]);
+
+const getInclusionBlock = (transactionHash: string): number => {
+  const key = transactionHash.toLowerCase();
+  let blockNumber = includedInBlock.get(key);
+  if (blockNumber === undefined) {
+    blockNumber = getBlockNumber();
+    includedInBlock.set(key, blockNumber);
+  }
+  return blockNumber;
+};
+
+// ERC20 views of the built-in tokens; the scripted wallet holds MOCK_CONFIG.balances and approves nothing
+const callContract = ({ contract_address, entry_point_selector, calldata }: StarknetCallRequest): JsonRpcOutcome => {
+  const token = Object.values(STARKNET_TOKENS).find(t => BigInt(t.address) === BigInt(contract_address));
+  if (!token) {
+    return { error: { code: 20, message: 'Contract not found' } };
+  }
+
+  if (isSelector(entry_point_selector, 'balance_of') || isSelector(entry_point_selector, 'balanceOf')) {
+    const isMockWallet = calldata[0] !== undefined && BigInt(calldata[0]) === BigInt(MOCK_CONFIG.walletAddress);
+    const balance = isMockWallet ? parseAmount(MOCK_CONFIG.balances[token.symbol] ?? '0', token.decimals) : BigInt(0);
+    return { result: toU256(balance) };
+  }
+  if (isSelector(entry_point_selector, 'allowance')) {
+    return { result: toU256(BigInt(0)) };
+  }
+  if (isSelector(entry_point_selector, 'decimals')) {
+    return { result: [`0x${token.decimals.toString(16)}`] };
+  }
+  if (isSelector(entry_point_selector, 'symbol')) {
+    return { result: [toShortString(token.symbol)] };
+  }
+  if (isSelector(entry_point_selector, 'name')) {
+    return { result: [toShortString(token.name)] };
+  }
+  return { error: { code: 21, message: 'Invalid message selector' } };
+};
+
+const answer = (request: JsonRpcRequest): JsonRpcOutcome => {
+  const params = request.params ?? {};
+  switch (request.method) {
+    case 'starknet_specVersion':
+      return { result: SPEC_VERSION };
+    case 'starknet_chainId':
+      return { result: MAINNET_CHAIN_ID };
+    case 'starknet_blockNumber':
+      return { result: getBlockNumber() };
+    case 'starknet_call':
+      return callContract(params.request as StarknetCallRequest);
+    case 'starknet_getTransactionStatus':
+      // Every scripted transaction succeeds
+      getInclusionBlock(params.transaction_hash as string);
+      return { result: { finality_status: 'ACCEPTED_ON_L2', execution_status: 'SUCCEEDED' } };
+    case 'starknet_getTransactionReceipt': {
+      const transactionHash = params.transaction_hash as string;
+      return {
+        result: {
+          type: 'INVOKE',
+          transaction_hash: transactionHash,
+          actual_fee: { amount: '0x0', unit: 'FRI' },
+          execution_status: 'SUCCEEDED',
+          finality_status: 'ACCEPTED_ON_L2',
+          block_hash: '0x1',
+          block_number: getInclusionBlock(transactionHash),
+          messages_sent: [],
+          events: [],
+          execution_resources: { l1_gas: 0, l1_data_gas: 0, l2_gas: 0 },
+        },
+      };
+    }
+    default:
+      return { error: { code: -32601, message: `Method not found: ${request.method}` } };
+  }
+};
+
+/**
+ * Scripted Starknet node used when MOCK_CONFIG is enabled. Requests to the configured endpoints
+ * are answered locally, so balances, health checks and transaction watching work offline.
+ * Installed before starknet is imported, since starknet keeps its own reference to fetch.
+ */
+function installMockRpcNode(): void {
+  if (!MOCK_CONFIG.enabled || typeof globalThis.fetch !== 'function') {
+    return;
+  }
+  const baseFetch = globalThis.fetch.bind(globalThis);
+
+  globalThis.fetch = async (input, init) => {
+    const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+    if (!useRpcStore.getState().endpoints.includes(url) || typeof init?.body !== 'string') {
+      return baseFetch(input, init);
+    }
+
+    // Batched providers send an array of requests and expect an array back
+    const body = JSON.parse(init.body) as JsonRpcRequest | JsonRpcRequest[];
+    const respond = (request: JsonRpcRequest) => ({ jsonrpc: '2.0', id: request.id, ...answer(request) });
+    const response = Array.isArray(body) ? body.map(respond) : respond(body);
+    return new Response(JSON.stringify(response), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  };
+}
+
+installMockRpcNode();
@@ -0,0 +1,93 @@
+import { ApiClient } from '../api';
+import { RPC_CONFIG } from '../config';
+import { PrivfiError, toPrivfiError } from '../errors';
+
+export type RpcEndpointStatus = 'unknown' | 'healthy' | 'slow' | 'down';
+
+export interface RpcEndpointHealth {
+  url: string;
+  status: RpcEndpointStatus;
+  latencyMs?: number;
+  blockNumber?: number;
+  checkedAt?: number;
+  error?: string;
+}
+
+interface JsonRpcResponse<T> {
+  result?: T;
+  error?: { code?: number; message?: string };
+}
+
+class RpcProbeClient extends ApiClient {
+  constructor(url: string, timeout: number) {
+    super(url, timeout, 'RPC');
+  }
+
+  async getBlockNumber(): Promise<number> {
+    const response = await this.request<JsonRpcResponse<number>>('', {
+      method: 'POST',
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'starknet_blockNumber' }),
+    });
+    if (typeof response.result !== 'number') {
+      throw new PrivfiError('RPC_UNAVAILABLE', response.error?.message || 'Invalid starknet_blockNumber response');
+    }
+    return response.result;
+  }
+}
+
+/**
+ * Canonical form of an endpoint URL, so the same node is never listed twice
+ */
+export function normalizeRpcUrl(url: string): string {
+  let parsed: URL | null = null;
+  try {
+    parsed = new URL(url.trim());
+  } catch (error) {
+    // Reported below with the same error as an unsupported protocol
+  }
+  if (!parsed || (parsed.protocol !== 'https:' && parsed.protocol !== 'http:')) {
+    throw new PrivfiError('INVALID_REQUEST', `Invalid RPC URL: ${url}`, {
+      userMessage: 'Enter a valid http(s) RPC URL',
+    });
+  }
+  return parsed.href;
+}
+
+/**
+ * Asks an endpoint for the latest block and times the answer
+ */
+export async function probeRpcEndpoint(
+  url: string,
+  timeoutMs: number = RPC_CONFIG.healthCheckTimeoutMs
+): Promise<RpcEndpointHealth> {
+  const startedAt = Date.now();
+  try {
+    const blockNumber = await new RpcProbeClient(url, timeoutMs).getBlockNumber();
+    const latencyMs = Date.now() - startedAt;
+    return {
+      url,
+      status: latencyMs > RPC_CONFIG.slowLatencyMs ? 'slow' : 'healthy',
+      latencyMs,
+      blockNumber,
+      checkedAt: Date.now(),
+    };
+  } catch (error) {
+    return { url, status: 'down', checkedAt: Date.now(), error: toPrivfiError(error).message };
+  }
+}
+
+const STATUS_PREFERENCE: RpcEndpointStatus[] = ['healthy', 'slow', 'unknown'];
+
+/**
+ * The first endpoint in the user's order with the best status. When every
+ * endpoint is down the first one is kept, so requests still have somewhere to go.
+ */
+export function selectRpcEndpoint(endpoints: string[], health: Record<string, RpcEndpointHealth>): string {
+  for (const status of STATUS_PREFERENCE) {
+    const endpoint = endpoints.find(url => (health[url]?.status ?? 'unknown') === status);
+    if (endpoint) {
+      return endpoint;
+    }
+  }
+  return endpoints[0];
+}
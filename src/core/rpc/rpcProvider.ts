@@ -0,0 +1,18 @@
+import { RpcProvider } from 'starknet';
+import { getActiveRpcUrl } from './rpcStore';
+
+const providers = new Map<string, RpcProvider>();
+
+/**
+ * Provider for the active endpoint. One instance per endpoint is kept, so calls made
+ * in the same tick are still batched into a single JSON-RPC request.
+ */
+export function getRpcProvider(): RpcProvider {
+  const nodeUrl = getActiveRpcUrl();
+  let provider = providers.get(nodeUrl);
+  if (!provider) {
+    provider = new RpcProvider({ nodeUrl, batch: 0 });
+    providers.set(nodeUrl, provider);
+  }
+  return provider;
+}
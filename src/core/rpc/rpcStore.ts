@@ -0,0 +1,97 @@
+import { create } from 'zustand';
+import { devtools, persist } from 'zustand/middleware';
+import { RPC_CONFIG } from '../config';
+import { RpcEndpointHealth, normalizeRpcUrl, selectRpcEndpoint } from './rpcHealth';
+
+interface RpcState {
+  endpoints: string[]; // In order of preference
+  health: Record<string, RpcEndpointHealth>; // Latest probe per endpoint, not persisted
+}
+
+interface RpcActions {
+  addEndpoint: (url: string) => void;
+  removeEndpoint: (url: string) => void;
+  moveEndpoint: (url: string, direction: 'up' | 'down') => void;
+  resetEndpoints: () => void;
+  setHealth: (results: RpcEndpointHealth[]) => void;
+  reportFailure: (url: string, error: string) => void;
+}
+
+type RpcStore = RpcState & RpcActions;
+
+const DEFAULT_ENDPOINTS = RPC_CONFIG.defaultEndpoints.map(normalizeRpcUrl);
+
+export const useRpcStore = create<RpcStore>()(
+  devtools(
+    persist(
+      (set) => ({
+        endpoints: DEFAULT_ENDPOINTS,
+        health: {},
+
+        // Throws a PrivfiError for URLs that are not http(s)
+        addEndpoint: (url) => {
+          const endpoint = normalizeRpcUrl(url);
+          set((state) => ({
+            endpoints: state.endpoints.includes(endpoint) ? state.endpoints : [...state.endpoints, endpoint],
+          }));
+        },
+
+        // The last endpoint cannot be removed, the app needs a node to talk to
+        removeEndpoint: (url) => set((state) => {
+          if (state.endpoints.length <= 1) {
+            return state;
+          }
+          const { [url]: _removed, ...health } = state.health;
+          return { endpoints: state.endpoints.filter(endpoint => endpoint !== url), health };
+        }),
+
+        moveEndpoint: (url, direction) => set((state) => {
+          const index = state.endpoints.indexOf(url);
+          const target = direction === 'up' ? index - 1 : index + 1;
+          if (index === -1 || target < 0 || target >= state.endpoints.length) {
+            return state;
+          }
+          const endpoints = [...state.endpoints];
+          [endpoints[index], endpoints[target]] = [endpoints[target], endpoints[index]];
+          return { endpoints };
+        }),
+
+        resetEndpoints: () => set({ endpoints: DEFAULT_ENDPOINTS, health: {} }),
+
+        // Probes that finish after their endpoint was removed are dropped
+        setHealth: (results) => set((state) => ({
+          health: {
+            ...state.health,
+            ...Object.fromEntries(
+              results
+                .filter(result => state.endpoints.includes(result.url))
+                .map(result => [result.url, result])
+            ),
+          },
+        })),
+
+        // Marks an endpoint down between probes, so the next request fails over straight away
+        reportFailure: (url, error) => set((state) => ({
+          health: {
+            ...state.health,
+            [url]: { ...state.health[url], url, status: 'down', checkedAt: Date.now(), error },
+          },
+        })),
+      }),
+      {
+        name: 'privfi-rpc-endpoints',
+        partialize: (state) => ({ endpoints: state.endpoints }),
+      }
+    ),
+    { name: 'rpc' }
+  )
+);
+
+export const selectActiveRpcUrl = (state: RpcState): string => selectRpcEndpoint(state.endpoints, state.health);
+
+/**
+ * Endpoint services should send their next request to, outside React
+ */
+export const getActiveRpcUrl = (): string => selectActiveRpcUrl(useRpcStore.getState());
+
+export const useActiveRpcUrl = (): string => useRpcStore(selectActiveRpcUrl);
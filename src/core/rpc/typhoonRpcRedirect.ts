@@ -0,0 +1,53 @@
+import { RPC_CONFIG } from '../config';
+import { getActiveRpcUrl, useRpcStore } from './rpcStore';
+
+/**
+ * The Typhoon SDK talks to a node URL built into the package and binds fetch when it is
+ * imported. This wraps fetch before that happens and sends the SDK's requests to the active
+ * endpoint instead. A failing endpoint is marked down and the request is sent once more to
+ * the endpoint that replaces it.
+ */
+function installTyphoonRpcRedirect(): void {
+  if (typeof globalThis.fetch !== 'function') {
+    return;
+  }
+  const baseFetch = globalThis.fetch.bind(globalThis);
+
+  const send = async (nodeUrl: string, init?: RequestInit): Promise<Response> => {
+    const { reportFailure } = useRpcStore.getState();
+    try {
+      const response = await baseFetch(nodeUrl, init);
+      if (response.status >= 500) {
+        reportFailure(nodeUrl, `HTTP error! status: ${response.status}`);
+      }
+      return response;
+    } catch (error) {
+      if (!init?.signal?.aborted) {
+        reportFailure(nodeUrl, error instanceof Error ? error.message : String(error));
+      }
+      throw error;
+    }
+  };
+
+  globalThis.fetch = async (input, init) => {
+    const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+    if (url !== RPC_CONFIG.typhoonSdkUrl) {
+      return baseFetch(input, init);
+    }
+
+    const nodeUrl = getActiveRpcUrl();
+    try {
+      const response = await send(nodeUrl, init);
+      const fallbackUrl = getActiveRpcUrl();
+      return response.status >= 500 && fallbackUrl !== nodeUrl ? send(fallbackUrl, init) : response;
+    } catch (error) {
+      const fallbackUrl = getActiveRpcUrl();
+      if (init?.signal?.aborted || fallbackUrl === nodeUrl) {
+        throw error;
+      }
+      return send(fallbackUrl, init);
+    }
+  };
+}
+
+installTyphoonRpcRedirect();
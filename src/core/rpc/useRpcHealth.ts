@@ -0,0 +1,37 @@
+import { useQuery } from '@tanstack/react-query';
+import { RPC_CONFIG } from '../config';
+import { probeRpcEndpoint } from './rpcHealth';
+import { useActiveRpcUrl, useRpcStore } from './rpcStore';
+
+export const RPC_HEALTH_QUERY_KEY = ['rpcHealth'] as const;
+
+/**
+ * Probes every configured endpoint on an interval and whenever the list changes.
+ * The results feed the store, which picks the endpoint the app uses.
+ */
+export const useRpcHealth = () => {
+  const endpoints = useRpcStore(state => state.endpoints);
+  const health = useRpcStore(state => state.health);
+  const setHealth = useRpcStore(state => state.setHealth);
+  const activeUrl = useActiveRpcUrl();
+
+  const { isFetching, refetch } = useQuery({
+    queryKey: [...RPC_HEALTH_QUERY_KEY, endpoints],
+    queryFn: async () => {
+      const results = await Promise.all(endpoints.map(url => probeRpcEndpoint(url)));
+      setHealth(results);
+      return results;
+    },
+    refetchInterval: RPC_CONFIG.healthCheckIntervalMs,
+    staleTime: RPC_CONFIG.healthCheckIntervalMs,
+    retry: false,
+  });
+
+  return {
+    endpoints,
+    health,
+    activeUrl,
+    isChecking: isFetching,
+    checkNow: refetch,
+  };
+};
@@ -0,0 +1,103 @@
+import React from 'react';
+import { RefreshCw } from 'lucide-react';
+import { Button } from '@/shared/components/ui/button';
+import { LoadingButton } from '@/shared/components/ui/loading-button';
+import { ErrorMessage } from '@/shared/components/ui/error-message';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/shared/components/ui/table';
+import { Token } from '@/constants/tokens';
+import { formatAmountDisplay } from '@/shared/utils/lib/amounts';
+import { isSameTokenAddress } from '../services/tokenRegistry';
+import { MAX_ALLOWANCE, getAllowanceKey } from '../utils/approvalPolicy';
+import { useTokenAllowances } from '../hooks/useTokenAllowances';
+import { useTokenRegistry } from '../hooks/useTokenRegistry';
+
+interface AllowancesDashboardProps {
+  walletAddress?: string;
+}
+
+const formatAddress = (addr: string) => `${addr.slice(0, 6)}...${addr.slice(-4)}`;
+
+// Anything within 2^128 of the maximum was approved as unlimited and only partly spent
+const UNLIMITED_THRESHOLD = MAX_ALLOWANCE >> BigInt(128);
+
+const formatAllowance = (allowance: bigint, token?: Token): string => {
+  if (allowance >= UNLIMITED_THRESHOLD) return 'Unlimited';
+  if (!token) return allowance.toString();
+  return formatAmountDisplay(allowance, token.decimals, 6);
+};
+
+export const AllowancesDashboard: React.FC<AllowancesDashboardProps> = ({ walletAddress }) => {
+  const { allowances, isLoading, error, refetch, revoke, isRevoking, revokingKey } = useTokenAllowances(walletAddress);
+  const { tokens } = useTokenRegistry();
+
+  return (
+    <div className="w-full max-w-4xl bg-[#1C1C1C] rounded-xl p-3">
+      <div className="flex items-center justify-between pb-3">
+        <span className="text-base font-normal text-white pl-2">Token Allowances</span>
+        <Button variant="ghost" size="sm" onClick={() => refetch()} disabled={!walletAddress}>
+          <RefreshCw className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {error && <ErrorMessage error={error} onRetry={() => refetch()} className="mb-3" />}
+
+      <div className="crypto-card p-3">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Token</TableHead>
+              <TableHead>Spender</TableHead>
+              <TableHead>Allowance</TableHead>
+              <TableHead className="text-right">Action</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {allowances.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={4} className="text-center text-xs text-muted-foreground">
+                  {!walletAddress
+                    ? 'Connect your wallet to see its allowances'
+                    : isLoading
+                      ? 'Loading...'
+                      : 'No outstanding allowances'}
+                </TableCell>
+              </TableRow>
+            )}
+            {allowances.map((allowance) => {
+              const key = getAllowanceKey(allowance.tokenAddress, allowance.spender);
+              const token = tokens.find(t => isSameTokenAddress(t.address, allowance.tokenAddress));
+
+              return (
+                <TableRow key={key}>
+                  <TableCell>{token?.symbol || formatAddress(allowance.tokenAddress)}</TableCell>
+                  <TableCell>
+                    <div>{allowance.spenderLabel}</div>
+                    <div className="text-xs text-muted-foreground font-mono">{formatAddress(allowance.spender)}</div>
+                  </TableCell>
+                  <TableCell>
+                    {allowance.allowance === null ? (
+                      <span className="text-xs text-destructive" title={allowance.error}>Could not be read</span>
+                    ) : (
+                      formatAllowance(allowance.allowance, token)
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <LoadingButton
+                      size="sm"
+                      variant="secondary"
+                      loading={revokingKey === key}
+                      disabled={isRevoking}
+                      onClick={() => revoke(allowance)}
+                    >
+                      Revoke
+                    </LoadingButton>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+};
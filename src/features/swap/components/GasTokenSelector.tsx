@@ -0,0 +1,41 @@
+import React from 'react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/shared/components/ui/select';
+import { GasTokenFee } from '../services/avnu';
+
+interface GasTokenSelectorProps {
+  gasTokenFees: GasTokenFee[];
+  selectedGasToken?: string; // Undefined pays gas in native STRK
+  onGasTokenChange: (tokenAddress?: string) => void;
+  disabled?: boolean;
+}
+
+const NATIVE_GAS = 'native';
+
+export const GasTokenSelector: React.FC<GasTokenSelectorProps> = ({
+  gasTokenFees,
+  selectedGasToken,
+  onGasTokenChange,
+  disabled = false,
+}) => {
+  return (
+    <Select
+      value={selectedGasToken ?? NATIVE_GAS}
+      onValueChange={(value) => onGasTokenChange(value === NATIVE_GAS ? undefined : value)}
+      disabled={disabled}
+    >
+      <SelectTrigger className="h-7 w-auto gap-1 text-xs" aria-label="Gas token">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NATIVE_GAS} className="text-xs">
+          STRK (native)
+        </SelectItem>
+        {gasTokenFees.map((fee) => (
+          <SelectItem key={fee.tokenAddress} value={fee.tokenAddress} className="text-xs">
+            {fee.symbol} (gasless)
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
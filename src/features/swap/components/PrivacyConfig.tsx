@@ -1,67 +1,142 @@
-import React, { useState } from 'react';
-import { User } from 'lucide-react';
+import React from 'react';
+import { Plus, User, X } from 'lucide-react';
 import { Input } from '@/shared/components/ui/input';
 import { Button } from '@/shared/components/ui/button';
 import { Label } from '@/shared/components/ui/label';
+import { ErrorMessage } from '@/shared/components/ui/error-message';
 import { useSwapStore } from '../store/swapStore';
+import { WithdrawalRecipient } from '../types/swap';
+import { distributeEvenly, getSplitTotal, validateRecipientSplits } from '../utils/withdrawalSplits';
 
 interface PrivacyConfigProps {
   walletAddress?: string;
+  disabled?: boolean;
 }
 
-export const PrivacyConfig: React.FC<PrivacyConfigProps> = ({ walletAddress }) => {
-  const { privacy, setRecipientAddress } = useSwapStore();
-  const [tempAddress, setTempAddress] = useState(privacy.recipientAddress || '');
+const MAX_RECIPIENTS = 5;
 
-  const handleAddressChange = (value: string) => {
-    setTempAddress(value);
-    setRecipientAddress(value);
+export const PrivacyConfig: React.FC<PrivacyConfigProps> = ({ walletAddress, disabled = false }) => {
+  const { privacy, setRecipientSplits } = useSwapStore();
+  const recipients = privacy.recipientSplits;
+
+  const updateRecipient = (index: number, changes: Partial<WithdrawalRecipient>) => {
+    setRecipientSplits(recipients.map((recipient, i) => (i === index ? { ...recipient, ...changes } : recipient)));
+  };
+
+  // Adding or removing a recipient re-balances the shares evenly
+  const rebalance = (next: WithdrawalRecipient[]) => {
+    const percentages = distributeEvenly(next.length);
+    setRecipientSplits(next.map((recipient, i) => ({ ...recipient, percentage: percentages[i] })));
+  };
+
+  const handleAddRecipient = () => {
+    rebalance([...recipients, { address: '', percentage: 0 }]);
   };
 
-  const handleUseWallet = () => {
+  const handleRemoveRecipient = (index: number) => {
+    rebalance(recipients.filter((_, i) => i !== index));
+  };
+
+  const handlePercentageChange = (index: number, value: string) => {
+    const percentage = parseFloat(value);
+    updateRecipient(index, { percentage: isNaN(percentage) ? 0 : Math.min(Math.max(percentage, 0), 100) });
+  };
+
+  const handleUseWallet = (index: number) => {
     if (walletAddress) {
-      setTempAddress(walletAddress);
-      setRecipientAddress(walletAddress);
+      updateRecipient(index, { address: walletAddress });
     }
   };
 
-  const displayAddress = privacy.recipientAddress || walletAddress || '';
-  const placeholderText = walletAddress 
-    ? `${walletAddress.slice(0, 8)}...${walletAddress.slice(-8)} (default)`
-    : 'Enter recipient address';
+  const total = getSplitTotal(recipients);
+  const validationError = validateRecipientSplits(recipients);
 
   return (
-    <div className="crypto-card px-4 py-6 space-y-4">
-      <div className="space-y-2">
-        <Label htmlFor="recipient-address" className="text-white">
-          Recipient Address
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <Label className="text-xs font-normal text-muted-foreground">
+          Recipients ({Math.round(total * 100) / 100}%)
         </Label>
-        <div className="flex gap-2">
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => setRecipientSplits([])}
+          disabled={disabled}
+          className="text-xs h-7 px-2"
+        >
+          Single recipient
+        </Button>
+      </div>
+
+      {recipients.map((recipient, index) => (
+        <div key={index} className="flex items-center gap-2">
           <Input
-            id="recipient-address"
             type="text"
-            placeholder={placeholderText}
-            value={tempAddress}
-            onChange={(e) => handleAddressChange(e.target.value)}
-            className="token-input text-xs flex-1"
+            placeholder={`Recipient ${index + 1} address`}
+            value={recipient.address}
+            onChange={(e) => updateRecipient(index, { address: e.target.value })}
+            disabled={disabled}
+            className="token-input-compact text-xs flex-1"
           />
+          <div className="flex items-center gap-1 text-xs text-muted-foreground">
+            <Input
+              type="number"
+              min={0}
+              max={100}
+              value={recipient.percentage}
+              onChange={(e) => handlePercentageChange(index, e.target.value)}
+              disabled={disabled}
+              aria-label={`Recipient ${index + 1} share`}
+              className="token-input-compact w-16 text-center"
+            />
+            %
+          </div>
           {walletAddress && (
             <Button
-              variant="outline"
+              variant="ghost"
               size="sm"
-              onClick={handleUseWallet}
-              className="text-xs flex items-center gap-1 px-3"
+              onClick={() => handleUseWallet(index)}
+              disabled={disabled}
+              title="Use connected wallet"
+              className="h-8 w-8 p-0"
             >
               <User className="h-3 w-3" />
-              Use Wallet
+            </Button>
+          )}
+          {recipients.length > 1 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => handleRemoveRecipient(index)}
+              disabled={disabled}
+              title="Remove recipient"
+              className="h-8 w-8 p-0"
+            >
+              <X className="h-3 w-3" />
             </Button>
           )}
         </div>
-      </div>
-      
+      ))}
+
+      {recipients.length < MAX_RECIPIENTS && (
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleAddRecipient}
+          disabled={disabled}
+          className="text-xs flex items-center gap-1 px-3"
+        >
+          <Plus className="h-3 w-3" />
+          Add recipient
+        </Button>
+      )}
+
+      {validationError && <ErrorMessage message={validationError} />}
+
       <p className="text-xs text-gray-400">
-        If no address is specified, tokens will be privately sent to your connected wallet address.
+        Each deposit is made of notes of fixed pool sizes and every note goes to one recipient, so shares
+        can be a few percent off. Splits the notes cannot pay are rejected before you sign.
       </p>
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,150 @@
+import React, { useState } from 'react';
+import { ChevronDown, Pin, PinOff } from 'lucide-react';
+import { Button } from '@/shared/components/ui/button';
+import { Badge } from '@/shared/components/ui/badge';
+import { Token } from '@/constants/tokens';
+import { AVNUQuote, AVNURoute } from '../services/avnu';
+import { isSameTokenAddress } from '../services/tokenRegistry';
+import { useTokenRegistry } from '../hooks/useTokenRegistry';
+import { SwapMode } from '../types/swap';
+import { compareQuotes } from '../utils/quoteComparison';
+
+interface QuoteComparisonPanelProps {
+  quotes: AVNUQuote[];
+  selectedQuote: AVNUQuote | null;
+  pinnedQuote: AVNUQuote | null;
+  fromToken: Token;
+  toToken: Token;
+  swapMode?: SwapMode;
+  onPinQuote: (quote: AVNUQuote) => void;
+  onUnpinQuote: () => void;
+  disabled?: boolean;
+}
+
+const formatAmount = (amount: number) => parseFloat(amount.toFixed(6)).toString();
+
+// AVNU reports each split as a fraction of its parent route
+const formatPercent = (percent: number) => `${Math.round(percent * 10000) / 100}%`;
+
+const RouteTree: React.FC<{ routes: AVNURoute[]; tokens: Token[] }> = ({ routes, tokens }) => {
+  const symbolOf = (address: string) =>
+    tokens.find(token => isSameTokenAddress(token.address, address))?.symbol ?? `${address.slice(0, 6)}...`;
+
+  return (
+    <div className="space-y-1.5">
+      {routes.map((route, index) => (
+        <div key={`${route.name}-${index}`} className="space-y-1">
+          <div className="flex items-center justify-between gap-2 text-xs">
+            <span className="text-white">{route.name}</span>
+            <span className="text-muted-foreground">
+              {symbolOf(route.sellTokenAddress)} → {symbolOf(route.buyTokenAddress)} · {formatPercent(route.percent)}
+            </span>
+          </div>
+          <div className="h-1 rounded-full bg-muted overflow-hidden">
+            <div
+              className="h-full bg-white/60"
+              style={{ width: `${Math.min(route.percent * 100, 100)}%` }}
+            />
+          </div>
+          {route.routes && route.routes.length > 0 && (
+            <div className="ml-2 pl-2 border-l border-muted">
+              <RouteTree routes={route.routes} tokens={tokens} />
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export const QuoteComparisonPanel: React.FC<QuoteComparisonPanelProps> = ({
+  quotes,
+  selectedQuote,
+  pinnedQuote,
+  fromToken,
+  toToken,
+  swapMode = 'exact-in',
+  onPinQuote,
+  onUnpinQuote,
+  disabled = false,
+}) => {
+  const { tokens } = useTokenRegistry();
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [expandedRoute, setExpandedRoute] = useState<string | null>(null);
+
+  const comparisons = compareQuotes(quotes, fromToken.decimals, toToken.decimals, swapMode);
+
+  return (
+    <div className="crypto-card p-4 mt-3">
+      <button
+        type="button"
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full flex items-center justify-between text-xs text-muted-foreground hover:opacity-70 transition-opacity duration-200"
+      >
+        <span>
+          Compare routes ({comparisons.length}){pinnedQuote && ' · pinned'}
+        </span>
+        <ChevronDown className={`h-4 w-4 transition-transform ${isExpanded ? 'rotate-180' : ''}`} />
+      </button>
+
+      {isExpanded && (
+        <div className="pt-3 space-y-3">
+          {comparisons.map((comparison) => {
+            const { quote, routeKey } = comparison;
+            const isSelected = selectedQuote?.quoteId === quote.quoteId;
+            const isPinned = pinnedQuote?.quoteId === quote.quoteId;
+
+            return (
+              <div
+                key={quote.quoteId}
+                className={`rounded-lg p-3 space-y-2 border ${isSelected ? 'border-white/40' : 'border-transparent bg-muted/20'}`}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-1 min-w-0">
+                    <span className="text-xs text-white truncate">{comparison.sources.join(' + ') || quote.liquiditySource}</span>
+                    {comparison.isBest && <Badge variant="secondary" className="text-[10px] px-1.5 py-0">Best</Badge>}
+                    {isPinned && <Badge variant="outline" className="text-[10px] px-1.5 py-0">Pinned</Badge>}
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => (isPinned ? onUnpinQuote() : onPinQuote(quote))}
+                    disabled={disabled}
+                    title={isPinned ? 'Unpin route' : 'Pin route'}
+                    className="h-7 w-7 p-0"
+                  >
+                    {isPinned ? <PinOff className="h-3 w-3" /> : <Pin className="h-3 w-3" />}
+                  </Button>
+                </div>
+
+                <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs">
+                  <span className="text-muted-foreground">{swapMode === 'exact-out' ? 'You pay' : 'You receive'}</span>
+                  <span className="text-right text-white">
+                    {swapMode === 'exact-out'
+                      ? `${formatAmount(comparison.sellAmount)} ${fromToken.symbol}`
+                      : `${formatAmount(comparison.netOutput)} ${toToken.symbol}`}
+                  </span>
+                  <span className="text-muted-foreground">Net value after gas</span>
+                  <span className="text-right text-white">${comparison.netOutputUsd.toFixed(2)}</span>
+                  <span className="text-muted-foreground">Gas</span>
+                  <span className="text-right text-white">${comparison.gasFeesUsd.toFixed(3)}</span>
+                  <span className="text-muted-foreground">Price impact</span>
+                  <span className="text-right text-white">{comparison.priceImpact.toFixed(4)}%</span>
+                </div>
+
+                <button
+                  type="button"
+                  onClick={() => setExpandedRoute(expandedRoute === routeKey ? null : routeKey)}
+                  className="text-xs text-muted-foreground hover:opacity-70"
+                >
+                  {expandedRoute === routeKey ? 'Hide route' : 'Show route'}
+                </button>
+                {expandedRoute === routeKey && <RouteTree routes={quote.routes || []} tokens={tokens} />}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,17 +1,27 @@
 import React, { useMemo, useState } from 'react';
-import { ArrowUpDown, RefreshCw, Wallet } from 'lucide-react';
+import { ArrowUpDown, RefreshCw, Users, Wallet } from 'lucide-react';
 import { motion } from 'framer-motion';
 import { TokenInput } from './TokenInput';
 import { TransactionDetails } from './TransactionDetails';
+import { QuoteComparisonPanel } from './QuoteComparisonPanel';
+import { WithdrawalPolicySelector } from './WithdrawalPolicySelector';
+import { PrivacyConfig } from './PrivacyConfig';
 import { LoadingButton } from '@/shared/components/ui/loading-button';
+import { Button } from '@/shared/components/ui/button';
 import { Token } from '@/constants/tokens';
 import { useTokenBalance } from '@/shared/hooks';
 import { ErrorMessage } from '@/shared/components/ui/error-message';
+import { PrivfiError } from '@/core/errors';
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/shared/components/ui/tooltip';
-import { AVNUQuote, formatQuoteForDisplay, extractTokenPricesFromQuote } from '../services/avnu';
+import { AVNUQuote, GasTokenFee, formatQuoteForDisplay, extractTokenPricesFromQuote } from '../services/avnu';
 import { useSwapStore } from '../store/swapStore';
+import { ApprovalPolicy, SwapMode } from '../types/swap';
 import { useTimeEstimation } from '../hooks/useTimeEstimation';
 import { useAnimations } from '@/shared/hooks/useAnimations';
+import { isValidStarknetAddress } from '@/shared/utils/lib/inputValidation';
+import { compareAmounts, formatAmountDisplay, tryParseAmount } from '@/shared/utils/lib/amounts';
+import { GasReserve } from '../utils/gasReserve';
+import { distributeEvenly, validateRecipientSplits } from '../utils/withdrawalSplits';
 
 interface MinimumAmountValidation {
   isValid: boolean;
@@ -34,15 +44,28 @@ interface SwapCardProps {
   onToTokenChange: (token: Token) => void;
   onSwap: () => void;
   onSwapDirection: () => void;
-  onPercentageClick: (percentage: number, balance: string) => void;
+  onPercentageClick: (percentage: number, balance: bigint) => void;
   // Quote-related props
   selectedQuote?: AVNUQuote | null;
   formattedQuote?: ReturnType<typeof formatQuoteForDisplay> | null;
+  quotes?: AVNUQuote[];
+  pinnedQuote?: AVNUQuote | null;
+  onPinQuote?: (quote: AVNUQuote) => void;
+  onUnpinQuote?: () => void;
   isLoadingQuotes?: boolean;
-  quotesError?: string | null;
+  quotesError?: PrivfiError | null;
   isQuoteExpired?: boolean;
   timeToExpiry?: number;
   onRefreshQuotes?: () => void;
+  // Gas token props
+  gasTokenFees?: GasTokenFee[];
+  selectedGasTokenFee?: GasTokenFee | null;
+  onGasTokenChange?: (tokenAddress?: string) => void;
+  // Gas kept back when selling the whole balance of the fee token
+  gasReserve?: GasReserve | null;
+  // Approval policy props
+  approvalPolicy?: ApprovalPolicy;
+  onApprovalPolicyChange?: (policy: ApprovalPolicy) => void;
   // Slippage-related props
   slippage?: number;
   minReceived?: string;
@@ -56,10 +79,14 @@ interface SwapCardProps {
   onResetSwap?: () => void;
   // Estimating state
   isEstimatingAfterSwap?: boolean;
+  swapMode?: SwapMode; // Which amount the user typed
   // Direction swap state
   isSwappingDirection?: boolean;
   // Minimum amount validation
   minimumAmountValidation?: MinimumAmountValidation;
+  // Deposit note vault
+  isVaultUnlocked?: boolean;
+  onUnlockVault?: () => void;
 }
 
 export const SwapCard: React.FC<SwapCardProps> = ({
@@ -80,9 +107,22 @@ export const SwapCard: React.FC<SwapCardProps> = ({
   // Quote-related props
   selectedQuote,
   formattedQuote,
+  quotes = [],
+  pinnedQuote = null,
+  onPinQuote,
+  onUnpinQuote,
   isLoadingQuotes = false,
   quotesError,
   isQuoteExpired = false,
+  onRefreshQuotes,
+  // Gas token props
+  gasTokenFees,
+  selectedGasTokenFee,
+  onGasTokenChange,
+  gasReserve,
+  // Approval policy props
+  approvalPolicy,
+  onApprovalPolicyChange,
   // Slippage-related props
   slippage = 0.5,
   minReceived = "0",
@@ -96,16 +136,20 @@ export const SwapCard: React.FC<SwapCardProps> = ({
   onResetSwap,
   // Estimating state
   isEstimatingAfterSwap = false,
+  swapMode = 'exact-in',
   // Direction swap state
   isSwappingDirection = false,
   // Minimum amount validation
   minimumAmountValidation,
+  // Deposit note vault
+  isVaultUnlocked = true,
+  onUnlockVault,
 }) => {
   const { variants, transitions } = useAnimations();
   const [swapRotation, setSwapRotation] = useState(0);
 
   // Recipient address management
-  const { privacy, setRecipientAddress } = useSwapStore();
+  const { privacy, setRecipientAddress, setRecipientSplits, setWithdrawalPolicy } = useSwapStore();
   const [customAddress, setCustomAddress] = useState('');
 
   // Fetch balances for selected tokens
@@ -121,13 +165,28 @@ export const SwapCard: React.FC<SwapCardProps> = ({
   // Check if the from amount exceeds available balance
   const exceedsBalance = useMemo(() => {
     if (!fromAmount || !fromTokenBalance.rawFormatted) return false;
-    const inputAmount = parseFloat(fromAmount);
-    const availableBalance = parseFloat(fromTokenBalance.rawFormatted);
-    return inputAmount > availableBalance;
-  }, [fromAmount, fromTokenBalance.rawFormatted]);
+    const inputAmount = tryParseAmount(fromAmount, fromToken.decimals);
+    const availableBalance = tryParseAmount(fromTokenBalance.rawFormatted, fromToken.decimals);
+    if (inputAmount === null || availableBalance === null) return false;
+    return compareAmounts(inputAmount, availableBalance) > 0;
+  }, [fromAmount, fromTokenBalance.rawFormatted, fromToken.decimals]);
+
+  const maxReserveNote = gasReserve
+    ? `Max keeps ${formatAmountDisplay(gasReserve.amount, gasReserve.decimals, 6)} ${gasReserve.symbol} back to pay the network fee` +
+      (gasReserve.isEstimated
+        ? ', three times the quoted fee since the private deposit runs in the same transaction.'
+        : ' until a quote gives a fee estimate.')
+    : undefined;
 
   // Get execution progress from store
-  const { executionProgress } = useSwapStore();
+  const { executionProgress, executionSimulation } = useSwapStore();
+
+  // Private swaps need the vault open to persist the deposit notes
+  const needsVaultUnlock = privacy.isEnabled && !isVaultUnlocked;
+
+  // Split payouts replace the single recipient address
+  const isSplitMode = privacy.recipientSplits.length > 0;
+  const splitError = isSplitMode ? validateRecipientSplits(privacy.recipientSplits) : null;
 
   // Use time estimation hook for real-time countdown
   const { formattedRemainingTime } = useTimeEstimation(executionProgress);
@@ -153,6 +212,17 @@ export const SwapCard: React.FC<SwapCardProps> = ({
     setRecipientAddress(value);
   };
 
+  // Start a split payout, keeping the address typed so far as the first recipient
+  const handleStartSplit = () => {
+    const percentages = distributeEvenly(2);
+    setRecipientSplits([
+      { address: customAddress || walletAddress || '', percentage: percentages[0] },
+      { address: '', percentage: percentages[1] },
+    ]);
+    setCustomAddress('');
+    setRecipientAddress('');
+  };
+
   // Handle wallet icon click to fill connected address
   const handleWalletIconClick = () => {
     if (walletAddress) {
@@ -161,12 +231,6 @@ export const SwapCard: React.FC<SwapCardProps> = ({
     }
   };
 
-  // Validate Starknet address format
-  const isValidStarknetAddress = (address: string) => {
-    if (!address) return false;
-    return /^0x[a-fA-F0-9]{63,64}$/.test(address);
-  };
-
 
   return (
     <div className={transitions.default}>
@@ -184,7 +248,9 @@ export const SwapCard: React.FC<SwapCardProps> = ({
           onTokenChange={onFromTokenChange}
           showPercentageButtons={true}
           percentageButtons={percentageButtons}
-          onPercentageClick={(percentage) => onPercentageClick(percentage, fromTokenBalance.rawFormatted)}
+          onPercentageClick={(percentage) => onPercentageClick(percentage, fromTokenBalance.rawBalance)}
+          maxReserveNote={maxReserveNote}
+          isEstimating={swapMode === 'exact-out' && isLoadingQuotes}
           disableSync={isEstimatingAfterSwap}
         />
 
@@ -217,7 +283,6 @@ export const SwapCard: React.FC<SwapCardProps> = ({
           selectedToken={toToken}
           priceData={tokenPrices}
           disableBalanceValidation={true}
-          readOnly={true}
           onAmountChange={onToAmountChange}
           onTokenChange={onToTokenChange}
           isEstimating={isEstimatingAfterSwap}
@@ -227,46 +292,76 @@ export const SwapCard: React.FC<SwapCardProps> = ({
 
       {/* Recipient Section */}
       <div className="crypto-card p-3 mt-3">
-        <div className="flex items-center gap-3">
-          {/* Label */}
-          {/* <span className="text-xs font-normal text-muted-foreground min-w-fit">Recipient</span> */}
-
-          {/* Address Input */}
-          <div className="relative w-full">
-            <Tooltip delayDuration={200}>
-              <TooltipTrigger asChild>
-                <div className="relative">
-                  <input
-                    type="text"
-                    value={customAddress}
-                    onChange={(e) => handleCustomAddressChange(e.target.value)}
-                    className={`token-input-compact ${customAddress && !isValidStarknetAddress(customAddress) ? 'border border-red-400/50 bg-red-400/5' : ''
-                      } ${transitions.default}`}
-                    placeholder="Recipient address (optional)"
-                  />
-                  {/* <button
-                    type="button"
-                    onClick={handleWalletIconClick}
-                    disabled={!walletAddress}
-                    className={`absolute right-2 top-1/2 transform -translate-y-1/2 p-1 rounded hover:bg-gray-700/50 transition-colors ${
-                      !walletAddress ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'
-                    }`}
-                    title={walletAddress ? 'Fill with connected wallet address' : 'No wallet connected'}
-                  >
-                    <Wallet className="h-3 w-3 text-muted-foreground" />
-                  </button> */}
-                </div>
-              </TooltipTrigger>
-              {customAddress && !isValidStarknetAddress(customAddress) && (
-                <TooltipContent side="bottom" className="max-w-xs">
-                  <span className="text-xs text-red-400">
-                    Please enter a valid Starknet address (0x followed by 63-64 hex characters)
-                  </span>
-                </TooltipContent>
-              )}
-            </Tooltip>
+        {isSplitMode ? (
+          <PrivacyConfig
+            walletAddress={walletAddress}
+            disabled={isExecutingSwap || !!executionProgress}
+          />
+        ) : (
+          <div className="flex items-center gap-3">
+            {/* Label */}
+            {/* <span className="text-xs font-normal text-muted-foreground min-w-fit">Recipient</span> */}
+
+            {/* Address Input */}
+            <div className="relative w-full">
+              <Tooltip delayDuration={200}>
+                <TooltipTrigger asChild>
+                  <div className="relative">
+                    <input
+                      type="text"
+                      value={customAddress}
+                      onChange={(e) => handleCustomAddressChange(e.target.value)}
+                      className={`token-input-compact ${customAddress && !isValidStarknetAddress(customAddress) ? 'border border-red-400/50 bg-red-400/5' : ''
+                        } ${transitions.default}`}
+                      placeholder="Recipient address (optional)"
+                    />
+                    {/* <button
+                      type="button"
+                      onClick={handleWalletIconClick}
+                      disabled={!walletAddress}
+                      className={`absolute right-2 top-1/2 transform -translate-y-1/2 p-1 rounded hover:bg-gray-700/50 transition-colors ${
+                        !walletAddress ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'
+                      }`}
+                      title={walletAddress ? 'Fill with connected wallet address' : 'No wallet connected'}
+                    >
+                      <Wallet className="h-3 w-3 text-muted-foreground" />
+                    </button> */}
+                  </div>
+                </TooltipTrigger>
+                {customAddress && !isValidStarknetAddress(customAddress) && (
+                  <TooltipContent side="bottom" className="max-w-xs">
+                    <span className="text-xs text-red-400">
+                      Please enter a valid Starknet address (0x followed by 63-64 hex characters)
+                    </span>
+                  </TooltipContent>
+                )}
+              </Tooltip>
+            </div>
+
+            {/* Split payout */}
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={handleStartSplit}
+              disabled={isExecutingSwap || !!executionProgress}
+              title="Split across several recipients"
+              className="h-8 w-8 p-0"
+            >
+              <Users className="h-4 w-4" />
+            </Button>
           </div>
-        </div>
+        )}
+
+        {/* Withdrawal timing */}
+        {privacy.isEnabled && (
+          <div className="mt-3">
+            <WithdrawalPolicySelector
+              policy={privacy.withdrawalPolicy}
+              onPolicyChange={setWithdrawalPolicy}
+              disabled={isExecutingSwap || !!executionProgress}
+            />
+          </div>
+        )}
       </div>
 
       {/* Transaction Details */}
@@ -276,7 +371,8 @@ export const SwapCard: React.FC<SwapCardProps> = ({
           {/* Error state */}
           {quotesError && !isLoadingQuotes && (
             <ErrorMessage
-              message={`Failed to fetch quotes: ${quotesError}`}
+              error={quotesError}
+              onRetry={onRefreshQuotes}
               className="mt-6 mb-0"
             />
           )}
@@ -320,8 +416,34 @@ export const SwapCard: React.FC<SwapCardProps> = ({
             onSlippageChange={onSlippageChange}
             toTokenSymbol={toToken.symbol}
             toToken={toToken}
+            fromToken={fromToken}
             priceData={tokenPrices}
+            gasFee={
+              formattedQuote && selectedQuote && !quotesError
+                ? formattedQuote.gasFeesUsd
+                : "$0.000"
+            }
+            gasTokenFees={gasTokenFees}
+            selectedGasTokenFee={selectedGasTokenFee}
+            onGasTokenChange={onGasTokenChange}
+            approvalPolicy={approvalPolicy}
+            onApprovalPolicyChange={onApprovalPolicyChange}
+            simulation={executionSimulation}
           />
+
+          {quotes.length > 1 && !quotesError && onPinQuote && onUnpinQuote && (
+            <QuoteComparisonPanel
+              quotes={quotes}
+              selectedQuote={selectedQuote ?? null}
+              pinnedQuote={pinnedQuote}
+              fromToken={fromToken}
+              toToken={toToken}
+              swapMode={swapMode}
+              onPinQuote={onPinQuote}
+              onUnpinQuote={onUnpinQuote}
+              disabled={isExecutingSwap}
+            />
+          )}
         </>
       )}
 
@@ -337,7 +459,7 @@ export const SwapCard: React.FC<SwapCardProps> = ({
       <div className="mt-3 space-y-3">
         <LoadingButton
           className="swap-button"
-          onClick={onSwap}
+          onClick={needsVaultUnlock ? onUnlockVault : onSwap}
           loading={false}
           spinnerVariant="refresh"
           disabled={(() => {
@@ -352,7 +474,8 @@ export const SwapCard: React.FC<SwapCardProps> = ({
               !!executionProgress ||
               exceedsBalance ||
               (minimumAmountValidation && !minimumAmountValidation.isValid) ||
-              (customAddress && !isValidStarknetAddress(customAddress));
+              (customAddress && !isValidStarknetAddress(customAddress)) ||
+              !!splitError;
 
 
             return isDisabled;
@@ -363,6 +486,7 @@ export const SwapCard: React.FC<SwapCardProps> = ({
             if (!walletAddress) return 'Connect Wallet';
             if (!fromAmount || parseFloat(fromAmount) <= 0) return 'Enter Amount';
             if (customAddress && !isValidStarknetAddress(customAddress)) return 'Invalid recipient address';
+            if (splitError) return 'Invalid recipient split';
             if (isLoadingQuotes) return (
               <div className="flex items-center gap-2">
                 <RefreshCw className="h-4 w-4 animate-spin" />
@@ -373,6 +497,7 @@ export const SwapCard: React.FC<SwapCardProps> = ({
             if (minimumAmountValidation && !minimumAmountValidation.isValid) return `Minimum output ${minimumAmountValidation.minimumAmount} ${toToken.symbol} required`;
             if (isQuoteExpired) return 'Quote Expired - Refresh';
             if (quotesError && fromAmount && parseFloat(fromAmount) > 0) return 'Quote Error';
+            if (needsVaultUnlock && !executionProgress) return 'Unlock Vault to Swap';
             if (executionProgress) return (
               <div className="flex items-center gap-2">
                 <RefreshCw className="h-4 w-4 animate-spin" />
@@ -0,0 +1,233 @@
+import React, { useMemo, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { ArrowRight, Download, ExternalLink } from 'lucide-react';
+import { Badge } from '@/shared/components/ui/badge';
+import { Button } from '@/shared/components/ui/button';
+import { Input } from '@/shared/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/shared/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/shared/components/ui/table';
+import { formatAmountDisplay, toRawAmount } from '@/shared/utils/lib/amounts';
+import { downloadFile } from '@/shared/utils/lib/download';
+import { SwapHistoryEntry, SwapHistoryStatus, SwapHistoryWithdrawalStatus } from '../types/swap';
+import { TyphoonDepositData } from '../utils/typhoonStorage';
+import {
+  getReceivedAmount,
+  getTransactionExplorerUrl,
+  toSwapHistoryCsv,
+  toSwapHistoryJson,
+} from '../utils/swapHistoryExport';
+import { useSwapHistoryStore } from '../store/swapHistoryStore';
+import { useTyphoonDeposits } from '../hooks/useTyphoonDeposits';
+
+interface SwapHistoryDashboardProps {
+  walletAddress?: string;
+}
+
+type StatusFilter = 'all' | SwapHistoryStatus;
+type ModeFilter = 'all' | 'private' | 'regular';
+
+const STATUS_LABELS: Record<SwapHistoryStatus, string> = {
+  pending: 'Pending',
+  confirmed: 'Confirmed',
+  failed: 'Failed',
+};
+
+const WITHDRAWAL_LABELS: Record<SwapHistoryWithdrawalStatus, string> = {
+  pending: 'Awaiting withdrawal',
+  processing: 'Withdrawing',
+  scheduled: 'Scheduled',
+  completed: 'Withdrawn',
+  failed: 'Withdrawal failed',
+};
+
+const formatHash = (hash: string) => `${hash.slice(0, 8)}...${hash.slice(-6)}`;
+
+/**
+ * The deposit notes know about withdrawals run later from the Withdrawals page or the scheduler
+ */
+const resolveWithdrawal = (
+  entry: SwapHistoryEntry,
+  deposit: TyphoonDepositData | undefined
+): Pick<SwapHistoryEntry, 'withdrawalStatus' | 'scheduledWithdrawalAt'> => {
+  if (!entry.isPrivateSwap || !deposit) {
+    return entry;
+  }
+  if (deposit.status === 'withdrawn') return { withdrawalStatus: 'completed' };
+  if (deposit.status === 'failed') return { withdrawalStatus: 'failed' };
+  if (deposit.scheduledAt) return { withdrawalStatus: 'scheduled', scheduledWithdrawalAt: deposit.scheduledAt };
+  return entry;
+};
+
+const matchesSearch = (entry: SwapHistoryEntry, search: string): boolean => {
+  if (!search) return true;
+  const needle = search.toLowerCase();
+  return [
+    entry.sellToken.symbol,
+    entry.buyToken.symbol,
+    entry.transactionHash,
+    entry.quoteId,
+    entry.provider,
+  ].some(value => value.toLowerCase().includes(needle));
+};
+
+export const SwapHistoryDashboard: React.FC<SwapHistoryDashboardProps> = ({ walletAddress }) => {
+  const { entries } = useSwapHistoryStore();
+  const { deposits } = useTyphoonDeposits();
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
+  const [modeFilter, setModeFilter] = useState<ModeFilter>('all');
+  const [search, setSearch] = useState('');
+
+  const filteredEntries = useMemo(() => {
+    const depositsByHash = new Map(deposits.map(deposit => [deposit.transactionHash, deposit]));
+
+    return entries
+      // Only the connected wallet's swaps, or every wallet's when none is connected
+      .filter(entry => !walletAddress || BigInt(entry.walletAddress) === BigInt(walletAddress))
+      .filter(entry => statusFilter === 'all' || entry.status === statusFilter)
+      .filter(entry => modeFilter === 'all' || entry.isPrivateSwap === (modeFilter === 'private'))
+      .filter(entry => matchesSearch(entry, search.trim()))
+      .map(entry => ({ ...entry, ...resolveWithdrawal(entry, depositsByHash.get(entry.transactionHash)) }));
+  }, [entries, deposits, walletAddress, statusFilter, modeFilter, search]);
+
+  const handleExport = (format: 'csv' | 'json') => {
+    const date = new Date().toISOString().slice(0, 10);
+    if (format === 'csv') {
+      downloadFile(toSwapHistoryCsv(filteredEntries), `privfi-swap-history-${date}.csv`, 'text/csv');
+    } else {
+      downloadFile(toSwapHistoryJson(filteredEntries), `privfi-swap-history-${date}.json`);
+    }
+  };
+
+  return (
+    <div className="w-full max-w-4xl bg-[#1C1C1C] rounded-xl p-3">
+      <div className="flex items-center justify-between pb-3">
+        <span className="text-base font-normal text-white pl-2">Swap History</span>
+        <div className="flex items-center gap-1">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => handleExport('csv')}
+            disabled={filteredEntries.length === 0}
+            title="Export the listed swaps as CSV"
+          >
+            <Download className="h-4 w-4" />
+            CSV
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => handleExport('json')}
+            disabled={filteredEntries.length === 0}
+            title="Export the listed swaps as JSON"
+          >
+            <Download className="h-4 w-4" />
+            JSON
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-2 pb-3">
+        <Input
+          type="text"
+          placeholder="Search token, transaction or quote"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          className="token-input-compact flex-1"
+        />
+        <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as StatusFilter)}>
+          <SelectTrigger className="h-9 sm:w-36 text-xs" aria-label="Status">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all" className="text-xs">All statuses</SelectItem>
+            {(Object.keys(STATUS_LABELS) as SwapHistoryStatus[]).map((status) => (
+              <SelectItem key={status} value={status} className="text-xs">
+                {STATUS_LABELS[status]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={modeFilter} onValueChange={(value) => setModeFilter(value as ModeFilter)}>
+          <SelectTrigger className="h-9 sm:w-36 text-xs" aria-label="Mode">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all" className="text-xs">All swaps</SelectItem>
+            <SelectItem value="private" className="text-xs">Private</SelectItem>
+            <SelectItem value="regular" className="text-xs">Regular</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="crypto-card p-3">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Swap</TableHead>
+              <TableHead>Mode</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Age</TableHead>
+              <TableHead className="text-right">Transaction</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {filteredEntries.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center text-xs text-muted-foreground">
+                  {entries.length === 0 ? 'No swaps recorded yet' : 'No swaps match the filters'}
+                </TableCell>
+              </TableRow>
+            )}
+            {filteredEntries.map((entry) => {
+              const { sellToken, buyToken } = entry;
+
+              return (
+                <TableRow key={entry.transactionHash}>
+                  <TableCell>
+                    <div className="flex items-center gap-1">
+                      <span>{formatAmountDisplay(toRawAmount(entry.sellAmount), sellToken.decimals, 6)} {sellToken.symbol}</span>
+                      <ArrowRight className="h-3 w-3 text-muted-foreground" />
+                      <span>{formatAmountDisplay(getReceivedAmount(entry), buyToken.decimals, 6)} {buyToken.symbol}</span>
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      via {entry.provider}, gas ${entry.fees.gasFeesUsd.toFixed(3)}
+                    </div>
+                  </TableCell>
+                  <TableCell>{entry.isPrivateSwap ? 'Private' : 'Regular'}</TableCell>
+                  <TableCell>
+                    <Badge
+                      variant={entry.status === 'failed' ? 'destructive' : entry.status === 'confirmed' ? 'secondary' : 'outline'}
+                      title={entry.error}
+                    >
+                      {STATUS_LABELS[entry.status]}
+                    </Badge>
+                    {entry.withdrawalStatus && (
+                      <div className="text-xs text-muted-foreground mt-1">
+                        {WITHDRAWAL_LABELS[entry.withdrawalStatus]}
+                        {entry.withdrawalStatus === 'scheduled' && entry.scheduledWithdrawalAt && (
+                          <> {formatDistanceToNow(entry.scheduledWithdrawalAt, { addSuffix: true })}</>
+                        )}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell>{formatDistanceToNow(entry.createdAt, { addSuffix: true })}</TableCell>
+                  <TableCell className="text-right">
+                    <a
+                      href={getTransactionExplorerUrl(entry.transactionHash)}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="inline-flex items-center gap-1 text-xs font-mono text-muted-foreground hover:text-white"
+                    >
+                      {formatHash(entry.transactionHash)}
+                      <ExternalLink className="h-3 w-3" />
+                    </a>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+};
@@ -1,12 +1,20 @@
+import { useState } from 'react';
+import { Lock, Unlock } from 'lucide-react';
 import { useWalletConnection } from '@/features/wallet/hooks';
+import { Button } from '@/shared/components/ui/button';
 import { useSwapForm } from '../hooks';
 import { WalletConnectionButton, WalletModal } from '@/features/wallet/components';
 import { SwapCard } from './SwapCard';
 import { SwapErrorBoundary } from './SwapErrorBoundary';
+import { TyphoonVaultDialog } from './TyphoonVaultDialog';
+import { SwapReviewDialog } from './SwapReviewDialog';
+import { useTyphoonVault } from '../hooks/useTyphoonVault';
 
 const SwapInterface = () => {
   const walletConnection = useWalletConnection();
   const swapForm = useSwapForm(walletConnection.address);
+  const vault = useTyphoonVault();
+  const [showVaultDialog, setShowVaultDialog] = useState(false);
 
   return (
     <div className="flex-1 flex items-center justify-center p-4 flex-col">
@@ -15,11 +23,24 @@ const SwapInterface = () => {
           <div className="flex items-center gap-3">
             <span className="text-base font-normal text-white pl-2">Private Swap</span>
           </div>
-          <div className="flex items-center">
+          <div className="flex items-center gap-1">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setShowVaultDialog(true)}
+              title={vault.isUnlocked ? 'Vault unlocked' : 'Vault locked'}
+            >
+              {vault.isUnlocked ? <Unlock className="h-4 w-4" /> : <Lock className="h-4 w-4" />}
+            </Button>
+            <TyphoonVaultDialog
+              isOpen={showVaultDialog}
+              onOpenChange={setShowVaultDialog}
+            />
             <WalletConnectionButton
               isConnected={walletConnection.isConnected}
               isConnecting={walletConnection.isConnecting}
               address={walletConnection.address}
+              portfolio={walletConnection.portfolio}
               onConnect={() => walletConnection.setShowWalletModal(true)}
               onDisconnect={walletConnection.handleDisconnect}
             />
@@ -61,11 +82,23 @@ const SwapInterface = () => {
               // Quote-related props
               selectedQuote={swapForm.selectedQuote}
               formattedQuote={swapForm.formattedQuote}
+              quotes={swapForm.quotes}
+              pinnedQuote={swapForm.pinnedQuote}
+              onPinQuote={swapForm.selectQuote}
+              onUnpinQuote={swapForm.unpinQuote}
               isLoadingQuotes={swapForm.isLoadingQuotes}
               quotesError={swapForm.quotesError}
               isQuoteExpired={swapForm.isQuoteExpired}
               timeToExpiry={swapForm.timeToExpiry}
               onRefreshQuotes={swapForm.refreshQuotes}
+              // Gas token props
+              gasTokenFees={swapForm.gasTokenFees}
+              selectedGasTokenFee={swapForm.selectedGasTokenFee}
+              onGasTokenChange={swapForm.setGasToken}
+              gasReserve={swapForm.gasReserve}
+              // Approval policy
+              approvalPolicy={swapForm.approvalPolicy}
+              onApprovalPolicyChange={swapForm.setApprovalPolicy}
               // Slippage-related props
               slippage={swapForm.slippage}
               minReceived={swapForm.minReceived}
@@ -79,12 +112,21 @@ const SwapInterface = () => {
               onResetSwap={swapForm.resetSwap}
               // Estimating state
               isEstimatingAfterSwap={swapForm.isEstimatingAfterSwap}
+              swapMode={swapForm.swapMode}
               // Direction swap state
               isSwappingDirection={swapForm.isSwappingDirection}
               // Minimum amount validation
               minimumAmountValidation={swapForm.minimumAmountValidation}
+              // Deposit note vault
+              isVaultUnlocked={vault.isUnlocked}
+              onUnlockVault={() => setShowVaultDialog(true)}
             />
           </SwapErrorBoundary>
+          <SwapReviewDialog
+            calls={swapForm.swapReview}
+            onConfirm={swapForm.confirmSwapReview}
+            onCancel={swapForm.cancelSwap}
+          />
       </div>
       {/* Transaction Processing Warning */}
       <div className="flex flex-col items-center justify-center gap-2 text-xs px-24 py-3 sm:p-4">
@@ -0,0 +1,92 @@
+import React, { useEffect, useState } from 'react';
+import { ShieldAlert } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/shared/components/ui/dialog';
+import { Button } from '@/shared/components/ui/button';
+import { Checkbox } from '@/shared/components/ui/checkbox';
+import { WarningMessage } from '@/shared/components/ui/warning-message';
+import { DecodedCall } from '../utils/callDecoder';
+
+interface SwapReviewDialogProps {
+  calls: DecodedCall[] | null; // Open while there are calls to review
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+export const SwapReviewDialog: React.FC<SwapReviewDialogProps> = ({
+  calls,
+  onConfirm,
+  onCancel,
+}) => {
+  const [acknowledgedUnknown, setAcknowledgedUnknown] = useState(false);
+  const unknownCount = calls?.filter(call => !call.isKnown).length ?? 0;
+
+  // Every review starts unacknowledged
+  useEffect(() => {
+    setAcknowledgedUnknown(false);
+  }, [calls]);
+
+  return (
+    <Dialog open={!!calls} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="max-w-[calc(100%-2rem)] sm:max-w-md border-none bg-[#1C1C1C]">
+        <DialogHeader>
+          <DialogTitle>Review Transaction</DialogTitle>
+          <DialogDescription className="text-xs">
+            Your wallet will be asked to sign these calls as a single transaction, in this order.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ol className="space-y-2 max-h-80 overflow-y-auto">
+          {calls?.map((call, index) => (
+            <li
+              key={`${call.contractAddress}-${call.entrypoint}-${index}`}
+              className={`rounded-lg p-3 text-xs ${call.isKnown ? 'bg-black/20' : 'bg-red-500/10 border border-red-500/40'}`}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-muted-foreground">
+                  {index + 1}. {call.contractLabel}
+                </span>
+                {!call.isKnown && (
+                  <span className="flex items-center gap-1 text-red-400 font-medium">
+                    <ShieldAlert className="h-3 w-3" />
+                    Unrecognised
+                  </span>
+                )}
+              </div>
+              <div className="mt-1 text-white">{call.description}</div>
+              <div className="mt-1 font-mono text-[10px] text-muted-foreground break-all">
+                {call.entrypoint} @ {call.contractAddress}
+              </div>
+              {call.warning && <WarningMessage message={call.warning} />}
+            </li>
+          ))}
+        </ol>
+
+        {unknownCount > 0 && (
+          <label className="flex items-start gap-2 text-xs text-red-400 cursor-pointer">
+            <Checkbox
+              checked={acknowledgedUnknown}
+              onCheckedChange={(checked) => setAcknowledgedUnknown(checked === true)}
+            />
+            <span>
+              I understand {unknownCount === 1 ? 'one call is' : `${unknownCount} calls are`} not recognised by Privfi
+              and could move my funds.
+            </span>
+          </label>
+        )}
+
+        <div className="flex gap-2">
+          <Button variant="secondary" className="flex-1 h-12" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button
+            className="flex-1 h-12"
+            onClick={onConfirm}
+            disabled={unknownCount > 0 && !acknowledgedUnknown}
+          >
+            Sign in Wallet
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
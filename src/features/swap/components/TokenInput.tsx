@@ -1,5 +1,5 @@
-import React, { useEffect, useState } from 'react';
-import { Loader2 } from 'lucide-react';
+import React, { useEffect, useRef, useState } from 'react';
+import { Info, Loader2 } from 'lucide-react';
 import { TokenSelector } from './TokenSelector';
 import { Token } from '@/constants/tokens';
 import { useInputValidation, useDebounce } from '@/shared/hooks';
@@ -12,6 +12,7 @@ import { useAnimations } from '@/shared/hooks/useAnimations';
 import { AnimatedNumber } from '@/shared/components/ui/animated-number';
 import { Skeleton } from '@/shared/components/ui/skeleton';
 import { Button } from '@/shared/components/ui/button';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/shared/components/ui/tooltip';
 
 interface TokenInputProps {
   label: string;
@@ -28,6 +29,7 @@ interface TokenInputProps {
   showPercentageButtons?: boolean;
   percentageButtons?: number[];
   onPercentageClick?: (percentage: number) => void;
+  maxReserveNote?: string; // Explains what Max keeps back for network fees
   isEstimating?: boolean; // Show that the amount is an estimate while loading real quotes
   disableSync?: boolean; // Temporarily disable syncing to prevent conflicts
 }
@@ -47,6 +49,7 @@ export const TokenInput: React.FC<TokenInputProps> = ({
   showPercentageButtons = false,
   percentageButtons = [],
   onPercentageClick,
+  maxReserveNote,
   isEstimating = false,
   disableSync = false,
 }) => {
@@ -140,7 +143,15 @@ export const TokenInput: React.FC<TokenInputProps> = ({
   }, [selectedToken.address, balance]);
 
   // Notify parent of validation value changes (but not during sync)
+  const previousAmountRef = useRef(amount);
   useEffect(() => {
+    // A programmatic amount update is still being synced in; don't echo the old value back
+    const amountChanged = previousAmountRef.current !== amount;
+    previousAmountRef.current = amount;
+    if (amountChanged) {
+      return;
+    }
+
     if (!disableSync && validation.value !== amount && validation.isTouched) {
       onAmountChange(validation.value);
     }
@@ -172,20 +183,32 @@ export const TokenInput: React.FC<TokenInputProps> = ({
       <div className="flex items-center justify-between">
         <span className="text-base font-normal text-muted-foreground">{label}</span>
         {!readOnly ? (
-          <span 
-            className={`text-xs text-muted-foreground transition-opacity duration-200 ${
-              !isLoadingBalance && balance && parseFloat(balance) > 0 
-                ? 'cursor-pointer hover:opacity-70' 
-                : ''
-            }`}
-            onClick={() => {
-              if (!isLoadingBalance && balance && parseFloat(balance) > 0 && onPercentageClick) {
-                setActivePercentage(100);
-                onPercentageClick(100);
-              }
-            }}
-          >
-            Balance: {isLoadingBalance ? '...' : balance} {selectedToken.symbol}
+          <span className="flex items-center gap-1">
+            <span 
+              className={`text-xs text-muted-foreground transition-opacity duration-200 ${
+                !isLoadingBalance && balance && parseFloat(balance) > 0 
+                  ? 'cursor-pointer hover:opacity-70' 
+                  : ''
+              }`}
+              onClick={() => {
+                if (!isLoadingBalance && balance && parseFloat(balance) > 0 && onPercentageClick) {
+                  setActivePercentage(100);
+                  onPercentageClick(100);
+                }
+              }}
+            >
+              Balance: {isLoadingBalance ? '...' : balance} {selectedToken.symbol}
+            </span>
+            {maxReserveNote && (
+              <Tooltip delayDuration={200}>
+                <TooltipTrigger asChild>
+                  <Info className="h-3 w-3 text-gray-400 cursor-pointer" aria-label="Gas reserve" />
+                </TooltipTrigger>
+                <TooltipContent side="top" className="max-w-xs">
+                  <span className="text-xs">{maxReserveNote}</span>
+                </TooltipContent>
+              </Tooltip>
+            )}
           </span>
         ) : (
           <span className="text-xs text-muted-foreground">
@@ -1,56 +1,127 @@
-import React from 'react';
-import { Select, SelectContent, SelectItem, SelectTrigger } from '@/shared/components/ui/select';
-import { STARKNET_TOKENS, DEFAULT_TOKENS, Token } from '@/constants/tokens';
+import React, { useState } from 'react';
+import { AlertTriangle, ChevronDown, Plus } from 'lucide-react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/shared/components/ui/popover';
+import { Input } from '@/shared/components/ui/input';
+import { LoadingButton } from '@/shared/components/ui/loading-button';
+import { Token } from '@/constants/tokens';
+import { isValidStarknetAddress } from '@/shared/utils/lib/inputValidation';
+import { useTokenRegistry } from '../hooks/useTokenRegistry';
+import { isSameTokenAddress, searchTokens } from '../services/tokenRegistry';
 
 interface TokenSelectorProps {
   selectedToken: Token;
   onTokenChange: (token: Token) => void;
 }
 
+const TokenLogo: React.FC<{ token: Token }> = ({ token }) =>
+  token.logoURI ? (
+    <img
+      src={token.logoURI}
+      alt={token.symbol}
+      className="w-4 h-4 rounded-full"
+    />
+  ) : (
+    <div className="w-4 h-4 rounded-full bg-muted" />
+  );
+
 export const TokenSelector: React.FC<TokenSelectorProps> = ({
   selectedToken,
   onTokenChange,
 }) => {
-  const handleValueChange = (tokenSymbol: string) => {
-    const token = STARKNET_TOKENS[tokenSymbol];
-    if (token) {
-      onTokenChange(token);
+  const { tokens, isLoading, importToken, isImporting } = useTokenRegistry();
+  const [isOpen, setIsOpen] = useState(false);
+  const [query, setQuery] = useState('');
+
+  const results = searchTokens(tokens, query);
+  const canImport = results.length === 0 && isValidStarknetAddress(query.trim());
+
+  const handleSelect = (token: Token) => {
+    onTokenChange(token);
+    setIsOpen(false);
+    setQuery('');
+  };
+
+  const handleImport = async () => {
+    try {
+      handleSelect(await importToken(query.trim()));
+    } catch (error) {
+      // Reported by the import mutation
     }
   };
 
   return (
-    <Select value={selectedToken.symbol} onValueChange={handleValueChange}>
-      <SelectTrigger className="token-selector w-[6.5rem] border-0 focus:ring-0 shadow-none !bg-token-selector">
-        <div className="flex items-center gap-2">
-          {selectedToken.logoURI && (
-            <img 
-              src={selectedToken.logoURI} 
-              alt={selectedToken.symbol} 
-              className="w-4 h-4 rounded-full"
-            />
+    <Popover open={isOpen} onOpenChange={setIsOpen}>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className="token-selector w-[6.5rem] flex items-center justify-between gap-2 px-3 rounded-md !bg-token-selector"
+        >
+          <div className="flex items-center gap-2 min-w-0">
+            <TokenLogo token={selectedToken} />
+            <span className="font-medium truncate">{selectedToken.symbol}</span>
+            {selectedToken.verified === false && (
+              <AlertTriangle className="h-3 w-3 flex-shrink-0 text-yellow-500" />
+            )}
+          </div>
+          <ChevronDown className="h-4 w-4 flex-shrink-0 opacity-50" />
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-64 p-2 border-none bg-[#1C1C1C]">
+        <Input
+          autoFocus
+          placeholder="Search name or paste address"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          className="token-input-compact text-xs mb-2"
+        />
+        <div className="max-h-64 overflow-y-auto space-y-1">
+          {results.map((token) => (
+            <button
+              key={token.address}
+              type="button"
+              onClick={() => handleSelect(token)}
+              className={`w-full flex items-center gap-2 rounded-md px-2 py-1.5 text-left text-xs hover:bg-accent ${
+                isSameTokenAddress(token.address, selectedToken.address) ? 'bg-accent' : ''
+              }`}
+            >
+              <TokenLogo token={token} />
+              <div className="min-w-0 flex-1">
+                <div className="font-medium text-white">{token.symbol}</div>
+                <div className="text-muted-foreground truncate">{token.name}</div>
+              </div>
+              {token.verified === false && (
+                <span className="flex items-center gap-1 text-yellow-500">
+                  <AlertTriangle className="h-3 w-3" />
+                  Unverified
+                </span>
+              )}
+            </button>
+          ))}
+
+          {results.length === 0 && !canImport && (
+            <div className="px-2 py-3 text-xs text-muted-foreground">
+              {isLoading ? 'Loading tokens...' : 'No tokens found'}
+            </div>
+          )}
+
+          {canImport && (
+            <div className="space-y-2 px-2 py-2">
+              <div className="flex items-start gap-2 text-xs text-yellow-500">
+                <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+                <span>Anyone can create a token. Only import tokens you trust.</span>
+              </div>
+              <LoadingButton
+                className="w-full h-8 text-xs"
+                loading={isImporting}
+                onClick={handleImport}
+              >
+                <Plus className="h-3 w-3 mr-1" />
+                Import token
+              </LoadingButton>
+            </div>
           )}
-          <span className="font-medium">{selectedToken.symbol}</span>
         </div>
-      </SelectTrigger>
-      <SelectContent className="w-[var(--radix-select-trigger-width)] min-w-0">
-        {DEFAULT_TOKENS.map((tokenSymbol) => {
-            const token = STARKNET_TOKENS[tokenSymbol];
-            return (
-              <SelectItem key={token.symbol} value={token.symbol} className="cursor-pointer [&>span:first-child]:hidden pl-3">
-                <div className="flex items-center gap-2 w-full">
-                  {token.logoURI && (
-                    <img 
-                      src={token.logoURI} 
-                      alt={token.symbol} 
-                      className="w-4 h-4 rounded-full"
-                    />
-                  )}
-                  <span className="font-medium">{token.symbol}</span>
-                </div>
-              </SelectItem>
-            );
-          })}
-      </SelectContent>
-    </Select>
+      </PopoverContent>
+    </Popover>
   );
-};
\ No newline at end of file
+};
@@ -2,12 +2,17 @@ import React, { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/shared/components/ui/tooltip';
 import { Button } from '@/shared/components/ui/button';
-import { Info, ChevronDown } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/shared/components/ui/select';
+import { Info, ChevronDown, AlertTriangle } from 'lucide-react';
 import { useAnimations } from '@/shared/hooks/useAnimations';
 import { AnimatedNumber } from '@/shared/components/ui/animated-number';
 import { Token } from '@/constants/tokens';
 import { TokenPrice } from '@/shared/hooks/useTokenPrices';
 import { getTokenUSDDisplay } from '@/shared/utils/priceUtils';
+import { formatAmountDisplay, toRawAmount } from '@/shared/utils/lib/amounts';
+import { GasTokenFee } from '../services/avnu';
+import { ApprovalPolicy, SwapSimulation } from '../types/swap';
+import { GasTokenSelector } from './GasTokenSelector';
 
 interface TransactionDetailsProps {
   rate?: string;
@@ -21,9 +26,33 @@ interface TransactionDetailsProps {
   onSlippageChange?: (slippage: number) => void;
   toTokenSymbol?: string;
   toToken?: Token;
+  fromToken?: Token;
   priceData?: { [address: string]: TokenPrice };
+  gasFee?: string;
+  gasTokenFees?: GasTokenFee[];
+  selectedGasTokenFee?: GasTokenFee | null;
+  onGasTokenChange?: (tokenAddress?: string) => void;
+  approvalPolicy?: ApprovalPolicy;
+  onApprovalPolicyChange?: (policy: ApprovalPolicy) => void;
+  simulation?: SwapSimulation; // Dry run of the swap being executed
 }
 
+const APPROVAL_POLICY_LABELS: Record<ApprovalPolicy, string> = {
+  exact: 'Exact amount',
+  unlimited: 'Unlimited',
+  reuse: 'Reuse allowance',
+};
+
+const formatGasTokenAmount = (fee: GasTokenFee): string => {
+  if (fee.amount === 0) return `0 ${fee.symbol}`;
+  if (fee.amount < 0.000001) return `<0.000001 ${fee.symbol}`;
+  return `${parseFloat(fee.amount.toFixed(6))} ${fee.symbol}`;
+};
+
+const formatSimulatedFee = (fee: NonNullable<SwapSimulation['networkFee']>): string => {
+  return `${formatAmountDisplay(toRawAmount(fee.amount), 18, 6)} ${fee.unit === 'FRI' ? 'STRK' : 'ETH'}`;
+};
+
 export const TransactionDetails: React.FC<TransactionDetailsProps> = ({
   rate = "0",
   rateWithUsd,
@@ -36,7 +65,15 @@ export const TransactionDetails: React.FC<TransactionDetailsProps> = ({
   onSlippageChange,
   toTokenSymbol = "",
   toToken,
+  fromToken,
   priceData,
+  gasFee = "$0.000",
+  gasTokenFees = [],
+  selectedGasTokenFee,
+  onGasTokenChange,
+  approvalPolicy = 'exact',
+  onApprovalPolicyChange,
+  simulation,
 }) => {
   const { variants, transitions, hover } = useAnimations();
   const [isExpanded, setIsExpanded] = useState(false);
@@ -72,6 +109,14 @@ export const TransactionDetails: React.FC<TransactionDetailsProps> = ({
 
   const presetSlippages = [0, 0.1, 0.5, 1];
 
+  // Balance changes of the swapped tokens, as seen by the simulation
+  const simulatedBalanceChanges = (simulation?.balanceDeltas ?? []).flatMap(delta => {
+    const token = [fromToken, toToken].find(t => t && BigInt(t.address) === BigInt(delta.tokenAddress));
+    if (!token) return [];
+    const amount = toRawAmount(delta.amount);
+    return [`${amount > 0n ? '+' : '-'}${formatAmountDisplay(amount < 0n ? -amount : amount, token.decimals, 6)} ${token.symbol}`];
+  });
+
   // Calculate fee amounts first to determine transaction value
   const integratorFeeAmount = parseFloat(integratorFee.replace('$', '') || "0");
   const avnuFeeAmount = parseFloat(avnuFee.replace('$', '') || "0");
@@ -83,8 +128,8 @@ export const TransactionDetails: React.FC<TransactionDetailsProps> = ({
 
   // Calculate total platform fees percentage and amount
   // Parse hex strings correctly (API returns hex values like '0xf')
-  const integratorBpsValue = integratorFeesBps ? parseInt(integratorFeesBps, 16) : 0;
-  const avnuBpsValue = avnuFeesBps ? parseInt(avnuFeesBps, 16) : 0;
+  const integratorBpsValue = integratorFeesBps ? Number(toRawAmount(integratorFeesBps)) : 0;
+  const avnuBpsValue = avnuFeesBps ? Number(toRawAmount(avnuFeesBps)) : 0;
   let totalFeesBps = integratorBpsValue + avnuBpsValue + typhoonFeeBps; // Include Typhoon fee
 
   // Fallback: if API bps values are not available or zero, calculate from USD amounts
@@ -155,6 +200,13 @@ export const TransactionDetails: React.FC<TransactionDetailsProps> = ({
           </motion.div>
         </div>
 
+        {simulation?.status === 'reverted' && (
+          <div className="flex items-start gap-2 pt-2 text-xs text-red-400">
+            <AlertTriangle className="h-3 w-3 mt-0.5 flex-shrink-0" />
+            <span>This swap would fail because {simulation.revertReason || 'the transaction reverted'}</span>
+          </div>
+        )}
+
         {/* Collapsible content */}
         <AnimatePresence>
           {isExpanded && (
@@ -195,6 +247,46 @@ export const TransactionDetails: React.FC<TransactionDetailsProps> = ({
                   <AnimatedNumber value={`$${totalFeeAmount}`} className="transaction-detail-value" />
                 </div>
 
+                <div className="transaction-detail">
+                  <span className="transaction-detail-label">Network Fee</span>
+                  <div className="flex items-center gap-2">
+                    <div className="transaction-detail-value">
+                      {simulation?.networkFee && !selectedGasTokenFee ? (
+                        <AnimatedNumber value={formatSimulatedFee(simulation.networkFee)} className="" />
+                      ) : selectedGasTokenFee ? (
+                        // AVNU prices the swap calls only, a private swap's Typhoon deposit costs more
+                        <span title="Estimate from the swap alone, the final fee is set by the paymaster when signing">
+                          <span className="text-muted-foreground mr-1">Est.</span>
+                          <AnimatedNumber value={formatGasTokenAmount(selectedGasTokenFee)} className="" />
+                          <span className="text-muted-foreground ml-1">
+                            ≈ ${selectedGasTokenFee.amountInUsd.toFixed(3)}
+                          </span>
+                        </span>
+                      ) : (
+                        <AnimatedNumber value={gasFee} className="" />
+                      )}
+                    </div>
+                    {gasTokenFees.length > 0 && onGasTokenChange && (
+                      <GasTokenSelector
+                        gasTokenFees={gasTokenFees}
+                        selectedGasToken={selectedGasTokenFee?.tokenAddress}
+                        onGasTokenChange={onGasTokenChange}
+                      />
+                    )}
+                  </div>
+                </div>
+
+                {simulatedBalanceChanges.length > 0 && (
+                  <div className="transaction-detail">
+                    <span className="transaction-detail-label">Balance Changes</span>
+                    <div className="transaction-detail-value text-right">
+                      {simulatedBalanceChanges.map(change => (
+                        <div key={change}>{change}</div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
                 {parseFloat(minReceived) > 0 && (
                   <div className="transaction-detail">
                     <span className="transaction-detail-label">Min Received</span>
@@ -231,6 +323,38 @@ export const TransactionDetails: React.FC<TransactionDetailsProps> = ({
                   </div>
                 </div>
 
+                {onApprovalPolicyChange && (
+                  <div className="transaction-detail">
+                    <Tooltip delayDuration={200}>
+                      <TooltipTrigger asChild>
+                        <span className="transaction-detail-label flex items-center gap-1 cursor-pointer">
+                          Approvals
+                          <Info className="h-3 w-3 text-gray-400" />
+                        </span>
+                      </TooltipTrigger>
+                      <TooltipContent side="top" className="w-56 text-xs">
+                        Exact approves only the swapped amount each time. Unlimited and reuse skip
+                        the approval when your current allowance already covers the swap.
+                      </TooltipContent>
+                    </Tooltip>
+                    <Select
+                      value={approvalPolicy}
+                      onValueChange={(policy) => onApprovalPolicyChange(policy as ApprovalPolicy)}
+                    >
+                      <SelectTrigger className="h-7 w-36 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(APPROVAL_POLICY_LABELS) as ApprovalPolicy[]).map((policy) => (
+                          <SelectItem key={policy} value={policy} className="text-xs">
+                            {APPROVAL_POLICY_LABELS[policy]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+
               </div>
             </motion.div>
           )}
@@ -0,0 +1,206 @@
+import React, { useEffect, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { Download, Upload } from 'lucide-react';
+import { toast } from '@/shared/components/ui/sonner';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/shared/components/ui/dialog';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/shared/components/ui/tabs';
+import { Checkbox } from '@/shared/components/ui/checkbox';
+import { Input } from '@/shared/components/ui/input';
+import { LoadingButton } from '@/shared/components/ui/loading-button';
+import { ErrorMessage } from '@/shared/components/ui/error-message';
+import { getTokenByAddress } from '@/constants/tokens';
+import { downloadFile } from '@/shared/utils/lib/download';
+import { TyphoonDepositData } from '../utils/typhoonStorage';
+import {
+  TyphoonBackupImportResult,
+  exportTyphoonBackup,
+  importTyphoonBackup,
+  isTyphoonBackupEncrypted,
+} from '../utils/typhoonBackup';
+import { TYPHOON_DEPOSITS_QUERY_KEY } from '../hooks/useTyphoonDeposits';
+
+interface TyphoonBackupDialogProps {
+  isOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+  deposits: TyphoonDepositData[];
+}
+
+const formatHash = (hash: string) => `${hash.slice(0, 8)}...${hash.slice(-6)}`;
+
+export const TyphoonBackupDialog: React.FC<TyphoonBackupDialogProps> = ({
+  isOpen,
+  onOpenChange,
+  deposits,
+}) => {
+  const queryClient = useQueryClient();
+  const [selectedHashes, setSelectedHashes] = useState<Set<string>>(new Set());
+  const [passphrase, setPassphrase] = useState('');
+  const [fileContents, setFileContents] = useState<string | null>(null);
+  const [importResult, setImportResult] = useState<TyphoonBackupImportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  // Start from a clean state with every deposit selected each time the dialog opens
+  useEffect(() => {
+    if (isOpen) {
+      setSelectedHashes(new Set(deposits.map(deposit => deposit.transactionHash)));
+    } else {
+      setPassphrase('');
+      setFileContents(null);
+      setImportResult(null);
+      setError(null);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen]); // Only when the dialog opens or closes
+
+  const toggleDeposit = (hash: string, checked: boolean) => {
+    setSelectedHashes(prev => {
+      const next = new Set(prev);
+      if (checked) {
+        next.add(hash);
+      } else {
+        next.delete(hash);
+      }
+      return next;
+    });
+  };
+
+  const handleExport = async () => {
+    setError(null);
+    setIsBusy(true);
+    try {
+      const backup = await exportTyphoonBackup([...selectedHashes], passphrase || undefined);
+      downloadFile(JSON.stringify(backup, null, 2), `privfi-deposits-${new Date().toISOString().slice(0, 10)}.json`);
+      toast.success(`Exported ${backup.count} deposit${backup.count === 1 ? '' : 's'}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to export backup');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    setError(null);
+    setImportResult(null);
+    const file = e.target.files?.[0];
+    setFileContents(file ? await file.text() : null);
+  };
+
+  const handleImport = async () => {
+    if (!fileContents) return;
+
+    setError(null);
+    setIsBusy(true);
+    try {
+      const result = await importTyphoonBackup(fileContents, passphrase || undefined);
+      setImportResult(result);
+      queryClient.invalidateQueries({ queryKey: TYPHOON_DEPOSITS_QUERY_KEY });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import backup');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const needsImportPassphrase = !!fileContents && isTyphoonBackupEncrypted(fileContents);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-[calc(100%-2rem)] sm:max-w-md border-none bg-[#1C1C1C]">
+        <DialogHeader>
+          <DialogTitle>Backup Deposit Notes</DialogTitle>
+          <DialogDescription className="text-xs">
+            Deposit notes are the only way to withdraw private funds. Keep a backup somewhere safe.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="export" onValueChange={() => setError(null)}>
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="export">Export</TabsTrigger>
+            <TabsTrigger value="import">Import</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="export" className="space-y-3">
+            <div className="max-h-48 overflow-y-auto space-y-2">
+              {deposits.length === 0 && (
+                <div className="text-xs text-muted-foreground">No deposits to export</div>
+              )}
+              {deposits.map((deposit) => (
+                <label key={deposit.transactionHash} className="flex items-center gap-2 text-xs cursor-pointer">
+                  <Checkbox
+                    checked={selectedHashes.has(deposit.transactionHash)}
+                    onCheckedChange={(checked) => toggleDeposit(deposit.transactionHash, checked === true)}
+                  />
+                  <span className="text-white">{getTokenByAddress(deposit.tokenAddress)?.symbol || 'Unknown'}</span>
+                  <span className="text-muted-foreground">{formatHash(deposit.transactionHash)}</span>
+                </label>
+              ))}
+            </div>
+            <Input
+              type="password"
+              autoComplete="new-password"
+              placeholder="Backup passphrase (optional)"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              className="token-input-compact"
+            />
+            <p className="text-xs text-gray-400">
+              Without a passphrase the file contains your notes in plain text.
+            </p>
+            {error && <ErrorMessage message={error} />}
+            <LoadingButton
+              className="w-full h-12"
+              loading={isBusy}
+              disabled={selectedHashes.size === 0}
+              onClick={handleExport}
+            >
+              <Download className="h-4 w-4 mr-2" />
+              Export {selectedHashes.size} deposit{selectedHashes.size === 1 ? '' : 's'}
+            </LoadingButton>
+          </TabsContent>
+
+          <TabsContent value="import" className="space-y-3">
+            <Input
+              type="file"
+              accept="application/json,.json"
+              onChange={handleFileChange}
+              className="token-input-compact"
+            />
+            {needsImportPassphrase && (
+              <Input
+                type="password"
+                autoComplete="current-password"
+                placeholder="Backup passphrase"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                className="token-input-compact"
+              />
+            )}
+            {error && <ErrorMessage message={error} />}
+            {importResult && (
+              <div className="space-y-1 text-xs text-muted-foreground">
+                <div>Imported: {importResult.imported.length}</div>
+                <div>Already stored: {importResult.unchanged.length}</div>
+                {importResult.invalid > 0 && <div>Invalid records skipped: {importResult.invalid}</div>}
+                {importResult.conflicts.length > 0 && (
+                  <div className="text-red-400">
+                    Conflicts (kept the local notes): {importResult.conflicts.map(formatHash).join(', ')}
+                  </div>
+                )}
+              </div>
+            )}
+            <LoadingButton
+              className="w-full h-12"
+              loading={isBusy}
+              disabled={!fileContents || (needsImportPassphrase && !passphrase)}
+              onClick={handleImport}
+            >
+              <Upload className="h-4 w-4 mr-2" />
+              Import
+            </LoadingButton>
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+};
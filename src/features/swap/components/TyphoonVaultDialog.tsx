@@ -0,0 +1,125 @@
+import React, { useEffect, useState } from 'react';
+import { Lock, Unlock } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/shared/components/ui/dialog';
+import { Input } from '@/shared/components/ui/input';
+import { Button } from '@/shared/components/ui/button';
+import { LoadingButton } from '@/shared/components/ui/loading-button';
+import { ErrorMessage } from '@/shared/components/ui/error-message';
+import { toast } from '@/shared/components/ui/sonner';
+import { useTyphoonVault } from '../hooks/useTyphoonVault';
+
+interface TyphoonVaultDialogProps {
+  isOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export const TyphoonVaultDialog: React.FC<TyphoonVaultDialogProps> = ({
+  isOpen,
+  onOpenChange,
+}) => {
+  const vault = useTyphoonVault();
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Never keep a typed passphrase around once the dialog closes
+  useEffect(() => {
+    if (!isOpen) {
+      setPassphrase('');
+      setConfirmation('');
+      setError(null);
+    }
+  }, [isOpen]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (!vault.isInitialized && passphrase !== confirmation) {
+      setError('Passphrases do not match');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      if (vault.isInitialized) {
+        const unlocked = await vault.unlock(passphrase);
+        if (!unlocked) {
+          setError('Incorrect passphrase');
+          return;
+        }
+      } else {
+        await vault.create(passphrase);
+      }
+      onOpenChange(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to open vault');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleLock = () => {
+    if (!vault.lock()) {
+      toast.info('The vault will lock once the swap in progress is saved');
+    }
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-[calc(100%-2rem)] sm:max-w-sm border-none bg-[#1C1C1C]">
+        <DialogHeader>
+          <DialogTitle>
+            {vault.isUnlocked ? 'Vault Unlocked' : vault.isInitialized ? 'Unlock Vault' : 'Create Vault'}
+          </DialogTitle>
+          <DialogDescription className="text-xs">
+            {vault.isInitialized
+              ? 'Your private deposit notes are encrypted with your passphrase.'
+              : 'Choose a passphrase to encrypt the private deposit notes stored in this browser. It cannot be recovered if lost.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {vault.isUnlocked ? (
+          <Button variant="secondary" className="w-full h-12" onClick={handleLock}>
+            <Lock className="h-4 w-4" />
+            Lock Vault
+          </Button>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-3">
+            <Input
+              type="password"
+              autoComplete={vault.isInitialized ? 'current-password' : 'new-password'}
+              placeholder="Passphrase"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              className="token-input-compact"
+              autoFocus
+            />
+            {!vault.isInitialized && (
+              <Input
+                type="password"
+                autoComplete="new-password"
+                placeholder="Confirm passphrase"
+                value={confirmation}
+                onChange={(e) => setConfirmation(e.target.value)}
+                className="token-input-compact"
+              />
+            )}
+            {error && <ErrorMessage message={error} />}
+            <LoadingButton
+              type="submit"
+              className="w-full h-12"
+              loading={isSubmitting}
+              disabled={!passphrase}
+            >
+              <Unlock className="h-4 w-4 mr-2" />
+              {vault.isInitialized ? 'Unlock' : 'Create Vault'}
+            </LoadingButton>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,109 @@
+import React from 'react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/shared/components/ui/select';
+import { WithdrawalPolicy, WithdrawalPolicyMode } from '../types/swap';
+import { createWithdrawalPolicy, describeWithdrawalPolicy } from '../utils/withdrawalPolicy';
+
+interface WithdrawalPolicySelectorProps {
+  policy: WithdrawalPolicy;
+  onPolicyChange: (policy: WithdrawalPolicy) => void;
+  disabled?: boolean;
+}
+
+const MODE_LABELS: Record<WithdrawalPolicyMode, string> = {
+  immediate: 'Immediate',
+  delayed: 'Delayed',
+  random: 'Random window',
+  manual: 'Manual',
+};
+
+const MAX_DELAY_MINUTES = 7 * 24 * 60; // One week
+
+const parseMinutes = (value: string): number => {
+  const minutes = parseInt(value, 10);
+  if (isNaN(minutes)) return 0;
+  return Math.min(Math.max(minutes, 0), MAX_DELAY_MINUTES);
+};
+
+const MinutesInput: React.FC<{
+  value: number;
+  onChange: (minutes: number) => void;
+  disabled?: boolean;
+  ariaLabel: string;
+}> = ({ value, onChange, disabled, ariaLabel }) => (
+  <input
+    type="number"
+    min={0}
+    max={MAX_DELAY_MINUTES}
+    value={value}
+    onChange={(e) => onChange(parseMinutes(e.target.value))}
+    disabled={disabled}
+    aria-label={ariaLabel}
+    className="token-input-compact w-16 text-center"
+  />
+);
+
+export const WithdrawalPolicySelector: React.FC<WithdrawalPolicySelectorProps> = ({
+  policy,
+  onPolicyChange,
+  disabled = false,
+}) => {
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <span className="text-xs font-normal text-muted-foreground min-w-fit">Withdrawal</span>
+        <Select
+          value={policy.mode}
+          onValueChange={(mode) => onPolicyChange(createWithdrawalPolicy(mode as WithdrawalPolicyMode))}
+          disabled={disabled}
+        >
+          <SelectTrigger className="h-8 text-xs flex-1">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(MODE_LABELS) as WithdrawalPolicyMode[]).map((mode) => (
+              <SelectItem key={mode} value={mode} className="text-xs">
+                {MODE_LABELS[mode]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {policy.mode === 'delayed' && (
+          <div className="flex items-center gap-1 text-xs text-muted-foreground">
+            <MinutesInput
+              value={policy.delayMinutes}
+              onChange={(delayMinutes) => onPolicyChange({ ...policy, delayMinutes })}
+              disabled={disabled}
+              ariaLabel="Delay in minutes"
+            />
+            min
+          </div>
+        )}
+
+        {policy.mode === 'random' && (
+          <div className="flex items-center gap-1 text-xs text-muted-foreground">
+            <MinutesInput
+              value={policy.minMinutes}
+              onChange={(minMinutes) => onPolicyChange({ ...policy, minMinutes })}
+              disabled={disabled}
+              ariaLabel="Earliest withdrawal in minutes"
+            />
+            -
+            <MinutesInput
+              value={policy.maxMinutes}
+              onChange={(maxMinutes) => onPolicyChange({ ...policy, maxMinutes })}
+              disabled={disabled}
+              ariaLabel="Latest withdrawal in minutes"
+            />
+            min
+          </div>
+        )}
+      </div>
+
+      <p className="text-xs text-gray-400">
+        {describeWithdrawalPolicy(policy)}
+        {policy.mode !== 'immediate' && '. Keep this app open with your vault unlocked for scheduled withdrawals to run.'}
+      </p>
+    </div>
+  );
+};
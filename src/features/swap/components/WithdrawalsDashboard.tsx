@@ -0,0 +1,243 @@
+import React, { useEffect, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { HardDriveDownload, Lock, RefreshCw } from 'lucide-react';
+import { Badge } from '@/shared/components/ui/badge';
+import { Button } from '@/shared/components/ui/button';
+import { Input } from '@/shared/components/ui/input';
+import { LoadingButton } from '@/shared/components/ui/loading-button';
+import { ErrorMessage } from '@/shared/components/ui/error-message';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/shared/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/shared/components/ui/table';
+import { getTokenByAddress } from '@/constants/tokens';
+import { isValidStarknetAddress } from '@/shared/utils/lib/inputValidation';
+import { formatAmountDisplay, toRawAmount } from '@/shared/utils/lib/amounts';
+import { TyphoonDepositData, TyphoonDepositStatus } from '../utils/typhoonStorage';
+import { useTyphoonDeposits } from '../hooks/useTyphoonDeposits';
+import { useTyphoonVault } from '../hooks/useTyphoonVault';
+import { TyphoonVaultDialog } from './TyphoonVaultDialog';
+import { TyphoonBackupDialog } from './TyphoonBackupDialog';
+
+interface WithdrawalsDashboardProps {
+  walletAddress?: string;
+}
+
+const STATUS_LABELS: Record<TyphoonDepositStatus, string> = {
+  pending: 'Pending',
+  withdrawn: 'Withdrawn',
+  failed: 'Failed',
+};
+
+const formatAddress = (addr: string) => `${addr.slice(0, 6)}...${addr.slice(-4)}`;
+
+const formatDepositAmount = (deposit: TyphoonDepositData): string => {
+  const token = getTokenByAddress(deposit.tokenAddress);
+  if (!token) return deposit.amount;
+
+  try {
+    return formatAmountDisplay(toRawAmount(deposit.amount), token.decimals, 6);
+  } catch (error) {
+    return deposit.amount;
+  }
+};
+
+interface WithdrawDialogProps {
+  deposit: TyphoonDepositData | null;
+  defaultRecipient?: string;
+  isWithdrawing: boolean;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: (recipientAddress: string) => void;
+}
+
+const WithdrawDialog: React.FC<WithdrawDialogProps> = ({
+  deposit,
+  defaultRecipient,
+  isWithdrawing,
+  onOpenChange,
+  onConfirm,
+}) => {
+  const [recipient, setRecipient] = useState('');
+
+  useEffect(() => {
+    setRecipient(defaultRecipient || '');
+  }, [deposit, defaultRecipient]);
+
+  const isValidRecipient = isValidStarknetAddress(recipient);
+
+  return (
+    <Dialog open={!!deposit} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-[calc(100%-2rem)] sm:max-w-sm border-none bg-[#1C1C1C]">
+        <DialogHeader>
+          <DialogTitle>Withdraw Deposit</DialogTitle>
+          <DialogDescription className="text-xs">
+            Funds are sent privately to the recipient. Use a fresh address to avoid linking it to your wallet.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-3">
+          <Input
+            type="text"
+            placeholder="Recipient address"
+            value={recipient}
+            onChange={(e) => setRecipient(e.target.value)}
+            className="token-input-compact"
+          />
+          {recipient && !isValidRecipient && (
+            <ErrorMessage message="Please enter a valid Starknet address (0x followed by 63-64 hex characters)" />
+          )}
+          {deposit?.splitPercentages && deposit.recipientAddresses?.[0] === recipient && (
+            <div className="space-y-1 text-xs text-muted-foreground">
+              <div>Split across the saved recipients:</div>
+              {deposit.recipientAddresses.map((address, index) => (
+                <div key={address} className="flex justify-between">
+                  <span>{formatAddress(address)}</span>
+                  <span>{deposit.splitPercentages?.[index]}%</span>
+                </div>
+              ))}
+            </div>
+          )}
+          <LoadingButton
+            className="w-full h-12"
+            loading={isWithdrawing}
+            loadingText="Withdrawing..."
+            disabled={!isValidRecipient}
+            onClick={() => onConfirm(recipient)}
+          >
+            Withdraw now
+          </LoadingButton>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export const WithdrawalsDashboard: React.FC<WithdrawalsDashboardProps> = ({ walletAddress }) => {
+  const vault = useTyphoonVault();
+  const { deposits, isLoading, error, refetch, withdraw, isWithdrawing, withdrawingHash } = useTyphoonDeposits();
+  const [showVaultDialog, setShowVaultDialog] = useState(false);
+  const [showBackupDialog, setShowBackupDialog] = useState(false);
+  const [selectedDeposit, setSelectedDeposit] = useState<TyphoonDepositData | null>(null);
+
+  const handleConfirmWithdraw = (recipientAddress: string) => {
+    if (!selectedDeposit) return;
+
+    // Keep the saved split when the user withdraws to the same recipients
+    const { recipientAddresses, splitPercentages } = selectedDeposit;
+    const useSavedSplit = !!splitPercentages && recipientAddresses?.[0] === recipientAddress;
+
+    withdraw(
+      {
+        transactionHash: selectedDeposit.transactionHash,
+        recipientAddresses: useSavedSplit ? recipientAddresses : [recipientAddress],
+        splitPercentages: useSavedSplit ? splitPercentages : undefined,
+      },
+      { onSettled: () => setSelectedDeposit(null) }
+    );
+  };
+
+  return (
+    <div className="w-full max-w-4xl bg-[#1C1C1C] rounded-xl p-3">
+      <div className="flex items-center justify-between pb-3">
+        <span className="text-base font-normal text-white pl-2">Private Deposits</span>
+        <div className="flex items-center gap-1">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setShowBackupDialog(true)}
+            disabled={!vault.isUnlocked}
+            title="Back up or restore deposit notes"
+          >
+            <HardDriveDownload className="h-4 w-4" />
+          </Button>
+          <Button variant="ghost" size="sm" onClick={() => refetch()}>
+            <RefreshCw className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      {!vault.isUnlocked && (
+        <div className="crypto-card p-4 mb-3 flex items-center justify-between gap-3">
+          <span className="text-xs text-muted-foreground">
+            Unlock your vault to see the deposit notes stored in this browser.
+          </span>
+          <Button variant="secondary" size="sm" onClick={() => setShowVaultDialog(true)}>
+            <Lock className="h-4 w-4" />
+            {vault.isInitialized ? 'Unlock' : 'Create Vault'}
+          </Button>
+        </div>
+      )}
+
+      {error && <ErrorMessage error={error} onRetry={() => refetch()} className="mb-3" />}
+
+      <div className="crypto-card p-3">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Token</TableHead>
+              <TableHead>Amount</TableHead>
+              <TableHead>Wallet</TableHead>
+              <TableHead>Age</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="text-right">Action</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {deposits.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center text-xs text-muted-foreground">
+                  {isLoading ? 'Loading...' : 'No deposits found'}
+                </TableCell>
+              </TableRow>
+            )}
+            {deposits.map((deposit) => {
+              const token = getTokenByAddress(deposit.tokenAddress);
+              const canWithdraw = deposit.status !== 'withdrawn';
+
+              return (
+                <TableRow key={deposit.transactionHash}>
+                  <TableCell>{token?.symbol || formatAddress(deposit.tokenAddress)}</TableCell>
+                  <TableCell>{formatDepositAmount(deposit)}</TableCell>
+                  <TableCell>{formatAddress(deposit.walletAddress)}</TableCell>
+                  <TableCell>{formatDistanceToNow(deposit.timestamp, { addSuffix: true })}</TableCell>
+                  <TableCell>
+                    <Badge
+                      variant={deposit.status === 'failed' ? 'destructive' : deposit.status === 'withdrawn' ? 'secondary' : 'outline'}
+                      title={deposit.lastError}
+                    >
+                      {STATUS_LABELS[deposit.status]}
+                    </Badge>
+                    {deposit.status === 'pending' && deposit.scheduledAt && (
+                      <div className="text-xs text-muted-foreground mt-1">
+                        Scheduled {formatDistanceToNow(deposit.scheduledAt, { addSuffix: true })}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {canWithdraw && (
+                      <LoadingButton
+                        size="sm"
+                        loading={withdrawingHash === deposit.transactionHash}
+                        disabled={isWithdrawing}
+                        onClick={() => setSelectedDeposit(deposit)}
+                      >
+                        Withdraw now
+                      </LoadingButton>
+                    )}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </div>
+
+      <WithdrawDialog
+        deposit={selectedDeposit}
+        defaultRecipient={selectedDeposit?.recipientAddresses?.[0] ?? walletAddress}
+        isWithdrawing={isWithdrawing}
+        onOpenChange={(open) => !open && !isWithdrawing && setSelectedDeposit(null)}
+        onConfirm={handleConfirmWithdraw}
+      />
+      <TyphoonVaultDialog isOpen={showVaultDialog} onOpenChange={setShowVaultDialog} />
+      <TyphoonBackupDialog isOpen={showBackupDialog} onOpenChange={setShowBackupDialog} deposits={deposits} />
+    </div>
+  );
+};
@@ -5,4 +5,13 @@ export { TokenSelector } from './TokenSelector';
 export { TransactionDetails } from './TransactionDetails';
 export { PercentageButtons } from './PercentageButtons';
 export { SwapErrorBoundary } from './SwapErrorBoundary';
-export { PrivacyConfig } from './PrivacyConfig';
\ No newline at end of file
+export { PrivacyConfig } from './PrivacyConfig';
+export { TyphoonVaultDialog } from './TyphoonVaultDialog';
+export { WithdrawalsDashboard } from './WithdrawalsDashboard';
+export { WithdrawalPolicySelector } from './WithdrawalPolicySelector';
+export { TyphoonBackupDialog } from './TyphoonBackupDialog';
+export { GasTokenSelector } from './GasTokenSelector';
+export { QuoteComparisonPanel } from './QuoteComparisonPanel';
+export { SwapReviewDialog } from './SwapReviewDialog';
+export { AllowancesDashboard } from './AllowancesDashboard';
+export { SwapHistoryDashboard } from './SwapHistoryDashboard';
@@ -1,3 +1,9 @@
 export * from './useSwapQuotes';
 export * from './useSwapForm';
-export * from './useMinimumAmountValidation';
\ No newline at end of file
+export * from './useMinimumAmountValidation';
+export * from './useTyphoonVault';
+export * from './useTyphoonDeposits';
+export * from './useWithdrawalScheduler';
+export * from './useSwapRecovery';
+export * from './useTokenRegistry';
+export * from './useTokenAllowances';
\ No newline at end of file
@@ -1,11 +1,15 @@
 import { useMemo } from 'react';
 import { Token } from '@/shared/types';
-import { TyphoonService } from '../services/typhoon';
+import { createTyphoonService } from '../services/registry';
 import { useSwapStore } from '../store/swapStore';
+import { deductTyphoonFee } from '@/constants/fees';
+import { PrivfiError } from '@/core/errors';
+import { compareAmounts, formatAmount, parseAmount, tryParseAmount } from '@/shared/utils/lib/amounts';
 
 interface MinimumAmountValidation {
   isValid: boolean;
   minimumAmount: string;
+  error?: PrivfiError;
   errorMessage?: string;
   warningMessage?: string;
 }
@@ -17,7 +21,9 @@ interface UseMinimumAmountValidationProps {
 }
 
 /**
- * Hook to validate if the output amount meets Typhoon's minimum requirements for private swaps
+ * Hook to validate if the output amount meets Typhoon's minimum requirements for private swaps.
+ * The output amount is net of the Typhoon fee, while the minimum applies to the deposit,
+ * so the minimum is compared after deducting the fee as well.
  */
 export const useMinimumAmountValidation = ({
   outputToken,
@@ -38,7 +44,8 @@ export const useMinimumAmountValidation = ({
     }
 
     // If no output amount, validation passes (handled elsewhere)
-    if (!outputAmount || parseFloat(outputAmount) <= 0) {
+    const outputRaw = tryParseAmount(outputAmount, outputToken.decimals);
+    if (outputRaw === null || outputRaw <= 0n) {
       return {
         isValid: true,
         minimumAmount: '0',
@@ -47,19 +54,22 @@ export const useMinimumAmountValidation = ({
 
     try {
       // Create Typhoon service instance to get minimum amount
-      const typhoonService = new TyphoonService();
-      const minimumAmount = typhoonService.getTokenMinimalAmount(outputToken.address);
+      const typhoonService = createTyphoonService();
+      const minimumDeposit = parseAmount(typhoonService.getTokenMinimalAmount(outputToken.address), outputToken.decimals);
+      const minimumRaw = deductTyphoonFee(minimumDeposit);
+      const minimumAmount = formatAmount(minimumRaw, outputToken.decimals);
 
-      const outputAmountNum = parseFloat(outputAmount);
-      const minimumAmountNum = parseFloat(minimumAmount);
-
-      const isValid = outputAmountNum >= minimumAmountNum;
+      const isValid = compareAmounts(outputRaw, minimumRaw) >= 0;
 
       if (!isValid) {
+        const error = new PrivfiError('TYPHOON_MINIMUM', `Output ${outputAmount} is below the private swap minimum of ${minimumAmount} ${outputToken.symbol}`, {
+          userMessage: `Minimum ${minimumAmount} ${outputToken.symbol} required for private swaps`,
+        });
         return {
           isValid: false,
           minimumAmount,
-          errorMessage: `Minimum ${minimumAmount} ${outputToken.symbol} required for private swaps`,
+          error,
+          errorMessage: error.userMessage,
           warningMessage: `Private swaps require a minimum of ${minimumAmount} ${outputToken.symbol}. Current output: ${outputAmount} ${outputToken.symbol}`,
         };
       }
@@ -76,5 +86,5 @@ export const useMinimumAmountValidation = ({
         minimumAmount: '0',
       };
     }
-  }, [outputToken.address, outputToken.symbol, outputAmount, privacyEnabled]);
+  }, [outputToken.address, outputToken.symbol, outputToken.decimals, outputAmount, privacyEnabled]);
 };
\ No newline at end of file
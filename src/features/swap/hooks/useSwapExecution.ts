@@ -1,437 +1,477 @@
 import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
-import { useSendTransaction, useAccount } from '@starknet-react/core';
+import { useSendTransaction, usePaymasterSendTransaction, useAccount, useProvider } from '@starknet-react/core';
 import { Call } from 'starknet';
 import { toast } from '@/shared/components/ui/sonner';
+import { BLOCKCHAIN_CONFIG, MOCK_CONFIG } from '@/core/config';
+import { PRIVFI_ERRORS, PrivfiError, getUserErrorMessage, toPrivfiError } from '@/core/errors';
+import { FEE_CONFIG } from '@/constants/fees';
+import { Token } from '@/constants/tokens';
+import { toRawAmount } from '@/shared/utils/lib/amounts';
 import { ExternalLink } from 'lucide-react';
 import { AVNUService } from '../services/avnu';
 import { AVNUQuote } from '../services/avnu';
-import { TyphoonService } from '../services/typhoon';
-import { SwapExecutionState, SwapProgress } from '../types/swap';
+import { getDEXProvider } from '../services/registry';
+import { createTyphoonService } from '../services/registry';
+import { TransactionWatcher } from '../services/transactionWatcher';
+import { TransactionSimulator } from '../services/transactionSimulator';
+import { AllowanceService } from '../services/allowances';
+import { holdTyphoonVault, isTyphoonVaultUnlocked } from '../utils/typhoonVault';
+import { scheduleTyphoonWithdrawal, updateTyphoonDepositStatus } from '../utils/typhoonStorage';
+import { SWAP_JOURNAL_SESSION_ID, SwapJournalEntry, saveSwapJournalEntry, updateSwapJournalEntry } from '../utils/swapJournal';
+import { DEFAULT_WITHDRAWAL_POLICY, resolveWithdrawalTime } from '../utils/withdrawalPolicy';
+import { validateRecipientSplits } from '../utils/withdrawalSplits';
+import { DecodedCall, decodeCalls, getKnownContractLabel } from '../utils/callDecoder';
+import { getDepositNoteAmounts, getDepositPools } from '../utils/typhoonCalls';
+import {
+  DEFAULT_APPROVAL_POLICY,
+  applyApprovalPolicy,
+  getApprovalRequirements,
+  trackApprovals,
+} from '../utils/approvalPolicy';
+import {
+  INITIAL_SWAP_MACHINE_STATE,
+  SwapMachineEffect,
+  SwapMachineEvent,
+  getSwapPhaseTimer,
+  isSwapInFlight,
+  toSwapExecutionState,
+  transitionSwapMachine,
+} from '../utils/swapStateMachine';
+import {
+  ApprovalPolicy,
+  SwapExecutionState,
+  SwapHistoryEntry,
+  SwapHistoryToken,
+  SwapSimulation,
+  WithdrawalPolicy,
+  WithdrawalRecipient,
+} from '../types/swap';
 import { useSwapStore } from '../store/swapStore';
+import { useSwapHistoryStore } from '../store/swapHistoryStore';
 
 export interface UseSwapExecutionParams {
   selectedQuote: AVNUQuote | null;
   slippage: number;
   recipientAddress?: string; // For private swaps
+  recipientSplits?: WithdrawalRecipient[]; // Replaces recipientAddress when the payout is split
+  withdrawalPolicy?: WithdrawalPolicy; // When the private withdrawal runs
+  gasTokenAddress?: string; // Pay gas in this token through the paymaster instead of STRK
+  approvalPolicy?: ApprovalPolicy; // How the approvals in the multicall are sized
 }
 
 export interface UseSwapExecutionResult extends SwapExecutionState {
   executeSwap: () => void;
+  review: DecodedCall[] | null; // Decoded calls waiting for the user's go-ahead, null outside the review
+  confirmReview: () => void; // Send the reviewed calls to the wallet
+  cancel: () => void; // Abandon the run before anything is sent to the wallet
   reset: () => void;
 }
 
+const toHistoryToken = ({ address, symbol, decimals }: Token): SwapHistoryToken => ({ address, symbol, decimals });
+
 export const useSwapExecution = ({
   selectedQuote,
   slippage,
   recipientAddress,
+  recipientSplits,
+  withdrawalPolicy = DEFAULT_WITHDRAWAL_POLICY,
+  gasTokenAddress,
+  approvalPolicy = DEFAULT_APPROVAL_POLICY,
 }: UseSwapExecutionParams): UseSwapExecutionResult => {
-  const { address } = useAccount();
-  const { setExecuting, setExecutionProgress } = useSwapStore();
-  const [executionState, setExecutionState] = useState<SwapExecutionState>({
-    isLoading: false,
-    isSuccess: false,
-    isError: false,
-    error: null,
-    transactionHash: null,
-    isPrivateSwap: false,
-    withdrawalStatus: undefined,
-  });
+  const { address, account } = useAccount();
+  const { provider } = useProvider();
+  const { fromToken, toToken, setExecuting, setExecutionProgress, setExecutionSimulation } = useSwapStore();
+  const { addEntry: addHistoryEntry, updateEntry: updateHistoryEntry } = useSwapHistoryStore();
+
+  // The swap phases live in a pure state machine, this hook only feeds it events and runs its effects
+  const machineRef = useRef(INITIAL_SWAP_MACHINE_STATE);
+  const [machineState, setMachineState] = useState(INITIAL_SWAP_MACHINE_STATE);
+  const runEffectRef = useRef<(effect: SwapMachineEffect) => void>(() => undefined);
+  // What is being signed, journaled once the wallet returns a transaction hash
+  const pendingJournalRef = useRef<Omit<SwapJournalEntry, 'transactionHash' | 'phase' | 'isPrivateSwap' | 'createdAt' | 'updatedAt'> | null>(null);
+  // Recipients validated and journaled when each swap was submitted, its withdrawal pays out to them
+  const submittedRecipientsRef = useRef(new Map<string, Pick<SwapJournalEntry, 'recipientAddresses' | 'splitPercentages'>>());
+  // The same swap as the user's history records it
+  const pendingHistoryRef = useRef<Omit<SwapHistoryEntry, 'transactionHash' | 'isPrivateSwap' | 'status' | 'createdAt' | 'updatedAt'> | null>(null);
+  // Journal and deposit writes run in order so an update never lands before its record
+  const storageQueueRef = useRef<Promise<void>>(Promise.resolve());
+  const watchControllerRef = useRef<AbortController | null>(null);
+  // Calls held back until the user confirms the review
+  const pendingCallsRef = useRef<Call[] | null>(null);
+  // Calls sent to the wallet, whose approvals are tracked once the transaction is submitted
+  const sentCallsRef = useRef<Call[] | null>(null);
+  const [decodedCalls, setDecodedCalls] = useState<DecodedCall[]>([]);
 
   const avnuService = useMemo(() => new AVNUService(), []);
-  const typhoonService = useMemo(() => new TyphoonService(), []);
-  const toastShownRef = useRef<string | null>(null);
-  const errorToastShownRef = useRef<string | null>(null);
-  const withdrawalInitiatedRef = useRef<string | null>(null); // Track which transaction has withdrawal initiated
-  const processedTransactionRef = useRef<string | null>(null); // Track processed transactions
-  const isTransitioningToWalletRef = useRef<boolean>(false); // Track transition to wallet interaction
-  const lastPhaseRef = useRef<string | null>(null); // Track last phase to prevent duplicates
-  const lastMessageRef = useRef<string | null>(null); // Track last message to prevent duplicates
-  const withdrawalCompletedRef = useRef<string | null>(null); // Track completed withdrawals
-  const progressClearTimeoutRef = useRef<NodeJS.Timeout | null>(null); // Track progress clear timeouts
-  const successProcessedRef = useRef<string | null>(null); // Track processed success transactions
-
-  const updateProgress = useCallback((progress: SwapProgress | undefined) => {
-    // Prevent duplicate phase transitions (check both phase and message)
-    if (progress?.phase && progress?.message &&
-      lastPhaseRef.current === progress.phase &&
-      lastMessageRef.current === progress.message) {
-      return;
+  const typhoonService = useMemo(() => createTyphoonService(), []);
+  const transactionWatcher = useMemo(() => new TransactionWatcher(), []);
+  const allowanceService = useMemo(() => new AllowanceService(provider), [provider]);
+
+  // Returns false when the machine ignored the event, e.g. because the run was cancelled
+  const dispatch = useCallback((event: SwapMachineEvent): boolean => {
+    const { state, effects } = transitionSwapMachine(machineRef.current, event);
+    if (state === machineRef.current) {
+      return false;
     }
 
-    if (progress?.phase) {
-      lastPhaseRef.current = progress.phase;
-    }
-    if (progress?.message) {
-      lastMessageRef.current = progress.message;
-    }
+    machineRef.current = state;
+    setMachineState(state);
+    effects.forEach(effect => runEffectRef.current(effect));
+    return true;
+  }, []);
+
+  const executionState = useMemo(() => toSwapExecutionState(machineState), [machineState]);
 
-    setExecutionProgress(progress);
-    setExecutionState(prev => ({ ...prev, progress }));
-  }, [setExecutionProgress]);
+  useEffect(() => {
+    setExecuting(executionState.isLoading);
+    setExecutionProgress(executionState.progress);
+  }, [executionState, setExecuting, setExecutionProgress]);
 
-  // Helper function to schedule progress clearing with timeout management
-  const scheduleProgressClear = useCallback((delayMs: number) => {
-    // Clear any existing timeout
-    if (progressClearTimeoutRef.current) {
-      clearTimeout(progressClearTimeoutRef.current);
-      progressClearTimeoutRef.current = null;
+  // Each phase gets at most one timer: a timeout, the confirmation delay or the completed display
+  useEffect(() => {
+    const timer = getSwapPhaseTimer(machineRef.current);
+    if (!timer) {
+      return;
     }
 
-    // Schedule new timeout
-    progressClearTimeoutRef.current = setTimeout(() => {
-      updateProgress(undefined);
-      progressClearTimeoutRef.current = null;
-    }, delayMs);
-  }, [updateProgress]);
+    const timeoutId = setTimeout(() => dispatch(timer.event), timer.delayMs);
+    return () => clearTimeout(timeoutId);
+  }, [machineState.runId, machineState.phase, dispatch]);
+
+  const nativeTransaction = useSendTransaction({
+    calls: undefined, // Will be set dynamically
+  });
+
+  const paymasterTransaction = usePaymasterSendTransaction({
+    calls: undefined, // Will be set dynamically
+    options: {
+      feeMode: { mode: 'default', gasToken: gasTokenAddress || '' },
+    },
+  });
 
+  // Follow whichever path sent the current transaction
+  const [isGaslessTransaction, setIsGaslessTransaction] = useState(false);
   const {
-    send: sendTransaction,
     data: transactionData,
     error: transactionError,
     status,
-    reset: resetTransaction,
-  } = useSendTransaction({
-    calls: undefined, // Will be set dynamically
-  });
+  } = isGaslessTransaction ? paymasterTransaction : nativeTransaction;
+  const resetNativeTransaction = nativeTransaction.reset;
+  const resetPaymasterTransaction = paymasterTransaction.reset;
+  const sendNativeTransaction = nativeTransaction.send;
+  const sendPaymasterTransaction = paymasterTransaction.send;
+
+  const sendTransaction = useCallback((calls: Call[]) => {
+    const useGasless = !!gasTokenAddress;
+    setIsGaslessTransaction(useGasless);
+    if (useGasless) {
+      sendPaymasterTransaction(calls);
+    } else {
+      sendNativeTransaction(calls);
+    }
+  }, [gasTokenAddress, sendNativeTransaction, sendPaymasterTransaction]);
 
-  const handlePrivateWithdrawal = useCallback(async (txHash: string) => {
-    // Prevent duplicate withdrawal calls using ref to avoid circular dependency
-    if (withdrawalInitiatedRef.current === txHash) {
-      return;
+  // Wallet results become machine events, which only apply while awaiting the signature or after it timed out
+  useEffect(() => {
+    if (status === 'success' && transactionData?.transaction_hash) {
+      if (dispatch({ type: 'TX_SUBMITTED', transactionHash: transactionData.transaction_hash }) && sentCallsRef.current) {
+        // Approvals only exist once signed, a rejected transaction leaves nothing to revoke
+        const typhoonPools = getDepositPools(sentCallsRef.current);
+        trackApprovals(getApprovalRequirements(sentCallsRef.current).map(({ tokenAddress, spender }) => ({
+          tokenAddress,
+          spender,
+          spenderLabel: getKnownContractLabel(spender, { typhoonPools }) ?? 'Unknown spender',
+        })));
+        sentCallsRef.current = null;
+      }
+    } else if (status === 'error') {
+      sentCallsRef.current = null;
+      dispatch({ type: 'TX_REJECTED', error: getUserErrorMessage(transactionError, 'TRANSACTION_FAILED') });
+    }
+  }, [status, transactionData, transactionError, dispatch]);
+
+  // Split recipients when configured, otherwise the recipient address or the connected wallet
+  const resolveRecipients = useCallback((): { recipientAddresses: string[]; splitPercentages?: number[] } => {
+    if (recipientSplits && recipientSplits.length > 0) {
+      return {
+        recipientAddresses: recipientSplits.map(recipient => recipient.address),
+        splitPercentages: recipientSplits.map(recipient => recipient.percentage),
+      };
     }
 
-    // Check current withdrawal status from state
-    if (executionState.withdrawalStatus === 'processing' || executionState.withdrawalStatus === 'completed') {
-      return;
+    const recipient = recipientAddress || address;
+    if (!recipient) {
+      throw new Error('No recipient address available for withdrawal');
     }
+    return { recipientAddresses: [recipient] };
+  }, [recipientSplits, recipientAddress, address]);
 
-    // Mark this transaction as having withdrawal initiated
-    withdrawalInitiatedRef.current = txHash;
+  const getSubmittedRecipients = useCallback((transactionHash: string) => {
+    const recipients = submittedRecipientsRef.current.get(transactionHash);
+    if (!recipients) {
+      throw new Error('No recipient address available for withdrawal');
+    }
+    return recipients;
+  }, []);
 
+  const simulateSwap = useCallback(async (calls: Call[]): Promise<SwapSimulation | null> => {
+    // Mock calls target contracts that do not exist on chain
+    if (!account || MOCK_CONFIG.enabled) {
+      return null;
+    }
     try {
-      setExecutionState(prev => ({
-        ...prev,
-        withdrawalStatus: 'processing',
-      }));
-
-
-      const now = Date.now();
-      updateProgress({
-        phase: 'processing-withdrawal',
-        message: 'Processing withdrawal',
-        estimatedTimeMs: 60000, // Updated: was 45000ms, actual ~46200ms + buffer
-        startedAt: now
-      });
-
-      // Use recipient address if provided, otherwise use wallet address
-      const recipient = recipientAddress || address;
-      if (!recipient) {
-        throw new Error('No recipient address available for withdrawal');
-      }
-
-
-      await typhoonService.withdraw({
-        transactionHash: txHash,
-        recipientAddresses: [recipient],
-      });
-
-
-      // Mark withdrawal as completed for this transaction
-      withdrawalCompletedRef.current = txHash;
-
-      setExecutionState(prev => ({
-        ...prev,
-        withdrawalStatus: 'completed',
-        isPrivateSwap: false, // Clear flag after successful withdrawal
-      }));
-
-      updateProgress({
-        phase: 'completed',
-        message: 'Swap and withdrawal completed!'
-      });
-
-      scheduleProgressClear(3000);
-
-      toast.success('Withdrawal completed!', {
-        duration: 5000,
-      });
+      return await new TransactionSimulator(account).simulate(calls);
     } catch (error) {
-      setExecutionState(prev => ({
-        ...prev,
-        withdrawalStatus: 'failed',
-        isPrivateSwap: false, // Clear flag on failure too
-      }));
-
-      updateProgress(undefined);
-
-      toast.error('Withdrawal failed!', {
-        description: error instanceof Error ? error.message : 'Unknown withdrawal error',
-        duration: 8000,
-      });
+      // The simulation is advisory, the wallet still estimates the fee when it cannot run
+      return null;
     }
-    // Note: executionState.withdrawalStatus is intentionally omitted from dependencies 
-    // to prevent circular dependency that causes infinite re-renders
-  }, [typhoonService, recipientAddress, address, updateProgress]);
+  }, [account]);
 
-  // Update execution state based on transaction status
+  const applyApprovals = useCallback(async (calls: Call[], owner: string): Promise<Call[]> => {
+    if (approvalPolicy === 'exact') {
+      return calls;
+    }
+    // Mock approvals go to a router that only exists offline, so there is nothing to read
+    const allowances = MOCK_CONFIG.enabled
+      ? new Map<string, bigint>()
+      : await allowanceService.getAllowances(owner, getApprovalRequirements(calls));
+    return applyApprovalPolicy(calls, approvalPolicy, allowances);
+  }, [approvalPolicy, allowanceService]);
+
+  const enqueueWrite = useCallback((write: () => Promise<void>): Promise<void> => {
+    storageQueueRef.current = storageQueueRef.current
+      .then(write)
+      .catch(() => undefined); // A failed write is reported by the step that needs it, never by the queue
+    return storageQueueRef.current;
+  }, []);
+
+  // The vault stays open while a run is in flight, so neither the idle timer nor a manual lock
+  // leaves its notes and journal entries in memory only. Released once the queued writes are done.
+  const isInFlight = isSwapInFlight(machineState);
   useEffect(() => {
-    // Safely access current progress from store to avoid dependency issues
-    const currentProgress = executionState.progress;
-
-    switch (status) {
-      case 'idle':
-        // Don't clear progress if we're transitioning to wallet interaction or still executing
-        if (executionState.isLoading && !isTransitioningToWalletRef.current) {
-          // Don't clear progress during execution phases that should continue
-          const isActivePhase = currentProgress && [
-            'preparing',
-            'building-swap',
-            'generating-deposit',
-            'awaiting-signature',
-            'confirming',
-            'processing-withdrawal'
-          ].includes(currentProgress.phase);
-
-          if (!isActivePhase) {
-            setExecutionState(prev => ({
-              ...prev,
-              isLoading: false,
-            }));
-            setExecuting(false);
-            updateProgress(undefined);
-          }
-        }
-        break;
-      case 'pending':
-        setExecutionState(prev => ({
-          ...prev,
-          isLoading: true,
-          isSuccess: false,
-          isError: false,
-          error: null,
-        }));
-        setExecuting(true);
-
-        // Only update progress if we're not already in awaiting-signature phase or transitioning
-        if (currentProgress?.phase !== 'awaiting-signature' && !isTransitioningToWalletRef.current) {
-          const now = Date.now();
-          updateProgress({
-            phase: 'awaiting-signature',
-            message: 'Awaiting wallet signature',
-            estimatedTimeMs: undefined, // No estimation - user dependent
-            startedAt: now
-          });
-        }
-        break;
-      case 'success': {
-        const txHash = transactionData?.transaction_hash || null;
-
-        // Prevent processing the same transaction multiple times
-        if (txHash && successProcessedRef.current === txHash) {
-          break;
+    if (!isInFlight) {
+      return;
+    }
+    const release = holdTyphoonVault();
+    return () => {
+      enqueueWrite(async () => release());
+    };
+  }, [isInFlight, enqueueWrite]);
+
+  const runEffect = useCallback((effect: SwapMachineEffect) => {
+    switch (effect.type) {
+      case 'record-swap': {
+        const { transactionHash, isPrivateSwap } = effect;
+        const pendingJournal = pendingJournalRef.current;
+        const pendingHistory = pendingHistoryRef.current;
+        pendingJournalRef.current = null;
+        pendingHistoryRef.current = null;
+        if (pendingJournal) {
+          const { recipientAddresses, splitPercentages } = pendingJournal;
+          submittedRecipientsRef.current.set(transactionHash, { recipientAddresses, splitPercentages });
         }
 
-        // Don't process if withdrawal was already completed for this transaction
-        if (txHash && withdrawalCompletedRef.current === txHash) {
-          break;
+        if (pendingHistory) {
+          addHistoryEntry({
+            ...pendingHistory,
+            transactionHash,
+            isPrivateSwap,
+            status: 'pending',
+            withdrawalStatus: isPrivateSwap ? 'pending' : undefined,
+            fees: {
+              ...pendingHistory.fees,
+              typhoonFeeBps: isPrivateSwap ? FEE_CONFIG.TYPHOON_FEE_BPS : undefined,
+            },
+            createdAt: Date.now(),
+            updatedAt: Date.now(),
+          });
         }
 
-        if (txHash) {
-          successProcessedRef.current = txHash;
+        if (pendingJournal) {
+          enqueueWrite(() => saveSwapJournalEntry({
+            ...pendingJournal,
+            transactionHash,
+            phase: 'confirming',
+            isPrivateSwap,
+            createdAt: Date.now(),
+            updatedAt: Date.now(),
+          }));
         }
-
-        setExecutionState(prev => ({
-          ...prev,
-          isLoading: false,
-          isSuccess: true,
-          isError: false,
-          error: null,
-          transactionHash: txHash,
-          withdrawalStatus: 'pending',
-        }));
-
-        // Phase 1: Blockchain confirmation only
-        const now = Date.now();
-
-        updateProgress({
-          phase: 'confirming',
-          message: 'Transaction confirming',
-          estimatedTimeMs: 3000, // Updated: Only blockchain confirmation, not withdrawal
-          startedAt: now
-        });
-
-        // For private swaps, save SDK data with transaction hash first, then initiate withdrawal
-        // Only do this if we haven't already processed this transaction and we have pending deposit data
-        if (txHash && executionState.isPrivateSwap && address &&
-          processedTransactionRef.current !== txHash &&
-          withdrawalInitiatedRef.current !== txHash) {
-          // Mark transaction as processed to prevent re-processing
-          processedTransactionRef.current = txHash;
-          // Check if we have pending deposit data to save
-          const hasPendingData = typhoonService.hasPendingDepositData();
-
-          if (hasPendingData) {
-            // Save the SDK data with the transaction hash for future withdrawal
-            typhoonService.saveDepositDataWithTxHash(txHash, address).then(() => {
-              // Wait for the confirming phase to complete (~3 seconds) before starting withdrawal
-              setTimeout(() => {
-                handlePrivateWithdrawal(txHash);
-              }, 3000);
-            }).catch((error) => {
-              // Still attempt withdrawal in case data was already saved
-              setTimeout(() => {
-                handlePrivateWithdrawal(txHash);
-              }, 3000);
-            });
-          } else {
-            setTimeout(() => {
-              handlePrivateWithdrawal(txHash);
-            }, 3000);
+        // Still attempt the withdrawal if saving fails, in case the data was already saved
+        enqueueWrite(async () => {
+          if (isPrivateSwap && typhoonService.hasPendingDepositData() && address) {
+            await typhoonService.saveDepositDataWithTxHash(transactionHash, address);
           }
-        } else if (txHash && !executionState.isPrivateSwap && withdrawalCompletedRef.current !== txHash) {
-          // Regular swap completion - only if no withdrawal was completed for this transaction
-          setTimeout(() => {
-            updateProgress({
-              phase: 'completed',
-              message: 'Swap completed successfully!'
-            });
-            scheduleProgressClear(3000);
-          }, 2000);
-        }
-
-        // Show success toast (only once per transaction)
-        if (txHash && toastShownRef.current !== txHash) {
-          toastShownRef.current = txHash;
-          toast.success(executionState.isPrivateSwap ? 'Swap successful! Starting withdrawal' : 'Swap successful!', {
-            duration: 8000, // 8 seconds
-            action: {
-              label: React.createElement('span', { className: 'flex items-center gap-1' }, [
-                'View tx',
-                React.createElement(ExternalLink, { key: 'icon', className: 'h-3 w-3' })
-              ]),
-              onClick: () => window.open(`https://voyager.online/tx/${txHash}`, '_blank'),
-            },
+        }).then(() => dispatch({ type: 'DEPOSIT_SAVED', transactionHash }));
+        break;
+      }
+      case 'update-journal': {
+        const { transactionHash, phase, error } = effect;
+        enqueueWrite(() => updateSwapJournalEntry(transactionHash, { phase, lastError: error }));
+        break;
+      }
+      case 'watch-transaction': {
+        // The withdrawal only starts once the swap is accepted with the configured confirmations
+        const { transactionHash } = effect;
+        const controller = new AbortController();
+        watchControllerRef.current?.abort();
+        watchControllerRef.current = controller;
+
+        transactionWatcher.watch(transactionHash, {
+          signal: controller.signal,
+          onUpdate: update => dispatch({
+            type: 'TX_STATUS',
+            transactionHash,
+            status: update.status,
+            confirmations: update.confirmations,
+            requiredConfirmations: transactionWatcher.getConfirmationBlocks(),
+          }),
+        })
+          .then(() => {
+            updateHistoryEntry(transactionHash, { status: 'confirmed', confirmedAt: Date.now() });
+            dispatch({ type: 'TX_CONFIRMED', transactionHash });
+          })
+          .catch(error => {
+            if (controller.signal.aborted) return;
+            const failure = toPrivfiError(error, 'TRANSACTION_FAILED');
+            updateHistoryEntry(transactionHash, { status: 'failed', error: failure.message });
+            dispatch({ type: 'TX_FAILED', transactionHash, error: failure.userMessage });
           });
-        }
         break;
       }
-      case 'error': {
-        const errorMessage = transactionError?.message || 'Transaction failed';
-        setExecutionState(prev => ({
-          ...prev,
-          isLoading: false,
-          isSuccess: false,
-          isError: true,
-          error: errorMessage,
-          transactionHash: null,
-        }));
-
-        setExecuting(false);
-        updateProgress(undefined);
-
-        // Show error toast (only once per error)
-        if (errorToastShownRef.current !== errorMessage) {
-          errorToastShownRef.current = errorMessage;
-          toast.error('Swap failed!', {
-            description: errorMessage,
-            duration: 8000, // 8 seconds
+      case 'fail-deposit': {
+        // The deposit never happened, keep the record but flag why it cannot be withdrawn
+        const { transactionHash, error } = effect;
+        enqueueWrite(() => updateTyphoonDepositStatus(transactionHash, 'failed', `Swap transaction failed: ${error}`));
+        break;
+      }
+      case 'withdraw': {
+        const { transactionHash } = effect;
+        updateHistoryEntry(transactionHash, { withdrawalStatus: 'processing' });
+        (async () => typhoonService.withdraw({ transactionHash, ...getSubmittedRecipients(transactionHash) }))()
+          .then(() => {
+            updateHistoryEntry(transactionHash, { withdrawalStatus: 'completed' });
+            dispatch({ type: 'WITHDRAWAL_COMPLETED', transactionHash });
+          })
+          .catch(error => {
+            const failure = toPrivfiError(error, 'WITHDRAWAL_FAILED');
+            // Another withdrawal of the deposit is running and records its own outcome
+            if (failure.code !== 'WITHDRAWAL_IN_PROGRESS') {
+              updateHistoryEntry(transactionHash, { withdrawalStatus: 'failed', error: failure.message });
+            }
+            dispatch({ type: 'WITHDRAWAL_FAILED', transactionHash, error: failure.userMessage });
           });
-        }
         break;
       }
-    }
-  }, [status, transactionData, transactionError, executionState.isLoading, executionState.isPrivateSwap, handlePrivateWithdrawal, address, setExecuting, typhoonService, updateProgress]);
-
-  const executeSwap = useCallback(async () => {
-    if (!selectedQuote) {
-      const error = 'No quote selected';
-      setExecutionState(prev => ({
-        ...prev,
-        isError: true,
-        error,
-      }));
-      if (errorToastShownRef.current !== error) {
-        errorToastShownRef.current = error;
-        toast.error('Swap failed!', {
-          description: error,
-          duration: 8000,
+      case 'schedule-withdrawal': {
+        // Store the recipient and due time so the withdrawal scheduler (or the user) runs it later
+        const { transactionHash } = effect;
+        const scheduledAt = resolveWithdrawalTime(effect.withdrawalPolicy);
+        (async () => {
+          const { recipientAddresses, splitPercentages } = getSubmittedRecipients(transactionHash);
+          await scheduleTyphoonWithdrawal(transactionHash, recipientAddresses, scheduledAt, splitPercentages);
+        })()
+          .then(() => {
+            updateHistoryEntry(transactionHash, {
+              withdrawalStatus: scheduledAt ? 'scheduled' : 'pending',
+              scheduledWithdrawalAt: scheduledAt ?? undefined,
+            });
+            dispatch({ type: 'WITHDRAWAL_SCHEDULED', transactionHash, scheduledAt });
+          })
+          .catch(error => {
+            const failure = toPrivfiError(error, 'WITHDRAWAL_FAILED');
+            updateHistoryEntry(transactionHash, { withdrawalStatus: 'failed', error: failure.message });
+            dispatch({ type: 'WITHDRAWAL_FAILED', transactionHash, error: failure.userMessage });
+          });
+        break;
+      }
+      case 'notify': {
+        const { level, title, description, transactionHash } = effect;
+        toast[level](title, {
+          description,
+          duration: level === 'warning' ? 5000 : 8000,
+          action: transactionHash ? {
+            label: React.createElement('span', { className: 'flex items-center gap-1' }, [
+              'View tx',
+              React.createElement(ExternalLink, { key: 'icon', className: 'h-3 w-3' })
+            ]),
+            onClick: () => window.open(`${BLOCKCHAIN_CONFIG.explorerTxUrl}${transactionHash}`, '_blank'),
+          } : undefined,
         });
+        break;
       }
-      return;
     }
+  }, [typhoonService, transactionWatcher, address, getSubmittedRecipients, enqueueWrite, addHistoryEntry, updateHistoryEntry, dispatch]);
+
+  useEffect(() => {
+    runEffectRef.current = runEffect;
+  }, [runEffect]);
 
-    if (!address) {
-      const error = 'Wallet not connected';
-      setExecutionState(prev => ({
-        ...prev,
-        isError: true,
-        error,
-      }));
-      if (errorToastShownRef.current !== error) {
-        errorToastShownRef.current = error;
-        toast.error('Swap failed!', {
-          description: error,
-          duration: 8000,
+  const executeSwap = useCallback(async () => {
+    if (!dispatch({ type: 'START', withdrawalPolicy })) {
+      if (machineRef.current.awaitingLateSignature) {
+        toast.warning('Your wallet still has a pending request', {
+          description: 'Approve or reject it before starting another swap',
         });
       }
+      return; // A swap is already running
+    }
+    const { runId } = machineRef.current;
+    setExecutionSimulation(undefined);
+
+    // Deposit notes can only be persisted through an unlocked vault,
+    // and a split payout has to be valid before any funds move
+    const validationError = !selectedQuote
+      ? 'No quote selected'
+      : !address
+        ? PRIVFI_ERRORS.WALLET_NOT_CONNECTED.userMessage
+        : !isTyphoonVaultUnlocked()
+          ? PRIVFI_ERRORS.VAULT_LOCKED.userMessage
+          : recipientSplits && recipientSplits.length > 0
+            ? validateRecipientSplits(recipientSplits)
+            : null;
+    if (validationError || !selectedQuote || !address) {
+      dispatch({ type: 'STEP_FAILED', runId, error: validationError || 'Failed to execute swap' });
       return;
     }
 
     try {
-      // Set executing and loading state FIRST to prevent idle state clearing
-      setExecuting(true);
-      setExecutionState(prev => ({
-        ...prev,
-        isLoading: true,
-        isSuccess: false,
-        isError: false,
-        error: null,
-        transactionHash: null,
-        isPrivateSwap: false, // Reset private swap flag
-        withdrawalStatus: 'pending', // Reset withdrawal status
-      }));
-
-      const now = Date.now();
-      updateProgress({
-        phase: 'preparing',
-        message: 'Preparing swap transaction',
-        estimatedTimeMs: 1000, // Updated: was 3000ms, actual ~500ms
-        startedAt: now
-      });
+      // Resolved once, so the journal and the withdrawal use the recipients validated above
+      const recipients = resolveRecipients();
 
-      await new Promise(resolve => setTimeout(resolve, 500));
+      // Orchestrated quotes carry the aggregator that produced them, anything else came from AVNU
+      const { swapQuote } = selectedQuote;
+      const dex = swapQuote ? await getDEXProvider(selectedQuote.provider ?? 'avnu') : null;
 
-      const now2 = Date.now();
-      updateProgress({
-        phase: 'building-swap',
-        message: 'Building swap calls with AVNU',
-        estimatedTimeMs: 2000, // Updated: was 5000ms, actual ~1400ms
-        startedAt: now2
-      });
-
-      // Build the swap calldata using AVNU's build endpoint
-      const buildResponse = await avnuService.buildSwap({
-        quoteId: selectedQuote.quoteId,
-        takerAddress: address,
-        slippage: slippage / 100, // Convert percentage to decimal
-        includeApprove: true,
-      });
+      if (!dispatch({ type: 'BUILD_STARTED', runId, providerName: dex?.getName() ?? 'AVNU' })) {
+        return;
+      }
 
-      if (!buildResponse.calls || buildResponse.calls.length === 0) {
-        throw new Error('No transaction calls received from build response');
+      // Build the swap calldata with the aggregator that produced the quote
+      const swapCalls = dex && swapQuote
+        ? await dex.buildSwapCalls({
+          quote: swapQuote,
+          takerAddress: address,
+          slippage: slippage / 100, // Convert percentage to decimal
+        })
+        : (await avnuService.buildSwap({
+          quoteId: selectedQuote.quoteId,
+          takerAddress: address,
+          slippage: slippage / 100, // Convert percentage to decimal
+          includeApprove: true,
+        })).calls;
+
+      if (!swapCalls || swapCalls.length === 0) {
+        throw new PrivfiError('BUILD_FAILED', 'No transaction calls received from build response');
       }
 
-      await new Promise(resolve => setTimeout(resolve, 1000));
+      if (!dispatch({ type: 'SWAP_CALLS_BUILT', runId })) {
+        return;
+      }
 
+      let calls = swapCalls;
+      let typhoonDepositCalls: Call[] | null = null;
       try {
-        const now3 = Date.now();
-        updateProgress({
-          phase: 'generating-deposit',
-          message: 'Generating private deposit calls',
-          estimatedTimeMs: 15000, // Updated: was 10000ms, actual ~14200ms
-          startedAt: now3
-        });
-
         // Attempt to generate Typhoon private swap calls (deposit calls)
         const depositCalls = await typhoonService.generateApproveAndDepositCalls(
           selectedQuote.buyAmount,
@@ -439,119 +479,116 @@ export const useSwapExecution = ({
           address // Pass wallet address for future SDK data saving
         );
 
-        // Combine AVNU swap calls with Typhoon deposit calls for private swap
-        const allCalls = [...buildResponse.calls, ...depositCalls];
-
-        // Set private swap state
-        setExecutionState(prev => ({
-          ...prev,
-          isPrivateSwap: true,
-        }));
-
-        await new Promise(resolve => setTimeout(resolve, 800));
-
-        const now4 = Date.now();
-        updateProgress({
-          phase: 'awaiting-signature',
-          message: 'Ready to sign - please check your wallet',
-          estimatedTimeMs: undefined, // No estimation - user dependent
-          startedAt: now4
-        });
-
-        // Set transition flag to protect awaiting-signature state
-        isTransitioningToWalletRef.current = true;
-
-        // Execute the multicall transaction (swap + deposit)
-        sendTransaction(allCalls);
-
-        // Clear transition flag after brief delay to allow wallet to open
-        setTimeout(() => {
-          isTransitioningToWalletRef.current = false;
-        }, 500);
-
+        if (!dispatch({ type: 'DEPOSIT_READY', runId })) {
+          return;
+        }
+        // Combine the aggregator's swap calls with Typhoon deposit calls for private swap
+        calls = [...swapCalls, ...depositCalls];
+        typhoonDepositCalls = depositCalls;
       } catch (typhoonError) {
+        const reason = getUserErrorMessage(typhoonError, 'TYPHOON_UNAVAILABLE');
+        if (!dispatch({ type: 'DEPOSIT_UNAVAILABLE', runId, reason })) {
+          return;
+        }
+      }
 
-        // Fall back to regular swap without privacy layer
-        toast.warning('Private swap unavailable, proceeding with regular swap', {
-          description: 'Typhoon privacy service is temporarily unavailable',
-          duration: 5000,
-        });
-
-        const now5 = Date.now();
-        updateProgress({
-          phase: 'awaiting-signature',
-          message: 'Ready to sign regular swap - check your wallet',
-          estimatedTimeMs: undefined, // No estimation - user dependent
-          startedAt: now5
-        });
-
-        // Set transition flag to protect awaiting-signature state
-        isTransitioningToWalletRef.current = true;
+      // Notes come in the pools' fixed sizes, so a split can only be checked against the generated deposit
+      if (typhoonDepositCalls && recipientSplits && recipientSplits.length > 0) {
+        const splitError = validateRecipientSplits(recipientSplits, getDepositNoteAmounts(typhoonDepositCalls));
+        if (splitError) {
+          throw new PrivfiError('INVALID_REQUEST', splitError, { userMessage: splitError });
+        }
+      }
 
-        // Execute regular swap without deposit calls
-        sendTransaction(buildResponse.calls);
+      // Size the approvals by the approval policy, skipping the ones the current allowance covers
+      calls = await applyApprovals(calls, address);
+      // Dry-run the multicall so a swap that would revert fails before the wallet opens
+      const simulation = await simulateSwap(calls);
+      if (machineRef.current.runId !== runId) {
+        return;
+      }
+      setExecutionSimulation(simulation ?? undefined);
+      if (simulation?.status === 'reverted') {
+        dispatch({ type: 'SIMULATION_REVERTED', runId, reason: simulation.revertReason || 'the transaction reverted' });
+        return;
+      }
 
-        // Clear transition flag after brief delay to allow wallet to open
-        setTimeout(() => {
-          isTransitioningToWalletRef.current = false;
-        }, 500);
+      pendingCallsRef.current = calls;
+      setDecodedCalls(decodeCalls(calls, { accountAddress: address, tokens: [fromToken, toToken] }));
+      if (!dispatch({ type: 'SIMULATED', runId })) {
+        return;
       }
 
+      pendingJournalRef.current = {
+        walletAddress: address,
+        sessionId: SWAP_JOURNAL_SESSION_ID,
+        calls,
+        quote: {
+          provider: selectedQuote.provider ?? 'avnu',
+          sellTokenAddress: selectedQuote.sellTokenAddress,
+          buyTokenAddress: selectedQuote.buyTokenAddress,
+          sellAmount: selectedQuote.sellAmount,
+          buyAmount: selectedQuote.buyAmount,
+        },
+        ...recipients,
+        withdrawalPolicy,
+      };
+      pendingHistoryRef.current = {
+        walletAddress: address,
+        quoteId: selectedQuote.quoteId,
+        provider: selectedQuote.provider ?? 'avnu',
+        sellToken: toHistoryToken(fromToken),
+        buyToken: toHistoryToken(toToken),
+        sellAmount: toRawAmount(selectedQuote.sellAmount).toString(),
+        buyAmount: toRawAmount(selectedQuote.buyAmount).toString(),
+        fees: {
+          gasFeesUsd: selectedQuote.gasFeesInUsd || 0,
+          integratorFeesUsd: selectedQuote.integratorFeesInUsd || 0,
+          aggregatorFeesUsd: selectedQuote.avnuFeesInUsd || 0,
+        },
+      };
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Failed to execute swap';
-      setExecutionState(prev => ({
-        ...prev,
-        isLoading: false,
-        isError: true,
-        error: errorMessage,
-        transactionHash: null,
-      }));
-
-      setExecuting(false);
-      updateProgress(undefined);
-
-      if (errorToastShownRef.current !== errorMessage) {
-        errorToastShownRef.current = errorMessage;
-        toast.error('Swap failed!', {
-          description: errorMessage,
-          duration: 8000,
-        });
-      }
+      dispatch({
+        type: 'STEP_FAILED',
+        runId,
+        error: getUserErrorMessage(error, 'BUILD_FAILED'),
+      });
     }
-  }, [selectedQuote, address, slippage, avnuService, typhoonService, sendTransaction, setExecuting, updateProgress]);
+  }, [selectedQuote, address, slippage, recipientSplits, withdrawalPolicy, fromToken, toToken, avnuService, typhoonService, resolveRecipients, applyApprovals, simulateSwap, setExecutionSimulation, dispatch]);
 
-  const reset = useCallback(() => {
-    setExecutionState({
-      isLoading: false,
-      isSuccess: false,
-      isError: false,
-      error: null,
-      transactionHash: null,
-      isPrivateSwap: false,
-      withdrawalStatus: undefined,
-    });
-    setExecuting(false);
-    updateProgress(undefined);
-    toastShownRef.current = null; // Reset success toast tracking
-    errorToastShownRef.current = null; // Reset error toast tracking
-    withdrawalInitiatedRef.current = null; // Reset withdrawal tracking
-    processedTransactionRef.current = null; // Reset transaction processing tracking
-    isTransitioningToWalletRef.current = false; // Reset transition tracking
-    lastPhaseRef.current = null; // Reset phase tracking
-    lastMessageRef.current = null; // Reset message tracking
-    withdrawalCompletedRef.current = null; // Reset withdrawal completion tracking
-    successProcessedRef.current = null; // Reset success processing tracking
-    // Clear any pending progress clear timeouts
-    if (progressClearTimeoutRef.current) {
-      clearTimeout(progressClearTimeoutRef.current);
-      progressClearTimeoutRef.current = null;
+  const confirmReview = useCallback(() => {
+    const calls = pendingCallsRef.current;
+    if (!calls || !dispatch({ type: 'REVIEW_CONFIRMED', runId: machineRef.current.runId })) {
+      return;
     }
-    resetTransaction();
-  }, [resetTransaction, setExecuting, updateProgress]);
+    pendingCallsRef.current = null;
+    sentCallsRef.current = calls;
+
+    // Execute the multicall transaction (swap + deposit, or the regular swap alone)
+    sendTransaction(calls);
+  }, [sendTransaction, dispatch]);
+
+  const cancel = useCallback(() => {
+    pendingCallsRef.current = null;
+    dispatch({ type: 'CANCEL' });
+  }, [dispatch]);
+
+  const reset = useCallback(() => {
+    watchControllerRef.current?.abort();
+    watchControllerRef.current = null;
+    dispatch({ type: 'RESET' });
+    setExecutionSimulation(undefined);
+    resetNativeTransaction();
+    resetPaymasterTransaction();
+    setIsGaslessTransaction(false);
+  }, [resetNativeTransaction, resetPaymasterTransaction, setExecutionSimulation, dispatch]);
 
   return {
     ...executionState,
+    review: machineState.phase === 'reviewing' ? decodedCalls : null,
     executeSwap,
+    confirmReview,
+    cancel,
     reset,
   };
 };
\ No newline at end of file
@@ -1,19 +1,24 @@
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useMemo } from 'react';
 import { flushSync } from 'react-dom';
 import { Token } from '@/shared/types';
 import { STARKNET_TOKENS, POPULAR_PAIRS, DEFAULT_TOKENS } from '@/constants/tokens';
 import { useSwapQuotes, useSwapEstimation } from './useSwapQuotes';
 import { useSwapExecution } from './useSwapExecution';
 import { useSwapStore } from '../store/swapStore';
-import { formatTokenAmountDisplay } from '@/shared/utils/lib/inputValidation';
+import { formatAmount, formatAmountDisplay, percentToBps, subtractBps, tryParseAmount } from '@/shared/utils/lib/amounts';
 import { useMinimumAmountValidation } from './useMinimumAmountValidation';
+import { ApprovalPolicy, SwapMode } from '../types/swap';
+import { getGasTokenFees } from '../services/avnu';
+import { DEFAULT_APPROVAL_POLICY } from '../utils/approvalPolicy';
+import { getGasReserve, getPercentageOfBalance } from '../utils/gasReserve';
 
 export const useSwapForm = (walletAddress?: string) => {
-  // Get privacy config from store
-  const { privacy } = useSwapStore();
+  // Get privacy config and settings from store
+  const { privacy, settings, updateSettings } = useSwapStore();
   
   const [fromAmount, setFromAmount] = useState('');
   const [toAmount, setToAmount] = useState('');
+  const [swapMode, setSwapMode] = useState<SwapMode>('exact-in');
   const [fromToken, setFromToken] = useState<Token>(STARKNET_TOKENS.ETH);
   const [toToken, setToToken] = useState<Token>(STARKNET_TOKENS.STRK);
   const [isUserInputting, setIsUserInputting] = useState(false);
@@ -28,6 +33,8 @@ export const useSwapForm = (walletAddress?: string) => {
     fromToken,
     toToken,
     fromAmount,
+    toAmount,
+    swapMode,
     walletAddress,
   });
 
@@ -35,14 +42,32 @@ export const useSwapForm = (walletAddress?: string) => {
     fromToken,
     toToken,
     fromAmount,
+    toAmount,
+    swapMode,
     walletAddress,
   });
 
+  // Gas can only be paid in a token the selected quote supports; otherwise fall back to STRK
+  const gasTokenFees = useMemo(() => getGasTokenFees(swapQuotes.selectedQuote), [swapQuotes.selectedQuote]);
+  const selectedGasTokenFee = gasTokenFees.find(fee => fee.tokenAddress === settings.gasTokenAddress) ?? null;
+
+  const handleGasTokenChange = useCallback((tokenAddress?: string) => {
+    updateSettings({ gasTokenAddress: tokenAddress });
+  }, [updateSettings]);
+
+  const handleApprovalPolicyChange = useCallback((approvalPolicy: ApprovalPolicy) => {
+    updateSettings({ approvalPolicy });
+  }, [updateSettings]);
+
   // Swap execution hook with privacy configuration
   const swapExecution = useSwapExecution({
     selectedQuote: swapQuotes.selectedQuote,
     slippage,
     recipientAddress: privacy.recipientAddress || undefined,
+    recipientSplits: privacy.recipientSplits,
+    withdrawalPolicy: privacy.withdrawalPolicy,
+    gasTokenAddress: selectedGasTokenFee?.tokenAddress,
+    approvalPolicy: settings.approvalPolicy,
   });
 
   // Minimum amount validation for private swaps
@@ -77,27 +102,26 @@ export const useSwapForm = (walletAddress?: string) => {
     return avoidSymbol !== 'ETH' ? STARKNET_TOKENS.ETH : STARKNET_TOKENS.STRK;
   }, []);
 
-  const handlePercentageClick = (percentage: number, balance: string) => {
-    // Calculate percentage of balance
-    const balanceNum = parseFloat(balance);
-    if (balanceNum > 0) {
-      let amount = (balanceNum * percentage) / 100;
-      
-      // For 100%, use Math.floor to ensure we never exceed the balance due to rounding
-      if (percentage === 100) {
-        // Truncate to 6 decimal places to prevent exceeding balance
-        const multiplier = Math.pow(10, 6);
-        amount = Math.floor(amount * multiplier) / multiplier;
-      }
-      
-      setFromAmount(formatTokenAmountDisplay(amount, 6));
+  // Selling the whole balance of the fee token keeps the network fee back
+  const gasReserve = useMemo(
+    () => getGasReserve(fromToken, selectedGasTokenFee, swapQuotes.selectedQuote),
+    [fromToken, selectedGasTokenFee, swapQuotes.selectedQuote]
+  );
+
+  const handlePercentageClick = (percentage: number, balance: bigint) => {
+    // Calculate percentage of the raw balance, at full token precision so Max leaves no dust
+    if (balance > 0n) {
+      const amount = getPercentageOfBalance(balance, percentage, gasReserve);
+      setFromAmount(formatAmount(amount, fromToken.decimals));
+      setSwapMode('exact-in');
     }
   };
 
 
-  // Update toAmount when quotes change
+  // Update the amount the user did not type when quotes change
   useEffect(() => {
     const outputAmount = swapEstimation.outputAmount;
+    const inputAmount = swapEstimation.inputAmount;
     const currentQuote = swapEstimation.quote;
     
     // Don't override toAmount during direction swap to allow proper clearing
@@ -116,6 +140,18 @@ export const useSwapForm = (walletAddress?: string) => {
     }
     
     
+    // Exact-out: the user typed the amount to receive, back-solve the amount to sell
+    if (swapMode === 'exact-out') {
+      if (inputAmount && toAmount && parseFloat(toAmount) > 0) {
+        setFromAmount(inputAmount);
+        setIsEstimatingAfterSwap(false);
+      } else if (!toAmount || parseFloat(toAmount) <= 0) {
+        setFromAmount('');
+        setIsEstimatingAfterSwap(false);
+      }
+      return;
+    }
+
     if (outputAmount && fromAmount && parseFloat(fromAmount) > 0) {
       setToAmount(outputAmount);
       setIsEstimatingAfterSwap(false); // Clear estimating flag when real quotes arrive
@@ -123,7 +159,13 @@ export const useSwapForm = (walletAddress?: string) => {
       setToAmount('');
       setIsEstimatingAfterSwap(false);
     }
-  }, [swapEstimation.outputAmount, fromAmount, swapEstimation, isSwappingDirection, fromToken.address, toToken.address]);
+  }, [swapEstimation.outputAmount, swapEstimation.inputAmount, fromAmount, toAmount, swapMode, swapEstimation, isSwappingDirection, fromToken.address, toToken.address]);
+
+  // A pinned route only applies to the pair it was chosen for
+  const { unpinQuote } = swapQuotes;
+  useEffect(() => {
+    unpinQuote();
+  }, [fromToken.address, toToken.address, unpinQuote]);
 
   // Reset user inputting flag after a delay
   useEffect(() => {
@@ -145,13 +187,16 @@ export const useSwapForm = (walletAddress?: string) => {
       // Clear amounts only when we need to auto-switch tokens due to conflict
       setFromAmount('');
       setToAmount('');
+    } else if (swapMode === 'exact-out') {
+      // Different tokens - preserve the requested output, clear fromAmount to trigger new quote
+      setFromAmount('');
     } else {
       // Different tokens - preserve fromAmount, clear toAmount to trigger new quote
       setToAmount('');
     }
     setFromToken(newToken);
     setIsUserInputting(false);
-  }, [toToken.address, getAlternativeToken]);
+  }, [toToken.address, swapMode, getAlternativeToken]);
 
   const handleToTokenChange = useCallback((newToken: Token) => {
     
@@ -162,17 +207,30 @@ export const useSwapForm = (walletAddress?: string) => {
       // Clear amounts only when we need to auto-switch tokens due to conflict
       setFromAmount('');
       setToAmount('');
+    } else if (swapMode === 'exact-out') {
+      // Different tokens - the requested output is in the old token, start over
+      setFromAmount('');
+      setToAmount('');
+      setSwapMode('exact-in');
     } else {
       // Different tokens - preserve fromAmount, clear toAmount to trigger new quote
       setToAmount('');
     }
     setToToken(newToken);
     setIsUserInputting(false);
-  }, [fromToken.address, getAlternativeToken]);
+  }, [fromToken.address, swapMode, getAlternativeToken]);
 
   // Handle from amount changes
   const handleFromAmountChange = useCallback((value: string) => {
     setFromAmount(value);
+    setSwapMode('exact-in');
+    setIsUserInputting(true);
+  }, []);
+
+  // Handle to amount changes - typing the output switches to an exact-out swap
+  const handleToAmountChange = useCallback((value: string) => {
+    setToAmount(value);
+    setSwapMode('exact-out');
     setIsUserInputting(true);
   }, []);
 
@@ -182,12 +240,12 @@ export const useSwapForm = (walletAddress?: string) => {
 
   // Calculate minimum received based on slippage
   const calculateMinReceived = useCallback((amount: string, slippagePercent: number): string => {
-    if (!amount || parseFloat(amount) <= 0) return '0';
-    const amountNum = parseFloat(amount);
+    const amountRaw = tryParseAmount(amount, toToken.decimals);
+    if (amountRaw === null || amountRaw <= 0n) return '0';
     // Apply slippage to the amount (which already has Typhoon fee deducted)
-    const minReceived = amountNum * (1 - slippagePercent / 100);
-    return formatTokenAmountDisplay(minReceived, 8);
-  }, []);
+    const minReceived = subtractBps(amountRaw, percentToBps(slippagePercent));
+    return formatAmountDisplay(minReceived, toToken.decimals, 8);
+  }, [toToken.decimals]);
 
   const minReceived = calculateMinReceived(toAmount, slippage);
 
@@ -227,6 +285,9 @@ export const useSwapForm = (walletAddress?: string) => {
         setFromAmount('');
       }
       
+      // The previous output becomes the amount to sell
+      setSwapMode('exact-in');
+
       // Set additional flags
       setIsUserInputting(true);
       setIsEstimatingAfterSwap(false);
@@ -268,39 +329,53 @@ export const useSwapForm = (walletAddress?: string) => {
     minReceived,
     isEstimatingAfterSwap,
     isSwappingDirection,
+    swapMode,
 
     // Quote data
     quotes: swapQuotes.quotes,
     selectedQuote: swapQuotes.selectedQuote,
     bestQuote: swapQuotes.bestQuote,
+    pinnedQuote: swapQuotes.pinnedQuote,
     formattedQuote: swapQuotes.formattedQuote,
     isLoadingQuotes: swapQuotes.isLoading,
     quotesError: swapQuotes.error,
     isQuoteExpired: swapQuotes.isExpired,
     timeToExpiry: swapQuotes.timeToExpiry,
 
+    // Gas token for gasless execution
+    gasTokenFees,
+    selectedGasTokenFee,
+    gasReserve,
+    approvalPolicy: settings.approvalPolicy ?? DEFAULT_APPROVAL_POLICY,
+
     // Swap execution state
     isExecutingSwap: swapExecution.isLoading,
     isSwapSuccess: swapExecution.isSuccess,
     isSwapError: swapExecution.isError,
     swapError: swapExecution.error,
     transactionHash: swapExecution.transactionHash,
+    swapReview: swapExecution.review,
 
     // Minimum amount validation for private swaps
     minimumAmountValidation,
 
     // Actions
     setFromAmount: handleFromAmountChange,
-    setToAmount,
+    setToAmount: handleToAmountChange,
     setFromToken: handleFromTokenChange,
     setToToken: handleToTokenChange,
+    setGasToken: handleGasTokenChange,
+    setApprovalPolicy: handleApprovalPolicyChange,
     handlePercentageClick,
     handleSwap,
     handleSwapDirection,
     handleSlippageChange,
     refreshQuotes: swapQuotes.refetch,
     selectQuote: swapQuotes.selectQuote,
+    unpinQuote: swapQuotes.unpinQuote,
     clearQuotes: swapQuotes.clearQuotes,
     resetSwap: swapExecution.reset,
+    confirmSwapReview: swapExecution.confirmReview,
+    cancelSwap: swapExecution.cancel,
   };
 };
\ No newline at end of file
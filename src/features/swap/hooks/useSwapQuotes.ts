@@ -1,15 +1,22 @@
 import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { useState, useCallback, useEffect, useMemo } from 'react';
 import { Token, SwapQuote } from '@/shared/types';
-import { getDefaultDEX } from '../services';
+import { QuoteOrchestrator, toDisplayQuote } from '../services/quoteOrchestrator';
 import { QuoteRequest } from '../types';
-import { TYPHOON_FEE_MULTIPLIER } from '@/constants/fees';
-import { formatQuoteForDisplay, AVNUQuote, getBestQuote, isQuoteExpired as isAVNUQuoteExpired, AVNUService } from '../services/avnu';
+import { addTyphoonFee, deductTyphoonFee } from '@/constants/fees';
+import { formatAmount, toRawAmount, tryParseAmount } from '@/shared/utils/lib/amounts';
+import { SwapMode } from '../types/swap';
+import { PrivfiError, isRetryableError, toPrivfiError } from '@/core/errors';
+import { formatQuoteForDisplay, AVNUQuote, getBestQuote, isQuoteExpired as isAVNUQuoteExpired } from '../services/avnu';
+import { useSwapStore } from '../store/swapStore';
+import { getQuoteRouteKey } from '../utils/quoteComparison';
 
 export interface SwapQuoteParams {
   fromToken: Token;
   toToken: Token;
   fromAmount: string;
+  toAmount?: string; // Drives the quote in exact-out mode
+  swapMode?: SwapMode;
   walletAddress?: string;
 }
 
@@ -17,10 +24,12 @@ export interface SwapQuoteResult {
   quotes: AVNUQuote[];
   bestQuote: AVNUQuote | null;
   selectedQuote: AVNUQuote | null;
+  pinnedQuote: AVNUQuote | null; // Quote on the route the user pinned, when it is still offered
   isLoading: boolean;
-  error: string | null;
+  error: PrivfiError | null;
   refetch: () => void;
-  selectQuote: (quote: AVNUQuote) => void;
+  selectQuote: (quote: AVNUQuote) => void; // Pins the quote's route across refreshes
+  unpinQuote: () => void;
   clearQuotes: () => void;
   formattedQuote: ReturnType<typeof formatQuoteForDisplay> | null;
   isExpired: boolean;
@@ -34,11 +43,19 @@ export const useSwapQuotes = ({
   fromToken,
   toToken,
   fromAmount,
+  toAmount = '',
+  swapMode = 'exact-in',
   walletAddress,
 }: SwapQuoteParams): SwapQuoteResult => {
   const queryClient = useQueryClient();
+  const { pinnedRouteKey, setPinnedRouteKey } = useSwapStore();
   const [selectedQuote, setSelectedQuote] = useState<AVNUQuote | null>(null);
   const [timeToExpiry, setTimeToExpiry] = useState(0);
+  const quoteOrchestrator = useMemo(() => new QuoteOrchestrator(), []);
+
+  // The amount the user typed: sold in exact-in mode, received in exact-out mode
+  const isExactOut = swapMode === 'exact-out';
+  const drivingAmount = isExactOut ? toAmount : fromAmount;
 
   // Create query key for caching - add version to force cache invalidation
   const queryKey = useMemo(() => [
@@ -46,48 +63,41 @@ export const useSwapQuotes = ({
     'v2', // Version bump to clear old cached errors
     fromToken.address,
     toToken.address,
-    fromAmount,
+    swapMode,
+    drivingAmount,
     walletAddress,
-  ], [fromToken.address, toToken.address, fromAmount, walletAddress]);
+  ], [fromToken.address, toToken.address, swapMode, drivingAmount, walletAddress]);
 
   // Determine if we should fetch quotes
   const shouldFetch = Boolean(
     fromToken.address &&
     toToken.address &&
     fromToken.address !== toToken.address &&
-    fromAmount &&
-    parseFloat(fromAmount) > 0
+    (tryParseAmount(drivingAmount, isExactOut ? toToken.decimals : fromToken.decimals) ?? 0n) > 0n
   );
 
   // Prepare quote request parameters
+  // In exact-out mode the buy amount is grossed up so the Typhoon fee is covered
   const quoteParams: QuoteRequest = {
     sellToken: fromToken,
     buyToken: toToken,
-    sellAmount: fromAmount ? convertToSmallestUnit(fromAmount, fromToken.decimals) : undefined,
+    sellAmount: !isExactOut && fromAmount ? convertToSmallestUnit(fromAmount, fromToken.decimals) : undefined,
+    buyAmount: isExactOut && toAmount ? convertToGrossBuyAmount(toAmount, toToken.decimals) : undefined,
     takerAddress: walletAddress,
   };
 
-  // Helper function to safely convert decimal amount to smallest unit using BigInt
-  function convertToSmallestUnit(amount: string, decimals: number): string {
-    try {
-      // Split the amount into integer and decimal parts
-      const [integerPart, decimalPart = ''] = amount.split('.');
-      
-      // Pad or truncate decimal part to match token decimals
-      const paddedDecimalPart = decimalPart.padEnd(decimals, '0').slice(0, decimals);
-      
-      // Combine integer and decimal parts
-      const fullNumberString = integerPart + paddedDecimalPart;
-      
-      // Convert to BigInt and then back to string
-      return BigInt(fullNumberString).toString();
-    } catch (error) {
-      // Fallback to original method for backwards compatibility
-      return (parseFloat(amount) * Math.pow(10, decimals)).toString();
-    }
+  // Convert a decimal amount to the token's smallest unit
+  function convertToSmallestUnit(amount: string, decimals: number): string | undefined {
+    return tryParseAmount(amount, decimals)?.toString();
   }
 
-  // Fetch quotes using React Query - get raw AVNU quotes
+  // Amount to buy so that the net amount after the Typhoon fee equals the requested output
+  function convertToGrossBuyAmount(amount: string, decimals: number): string | undefined {
+    const rawAmount = tryParseAmount(amount, decimals);
+    return rawAmount === null ? undefined : addTyphoonFee(rawAmount).toString();
+  }
+
+  // Fetch quotes from every aggregator using React Query
   const {
     data: quotes,
     isLoading,
@@ -95,31 +105,31 @@ export const useSwapQuotes = ({
     refetch,
   } = useQuery({
     queryKey,
-    queryFn: async () => {
-      // Get raw AVNU quotes directly
-      const dex = await getDefaultDEX();
-      if (dex.name !== 'AVNU') {
-        throw new Error('Only AVNU DEX is supported');
-      }
-      // Use the new getRawQuotes method
-      return (dex as AVNUService).getRawQuotes(quoteParams);
+    // React Query aborts the signal when the inputs change, cancelling the outdated requests
+    queryFn: async ({ signal }) => {
+      const { quotes } = await quoteOrchestrator.getQuotes(quoteParams, signal);
+      return quotes.map(quote => toDisplayQuote(quote, quoteParams));
     },
     enabled: shouldFetch,
     staleTime: QUOTE_STALE_TIME,
     refetchInterval: QUOTE_REFRESH_INTERVAL,
-    retry: 2,
+    retry: (failureCount, error) => failureCount < 2 && isRetryableError(error),
     retryDelay: (attemptIndex) => Math.min(1000 * 2 ** attemptIndex, 10000),
   });
 
   const quotesArray = quotes || [];
-  const bestQuote = quotesArray.length > 0 ? getBestQuote(quotesArray) : null;
+  const bestQuote = quotesArray.length > 0 ? getBestQuote(quotesArray, swapMode) : null;
+  const pinnedQuote = pinnedRouteKey
+    ? quotesArray.find(quote => getQuoteRouteKey(quote) === pinnedRouteKey) ?? null
+    : null;
 
-  // Auto-select best quote when quotes change
+  // Auto-select the pinned route when it is still offered, otherwise the best quote
+  const preferredQuote = pinnedQuote ?? bestQuote;
   useEffect(() => {
-    if (bestQuote && (!selectedQuote || selectedQuote.quoteId !== bestQuote.quoteId)) {
-      setSelectedQuote(bestQuote);
+    if (preferredQuote && (!selectedQuote || selectedQuote.quoteId !== preferredQuote.quoteId)) {
+      setSelectedQuote(preferredQuote);
     }
-  }, [bestQuote, selectedQuote]);
+  }, [preferredQuote, selectedQuote]);
 
   // Update time to expiry
   useEffect(() => {
@@ -149,10 +159,15 @@ export const useSwapQuotes = ({
     }
   }, [timeToExpiry, selectedQuote, refetch]);
 
-  // Select a specific quote
+  // Select a specific quote and keep its route selected when quotes refresh
   const selectQuote = useCallback((quote: AVNUQuote) => {
+    setPinnedRouteKey(getQuoteRouteKey(quote));
     setSelectedQuote(quote);
-  }, []);
+  }, [setPinnedRouteKey]);
+
+  const unpinQuote = useCallback(() => {
+    setPinnedRouteKey(null);
+  }, [setPinnedRouteKey]);
 
   // Manual refetch with cache invalidation
   const handleRefetch = useCallback(() => {
@@ -172,7 +187,7 @@ export const useSwapQuotes = ({
   const isExpired = selectedQuote ? isAVNUQuoteExpired(selectedQuote) : false;
 
   // Handle errors
-  const errorMessage = error instanceof Error ? error.message : null;
+  const quotesError = error ? toPrivfiError(error, 'QUOTE_UNAVAILABLE') : null;
 
   // Format selected quote for display using proper AVNU formatting
   const formattedQuote = selectedQuote && fromToken && toToken 
@@ -189,10 +204,12 @@ export const useSwapQuotes = ({
     quotes: quotesArray,
     bestQuote,
     selectedQuote,
+    pinnedQuote,
     isLoading,
-    error: errorMessage,
+    error: quotesError,
     refetch: handleRefetch,
     selectQuote,
+    unpinQuote,
     clearQuotes,
     formattedQuote,
     isExpired,
@@ -226,30 +243,28 @@ export const useSwapEstimation = (params: SwapQuoteParams) => {
     if (!selectedQuote || !selectedQuote.buyAmount) return '';
 
     try {
-      // Parse hex string to decimal
-      const buyAmountDecimal = parseInt(selectedQuote.buyAmount, 16);
-
-      if (isNaN(buyAmountDecimal)) {
-        return '';
-      }
-
-      // Convert to token units by dividing by 10^decimals
-      const tokenAmount = buyAmountDecimal / Math.pow(10, params.toToken.decimals);
-
-      // Deduct Typhoon SDK fee (0.50%)
-      const tokenAmountAfterTyphoonFee = tokenAmount * TYPHOON_FEE_MULTIPLIER;
+      // Deduct Typhoon SDK fee (0.50%) from the raw buy amount
+      const buyAmountAfterTyphoonFee = deductTyphoonFee(toRawAmount(selectedQuote.buyAmount));
+      return formatAmount(buyAmountAfterTyphoonFee, params.toToken.decimals, 8);
+    } catch (error) {
+      return '';
+    }
+  }, [selectedQuote, params.toToken.decimals]);
 
-      // Format to reasonable decimal places and remove trailing zeros
-      const formatted = tokenAmountAfterTyphoonFee.toFixed(8).replace(/\.?0+$/, '');
+  // Back-solve the amount to sell for exact-out quotes
+  const inputAmount = useMemo(() => {
+    if (!selectedQuote || !selectedQuote.sellAmount) return '';
 
-      return formatted;
+    try {
+      return formatAmount(toRawAmount(selectedQuote.sellAmount), params.fromToken.decimals, 8);
     } catch (error) {
       return '';
     }
-  }, [selectedQuote, params.toToken.decimals]);
+  }, [selectedQuote, params.fromToken.decimals]);
 
   return {
     outputAmount,
+    inputAmount,
     isLoading,
     error,
     quote: selectedQuote,
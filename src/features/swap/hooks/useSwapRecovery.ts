@@ -0,0 +1,164 @@
+import { useEffect, useMemo } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { toast } from '@/shared/components/ui/sonner';
+import { TRANSACTION_CONFIG } from '@/core/config';
+import {
+  SwapJournalEntry,
+  SWAP_JOURNAL_SESSION_ID,
+  clearSwapJournalEntry,
+  getInterruptedSwaps,
+  getSwapJournal,
+  updateSwapJournalEntry,
+} from '../utils/swapJournal';
+import {
+  loadTyphoonDepositData,
+  scheduleTyphoonWithdrawal,
+  updateTyphoonDepositStatus,
+} from '../utils/typhoonStorage';
+import { resolveWithdrawalTime } from '../utils/withdrawalPolicy';
+import { TransactionFailedError, TransactionWatcher } from '../services/transactionWatcher';
+import { useSwapHistoryStore } from '../store/swapHistoryStore';
+import { useTyphoonVault } from './useTyphoonVault';
+import { TYPHOON_DEPOSITS_QUERY_KEY } from './useTyphoonDeposits';
+
+const RECOVERY_INTERVAL_MS = 30000; // 30 seconds
+
+type TransactionOutcome =
+  | { status: 'pending' }
+  | { status: 'succeeded' }
+  | { status: 'failed'; reason: string };
+
+async function getTransactionOutcome(watcher: TransactionWatcher, entry: SwapJournalEntry): Promise<TransactionOutcome> {
+  const update = await watcher.getStatus(entry.transactionHash);
+
+  if (update.status === 'REVERTED' || update.status === 'REJECTED') {
+    return { status: 'failed', reason: new TransactionFailedError(update).message };
+  }
+  if (update.status === 'NOT_FOUND' && Date.now() - entry.createdAt > TRANSACTION_CONFIG.droppedAfterMs) {
+    return { status: 'failed', reason: new TransactionFailedError(update).message };
+  }
+  if (
+    (update.status === 'ACCEPTED_ON_L2' || update.status === 'ACCEPTED_ON_L1') &&
+    update.confirmations >= watcher.getConfirmationBlocks()
+  ) {
+    return { status: 'succeeded' };
+  }
+  return { status: 'pending' };
+}
+
+/**
+ * Resumes swaps that were confirming or withdrawing when an earlier page load ended.
+ * Accepted private swaps are handed to the withdrawal scheduler, failed ones are
+ * marked failed with what the user can do next.
+ */
+export const useSwapRecovery = () => {
+  const queryClient = useQueryClient();
+  const { isUnlocked } = useTyphoonVault();
+  const updateHistoryEntry = useSwapHistoryStore(state => state.updateEntry);
+  const transactionWatcher = useMemo(() => new TransactionWatcher(), []);
+
+  useEffect(() => {
+    if (!isUnlocked) return;
+
+    let cancelled = false;
+    let isRunning = false;
+
+    const markFailed = async (entry: SwapJournalEntry, reason: string, recovery: string) => {
+      await updateSwapJournalEntry(entry.transactionHash, { phase: 'failed', lastError: reason });
+      toast.error('Interrupted swap failed', {
+        description: `${reason}. ${recovery}`,
+        duration: 10000,
+      });
+    };
+
+    const resumeSwap = async (entry: SwapJournalEntry) => {
+      const outcome = await getTransactionOutcome(transactionWatcher, entry);
+      if (outcome.status === 'pending') return;
+
+      const { transactionHash } = entry;
+      const deposit = entry.isPrivateSwap ? await loadTyphoonDepositData(transactionHash) : null;
+
+      updateHistoryEntry(transactionHash, outcome.status === 'failed'
+        ? { status: 'failed', error: outcome.reason }
+        : { status: 'confirmed' });
+
+      if (outcome.status === 'failed') {
+        if (deposit) {
+          await updateTyphoonDepositStatus(transactionHash, 'failed', `Swap transaction failed: ${outcome.reason}`);
+        }
+        await markFailed(entry, outcome.reason, 'The swap did not go through, so your tokens are still in your wallet.');
+        return;
+      }
+
+      if (!entry.isPrivateSwap || deposit?.status === 'withdrawn') {
+        await updateSwapJournalEntry(transactionHash, { phase: 'completed' });
+        return;
+      }
+
+      if (!deposit) {
+        await markFailed(
+          entry,
+          'The deposit notes were not saved before the page closed',
+          'This deposit cannot be withdrawn from this device.'
+        );
+        return;
+      }
+
+      if (deposit.status === 'failed') {
+        await markFailed(entry, deposit.lastError || 'The withdrawal failed', 'Retry it from the Withdrawals page.');
+        return;
+      }
+
+      // Deposits without a schedule get the one the swap was started with,
+      // an immediate policy makes the withdrawal due right away
+      let scheduledAt = deposit.scheduledAt ?? null;
+      if (!deposit.recipientAddresses?.length) {
+        scheduledAt = resolveWithdrawalTime(entry.withdrawalPolicy);
+        await scheduleTyphoonWithdrawal(transactionHash, entry.recipientAddresses, scheduledAt, entry.splitPercentages);
+      }
+
+      await updateSwapJournalEntry(transactionHash, { phase: 'completed' });
+      toast.success('Resumed interrupted swap', {
+        description: scheduledAt
+          ? `Withdrawal scheduled for ${new Date(scheduledAt).toLocaleTimeString()}`
+          : 'Deposit saved - withdraw it from the Withdrawals page',
+        duration: 8000,
+      });
+    };
+
+    const recoverSwaps = async () => {
+      // Receipt checks can outlast the polling interval; never overlap runs
+      if (isRunning) return;
+      isRunning = true;
+
+      try {
+        const journal = await getSwapJournal();
+
+        // Finished swaps of earlier sessions have nothing left to recover
+        journal
+          .filter(entry => entry.phase === 'completed' && entry.sessionId !== SWAP_JOURNAL_SESSION_ID)
+          .forEach(entry => clearSwapJournalEntry(entry.transactionHash));
+
+        for (const entry of getInterruptedSwaps(journal)) {
+          if (cancelled) break;
+          try {
+            await resumeSwap(entry);
+          } catch (error) {
+            // Retried on the next run
+          }
+        }
+      } finally {
+        isRunning = false;
+        queryClient.invalidateQueries({ queryKey: TYPHOON_DEPOSITS_QUERY_KEY });
+      }
+    };
+
+    recoverSwaps();
+    const interval = setInterval(recoverSwaps, RECOVERY_INTERVAL_MS);
+
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [isUnlocked, transactionWatcher, queryClient, updateHistoryEntry]);
+};
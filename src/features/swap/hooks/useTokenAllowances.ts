@@ -0,0 +1,109 @@
+import { useMemo } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useProvider, useSendTransaction } from '@starknet-react/core';
+import { toast } from '@/shared/components/ui/sonner';
+import { STARKNET_TOKENS } from '@/constants/tokens';
+import { API_CONFIG, MOCK_CONFIG } from '@/core/config';
+import { getUserErrorMessage, toPrivfiError } from '@/core/errors';
+import { AllowanceService } from '../services/allowances';
+import { TransactionWatcher } from '../services/transactionWatcher';
+import { getKnownContractLabel } from '../utils/callDecoder';
+import { TrackedApproval, createApproveCall, getAllowanceKey, getTrackedApprovals } from '../utils/approvalPolicy';
+
+export interface TokenAllowance extends TrackedApproval {
+  allowance: bigint | null; // Null when the allowance could not be read
+  error?: string;
+}
+
+export const TOKEN_ALLOWANCES_QUERY_KEY = ['tokenAllowances'] as const;
+
+// The built-in tokens may have been approved to the routers and Typhoon outside of Privfi, or in another browser
+const getKnownSpenderApprovals = (): TrackedApproval[] =>
+  [API_CONFIG.avnu.routerAddress, API_CONFIG.fibrous.routerAddress, API_CONFIG.typhoon.contractAddress].flatMap(spender =>
+    Object.values(STARKNET_TOKENS).map(token => ({
+      tokenAddress: token.address,
+      spender,
+      spenderLabel: getKnownContractLabel(spender) ?? 'Unknown spender',
+    }))
+  );
+
+/**
+ * Outstanding allowances of the wallet to the routers and Typhoon, and a revoke action for each
+ */
+export const useTokenAllowances = (walletAddress?: string) => {
+  const queryClient = useQueryClient();
+  const { provider } = useProvider();
+  const { sendAsync } = useSendTransaction({});
+  const allowanceService = useMemo(() => new AllowanceService(provider), [provider]);
+  const transactionWatcher = useMemo(() => new TransactionWatcher(), []);
+
+  const {
+    data: allowances,
+    isLoading,
+    error,
+    refetch,
+  } = useQuery({
+    queryKey: [...TOKEN_ALLOWANCES_QUERY_KEY, walletAddress],
+    enabled: !!walletAddress && !MOCK_CONFIG.enabled,
+    queryFn: async (): Promise<TokenAllowance[]> => {
+      const owner = walletAddress as string;
+      const approvals = new Map<string, TrackedApproval>();
+      // Tracked approvals carry the better label, so they win over the known spender defaults
+      [...getKnownSpenderApprovals(), ...getTrackedApprovals()].forEach(approval =>
+        approvals.set(getAllowanceKey(approval.tokenAddress, approval.spender), approval)
+      );
+
+      const amounts = await allowanceService.readAllowances(owner, [...approvals.values()]);
+      const failures = [...amounts.values()].filter((amount): amount is Error => amount instanceof Error);
+      // Nothing could be read, most likely the node is down, which must not look like no allowances
+      if (failures.length > 0 && failures.length === amounts.size) {
+        throw toPrivfiError(failures[0], 'RPC_UNAVAILABLE');
+      }
+
+      return [...approvals.entries()]
+        .map(([key, approval]): TokenAllowance => {
+          const amount = amounts.get(key) ?? BigInt(0);
+          return amount instanceof Error
+            ? { ...approval, allowance: null, error: toPrivfiError(amount, 'RPC_UNAVAILABLE').userMessage }
+            : { ...approval, allowance: amount };
+        })
+        // Unread allowances stay listed, they may still be outstanding
+        .filter(approval => approval.allowance === null || approval.allowance > BigInt(0));
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (approval: TrackedApproval) => {
+      const { transaction_hash } = await sendAsync([createApproveCall(approval.tokenAddress, approval.spender, BigInt(0))]);
+      await transactionWatcher.watch(transaction_hash);
+    },
+    onSuccess: () => {
+      toast.success('Allowance revoked!', {
+        duration: 5000,
+      });
+    },
+    onError: (error) => {
+      toast.error('Revoke failed!', {
+        description: getUserErrorMessage(error),
+        duration: 8000,
+      });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: TOKEN_ALLOWANCES_QUERY_KEY });
+    },
+  });
+
+  const revokingKey = revokeMutation.isPending && revokeMutation.variables
+    ? getAllowanceKey(revokeMutation.variables.tokenAddress, revokeMutation.variables.spender)
+    : null;
+
+  return {
+    allowances: allowances || [],
+    isLoading,
+    error: error ? toPrivfiError(error) : null,
+    refetch,
+    revoke: revokeMutation.mutate,
+    isRevoking: revokeMutation.isPending,
+    revokingKey,
+  };
+};
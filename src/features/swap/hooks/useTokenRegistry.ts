@@ -0,0 +1,53 @@
+import { useMemo } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from '@/shared/components/ui/sonner';
+import { STARKNET_TOKENS } from '@/constants/tokens';
+import { TOKEN_LIST_CONFIG } from '@/core/config';
+import { TokenRegistryService } from '../services/tokenRegistry';
+
+export const TOKEN_LIST_QUERY_KEY = ['tokenList'] as const;
+
+/**
+ * Selectable tokens and an action to import a custom token by address
+ */
+export const useTokenRegistry = () => {
+  const queryClient = useQueryClient();
+  const tokenRegistry = useMemo(() => new TokenRegistryService(), []);
+
+  const {
+    data: tokens,
+    isLoading,
+  } = useQuery({
+    queryKey: TOKEN_LIST_QUERY_KEY,
+    queryFn: () => tokenRegistry.getTokens(),
+    staleTime: TOKEN_LIST_CONFIG.cacheTtlMs,
+  });
+
+  const importMutation = useMutation({
+    mutationFn: (address: string) => tokenRegistry.importToken(address),
+    onSuccess: (token) => {
+      if (token.verified === false) {
+        toast.warning(`Imported ${token.symbol}`, {
+          description: 'This token is not verified. Make sure you trust its contract before swapping.',
+          duration: 8000,
+        });
+      }
+    },
+    onError: (error) => {
+      toast.error('Token import failed!', {
+        description: error instanceof Error ? error.message : 'Unknown error',
+        duration: 8000,
+      });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: TOKEN_LIST_QUERY_KEY });
+    },
+  });
+
+  return {
+    tokens: tokens || Object.values(STARKNET_TOKENS),
+    isLoading,
+    importToken: importMutation.mutateAsync,
+    isImporting: importMutation.isPending,
+  };
+};
@@ -0,0 +1,63 @@
+import { useMemo } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from '@/shared/components/ui/sonner';
+import { getUserErrorMessage, toPrivfiError } from '@/core/errors';
+import { createTyphoonService } from '../services/registry';
+import { getTyphoonDepositHistory } from '../utils/typhoonStorage';
+import { useTyphoonVault } from './useTyphoonVault';
+
+export interface WithdrawDepositParams {
+  transactionHash: string;
+  recipientAddresses: string[];
+  splitPercentages?: number[];
+}
+
+export const TYPHOON_DEPOSITS_QUERY_KEY = ['typhoonDeposits'] as const;
+
+/**
+ * Stored Typhoon deposits and a manual withdrawal action for each of them
+ */
+export const useTyphoonDeposits = () => {
+  const queryClient = useQueryClient();
+  const { isUnlocked } = useTyphoonVault();
+  const typhoonService = useMemo(() => createTyphoonService(), []);
+
+  const {
+    data: deposits,
+    isLoading,
+    error,
+    refetch,
+  } = useQuery({
+    // Re-read storage whenever the vault is locked or unlocked
+    queryKey: [...TYPHOON_DEPOSITS_QUERY_KEY, isUnlocked],
+    queryFn: getTyphoonDepositHistory,
+  });
+
+  const withdrawMutation = useMutation({
+    mutationFn: (params: WithdrawDepositParams) => typhoonService.withdraw(params),
+    onSuccess: () => {
+      toast.success('Withdrawal completed!', {
+        duration: 5000,
+      });
+    },
+    onError: (error) => {
+      toast.error('Withdrawal failed!', {
+        description: getUserErrorMessage(error, 'WITHDRAWAL_FAILED'),
+        duration: 8000,
+      });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: TYPHOON_DEPOSITS_QUERY_KEY });
+    },
+  });
+
+  return {
+    deposits: deposits || [],
+    isLoading,
+    error: error ? toPrivfiError(error) : null,
+    refetch,
+    withdraw: withdrawMutation.mutate,
+    isWithdrawing: withdrawMutation.isPending,
+    withdrawingHash: withdrawMutation.isPending ? withdrawMutation.variables?.transactionHash ?? null : null,
+  };
+};
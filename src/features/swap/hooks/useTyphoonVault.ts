@@ -0,0 +1,42 @@
+import { useCallback, useEffect, useSyncExternalStore } from 'react';
+import {
+  getTyphoonVaultStatus,
+  subscribeToTyphoonVault,
+  createTyphoonVault,
+  unlockTyphoonVault,
+  lockTyphoonVault,
+  touchTyphoonVault,
+} from '../utils/typhoonVault';
+
+// User interactions that count as activity for the idle auto-lock
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'wheel', 'touchstart'] as const;
+
+export const useTyphoonVault = () => {
+  const status = useSyncExternalStore(subscribeToTyphoonVault, getTyphoonVaultStatus);
+  const isUnlocked = status === 'unlocked';
+
+  // Keep the vault open while the user is interacting with the page
+  useEffect(() => {
+    if (!isUnlocked) return;
+
+    const handleActivity = () => touchTyphoonVault();
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, handleActivity, { passive: true }));
+
+    return () => {
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, handleActivity));
+    };
+  }, [isUnlocked]);
+
+  const create = useCallback((passphrase: string) => createTyphoonVault(passphrase), []);
+  const unlock = useCallback((passphrase: string) => unlockTyphoonVault(passphrase), []);
+  const lock = useCallback(() => lockTyphoonVault(), []);
+
+  return {
+    status,
+    isUnlocked,
+    isInitialized: status !== 'uninitialized',
+    create,
+    unlock,
+    lock,
+  };
+};
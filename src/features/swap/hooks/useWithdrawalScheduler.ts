@@ -0,0 +1,77 @@
+import { useEffect, useMemo } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { toast } from '@/shared/components/ui/sonner';
+import { getUserErrorMessage } from '@/core/errors';
+import { createTyphoonService } from '../services/registry';
+import { getTyphoonDepositHistory, isTyphoonWithdrawalInFlight } from '../utils/typhoonStorage';
+import { getDueWithdrawals } from '../utils/withdrawalPolicy';
+import { useTyphoonVault } from './useTyphoonVault';
+import { TYPHOON_DEPOSITS_QUERY_KEY } from './useTyphoonDeposits';
+
+const SCHEDULER_INTERVAL_MS = 30000; // 30 seconds
+
+/**
+ * Runs scheduled private withdrawals once they are due.
+ * Schedules live in the encrypted deposit records, so they survive page reloads
+ * and resume as soon as the vault is unlocked again.
+ */
+export const useWithdrawalScheduler = () => {
+  const queryClient = useQueryClient();
+  const { isUnlocked } = useTyphoonVault();
+  const typhoonService = useMemo(() => createTyphoonService(), []);
+
+  useEffect(() => {
+    if (!isUnlocked) return;
+
+    let cancelled = false;
+    let isRunning = false;
+
+    const runDueWithdrawals = async () => {
+      // A withdrawal can outlast the polling interval; never overlap runs
+      if (isRunning) return;
+      isRunning = true;
+
+      try {
+        await withdrawDueDeposits();
+      } finally {
+        isRunning = false;
+      }
+    };
+
+    const withdrawDueDeposits = async () => {
+      const dueDeposits = getDueWithdrawals(await getTyphoonDepositHistory());
+
+      // Run one at a time: the SDK holds the state of a single deposit
+      for (const deposit of dueDeposits) {
+        // Deposits withdrawn from the Withdrawals page or by a swap are left to that withdrawal
+        if (cancelled || isTyphoonWithdrawalInFlight(deposit.transactionHash)) continue;
+
+        try {
+          await typhoonService.withdraw({
+            transactionHash: deposit.transactionHash,
+            recipientAddresses: deposit.recipientAddresses!,
+            splitPercentages: deposit.splitPercentages,
+          });
+          toast.success('Scheduled withdrawal completed!', {
+            duration: 5000,
+          });
+        } catch (error) {
+          toast.error('Scheduled withdrawal failed!', {
+            description: getUserErrorMessage(error, 'WITHDRAWAL_FAILED'),
+            duration: 8000,
+          });
+        } finally {
+          queryClient.invalidateQueries({ queryKey: TYPHOON_DEPOSITS_QUERY_KEY });
+        }
+      }
+    };
+
+    runDueWithdrawals();
+    const interval = setInterval(runDueWithdrawals, SCHEDULER_INTERVAL_MS);
+
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [isUnlocked, typhoonService, queryClient]);
+};
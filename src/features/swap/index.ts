@@ -6,6 +6,15 @@ export { TokenSelector } from './components/TokenSelector';
 export { TransactionDetails } from './components/TransactionDetails';
 export { PercentageButtons } from './components/PercentageButtons';
 export { SwapErrorBoundary } from './components/SwapErrorBoundary';
+export { TyphoonVaultDialog } from './components/TyphoonVaultDialog';
+export { WithdrawalsDashboard } from './components/WithdrawalsDashboard';
+export { WithdrawalPolicySelector } from './components/WithdrawalPolicySelector';
+export { TyphoonBackupDialog } from './components/TyphoonBackupDialog';
+export { GasTokenSelector } from './components/GasTokenSelector';
+export { QuoteComparisonPanel } from './components/QuoteComparisonPanel';
+export { SwapReviewDialog } from './components/SwapReviewDialog';
+export { AllowancesDashboard } from './components/AllowancesDashboard';
+export { SwapHistoryDashboard } from './components/SwapHistoryDashboard';
 
 // Hooks
 export * from './hooks';
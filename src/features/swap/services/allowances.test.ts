@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { ProviderInterface } from 'starknet';
+import { getAllowanceKey } from '../utils/approvalPolicy';
+import { AllowanceService } from './allowances';
+
+const OWNER = '0xa';
+const SPENDER = '0xb';
+const READABLE = '0x1';
+const UNREADABLE = '0x2';
+
+// Node that knows the allowance of one token and fails to read any other
+const provider = {
+  callContract: async ({ contractAddress }: { contractAddress: string }) => {
+    if (contractAddress !== READABLE) throw new Error('fetch failed');
+    return ['0x5', '0x1'];
+  },
+} as unknown as ProviderInterface;
+
+const pairs = [{ tokenAddress: READABLE, spender: SPENDER }, { tokenAddress: UNREADABLE, spender: SPENDER }];
+
+describe('AllowanceService', () => {
+  it('keeps the error of an allowance that cannot be read', async () => {
+    const allowances = await new AllowanceService(provider).readAllowances(OWNER, pairs);
+    expect(allowances.get(getAllowanceKey(READABLE, SPENDER))).toBe(5n + (1n << 128n));
+    expect(allowances.get(getAllowanceKey(UNREADABLE, SPENDER))).toBeInstanceOf(Error);
+  });
+
+  it('counts unreadable allowances as none when sizing approvals', async () => {
+    const allowances = await new AllowanceService(provider).getAllowances(OWNER, pairs);
+    expect(allowances.get(getAllowanceKey(UNREADABLE, SPENDER))).toBe(0n);
+  });
+});
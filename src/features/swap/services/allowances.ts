@@ -0,0 +1,55 @@
+import { ProviderInterface } from 'starknet';
+import { ApprovalRequirement, getAllowanceKey } from '../utils/approvalPolicy';
+
+/**
+ * Reads ERC20 allowances through the app's provider
+ */
+export class AllowanceService {
+  private provider: ProviderInterface;
+
+  constructor(provider: ProviderInterface) {
+    this.provider = provider;
+  }
+
+  async getAllowance(tokenAddress: string, owner: string, spender: string): Promise<bigint> {
+    const [low, high] = await this.provider.callContract({
+      contractAddress: tokenAddress,
+      entrypoint: 'allowance',
+      calldata: [owner, spender],
+    });
+    if (low === undefined) {
+      throw new Error(`Invalid allowance response from ${tokenAddress}`);
+    }
+    return BigInt(low) + (BigInt(high ?? '0x0') << BigInt(128));
+  }
+
+  /**
+   * Current allowance for each token and spender pair, keyed by getAllowanceKey.
+   * Pairs that cannot be read hold the error of the failed read instead.
+   */
+  async readAllowances(
+    owner: string,
+    pairs: Pick<ApprovalRequirement, 'tokenAddress' | 'spender'>[]
+  ): Promise<Map<string, bigint | Error>> {
+    const allowances = new Map<string, bigint | Error>();
+
+    await Promise.all(pairs.map(async ({ tokenAddress, spender }) => {
+      try {
+        allowances.set(getAllowanceKey(tokenAddress, spender), await this.getAllowance(tokenAddress, owner, spender));
+      } catch (error) {
+        allowances.set(getAllowanceKey(tokenAddress, spender), error instanceof Error ? error : new Error(String(error)));
+      }
+    }));
+
+    return allowances;
+  }
+
+  /**
+   * Current allowance for each token and spender pair, keyed by getAllowanceKey.
+   * Pairs that cannot be read count as no allowance, so their approval is kept.
+   */
+  async getAllowances(owner: string, pairs: Pick<ApprovalRequirement, 'tokenAddress' | 'spender'>[]): Promise<Map<string, bigint>> {
+    const allowances = await this.readAllowances(owner, pairs);
+    return new Map([...allowances].map(([key, allowance]) => [key, allowance instanceof Error ? BigInt(0) : allowance]));
+  }
+}
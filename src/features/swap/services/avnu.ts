@@ -1,10 +1,16 @@
+import { Call } from 'starknet';
 import { BaseDEXService } from './baseDEX';
+import type { DEXProvider } from './dexFactory';
 import { Token, SwapQuote, SwapRoute, GasEstimate } from '@/shared/types';
 import { QuoteRequest, QuoteResponse, ExecuteSwapRequest, ExecuteSwapResponse } from '../types';
-import { BuildSwapRequest, BuildSwapResponse } from '../types/swap';
-import { API_CONFIG, INTEGRATOR_CONFIG } from '@/core/config';
-import { withRetry } from '@/core/api';
+import { BuildSwapRequest, BuildSwapResponse, SwapMode } from '../types/swap';
+import { API_CONFIG, INTEGRATOR_CONFIG, TOKEN_LIST_CONFIG } from '@/core/config';
+import { AVNUApiClient, avnuApiClient, withRetry } from '@/core/api';
+import { PrivfiError } from '@/core/errors';
 import { BuildSwapService } from './buildSwap';
+import { STARKNET_TOKENS } from '@/constants/tokens';
+import { getNetOutputAmount } from '../utils/quoteRanking';
+import { toAmountNumber, toRawAmount } from '@/shared/utils/lib/amounts';
 
 // AVNU-specific types (internal)
 interface AVNUQuoteRequest {
@@ -56,6 +62,24 @@ interface AVNUQuote {
   };
   exactTokenTo: boolean;
   estimatedSlippage: number;
+  // Set by the quote orchestrator; quotes from other aggregators are mapped into this shape
+  provider?: DEXProvider;
+  swapQuote?: SwapQuote;
+}
+
+interface AVNUToken {
+  address: string;
+  name: string;
+  symbol: string;
+  decimals: number;
+  logoUri: string | null;
+  tags: string[];
+}
+
+interface AVNUTokenPage {
+  content: AVNUToken[];
+  totalPages: number;
+  totalElements: number;
 }
 
 interface AVNURoute {
@@ -68,19 +92,21 @@ interface AVNURoute {
 }
 
 export class AVNUService extends BaseDEXService {
+  private client: AVNUApiClient;
   private buildService: BuildSwapService;
 
-  constructor() {
+  constructor(client: AVNUApiClient = avnuApiClient) {
     super('AVNU', API_CONFIG.avnu.baseUrl, API_CONFIG.avnu.timeout);
-    this.buildService = new BuildSwapService();
+    this.client = client;
+    this.buildService = new BuildSwapService(client);
   }
 
-  async getQuotes(request: QuoteRequest): Promise<QuoteResponse> {
+  async getQuotes(request: QuoteRequest, signal?: AbortSignal): Promise<QuoteResponse> {
     const avnuRequest = this.mapToAVNURequest(request);
     
     const quotes = await withRetry(
-      () => this.fetchAVNUQuotes(avnuRequest),
-      { maxRetries: 2, delayMs: 1000, backoffMultiplier: 1.5 }
+      () => this.fetchAVNUQuotes(avnuRequest, signal),
+      { maxRetries: 2, delayMs: 1000, backoffMultiplier: 1.5, signal }
     );
     
     const mappedQuotes = quotes.map(quote => this.mapFromAVNUQuote(quote));
@@ -93,17 +119,27 @@ export class AVNUService extends BaseDEXService {
   }
 
   // Method to get raw AVNU quotes without domain mapping
-  async getRawQuotes(request: QuoteRequest): Promise<AVNUQuote[]> {
+  async getRawQuotes(request: QuoteRequest, signal?: AbortSignal): Promise<AVNUQuote[]> {
     const avnuRequest = this.mapToAVNURequest(request);
     
     return withRetry(
-      () => this.fetchAVNUQuotes(avnuRequest),
-      { maxRetries: 2, delayMs: 1000, backoffMultiplier: 1.5 }
+      () => this.fetchAVNUQuotes(avnuRequest, signal),
+      { maxRetries: 2, delayMs: 1000, backoffMultiplier: 1.5, signal }
     );
   }
 
-  async buildSwap(request: BuildSwapRequest): Promise<BuildSwapResponse> {
-    return this.buildService.buildSwap(request);
+  async buildSwap(request: BuildSwapRequest, signal?: AbortSignal): Promise<BuildSwapResponse> {
+    return this.buildService.buildSwap(request, signal);
+  }
+
+  async buildSwapCalls(request: ExecuteSwapRequest): Promise<Call[]> {
+    const response = await this.buildService.buildSwap({
+      quoteId: request.quote.id,
+      takerAddress: request.takerAddress,
+      slippage: request.slippage,
+      includeApprove: true,
+    });
+    return response.calls;
   }
 
   async executeSwap(request: ExecuteSwapRequest): Promise<ExecuteSwapResponse> {
@@ -113,19 +149,38 @@ export class AVNUService extends BaseDEXService {
   }
 
   async getSupportedTokens(): Promise<Token[]> {
-    // TODO: Implement token list fetching
-    // This would typically involve calling AVNU's token list API
-    throw new Error('Token list fetching not yet implemented');
+    const queryParams = new URLSearchParams({
+      page: '0',
+      size: TOKEN_LIST_CONFIG.pageSize.toString(),
+      tags: 'Verified',
+    });
+
+    const response = await withRetry(
+      () => this.client.get<AVNUTokenPage>(`/v1/starknet/tokens?${queryParams}`),
+      { maxRetries: 2, delayMs: 1000, backoffMultiplier: 1.5 }
+    );
+
+    if (!Array.isArray(response?.content)) {
+      throw new PrivfiError('API_ERROR', 'Invalid token list response');
+    }
+
+    return response.content.map(token => ({
+      address: token.address,
+      symbol: token.symbol,
+      name: token.name,
+      decimals: token.decimals,
+      logoUri: token.logoUri || undefined,
+    }));
   }
 
-  private async fetchAVNUQuotes(params: AVNUQuoteRequest): Promise<AVNUQuote[]> {
+  private async fetchAVNUQuotes(params: AVNUQuoteRequest, signal?: AbortSignal): Promise<AVNUQuote[]> {
     // Validate required parameters
     if (!params.sellTokenAddress || !params.buyTokenAddress) {
-      throw new Error('Both sell and buy token addresses are required');
+      throw new PrivfiError('INVALID_REQUEST', 'Both sell and buy token addresses are required');
     }
 
     if (!params.sellAmount && !params.buyAmount) {
-      throw new Error('Either sellAmount or buyAmount must be provided');
+      throw new PrivfiError('INVALID_REQUEST', 'Either sellAmount or buyAmount must be provided');
     }
 
     // Prepare query parameters
@@ -152,10 +207,10 @@ export class AVNUService extends BaseDEXService {
       queryParams.append('takerAddress', params.takerAddress);
     }
 
-    const response = await this.request<AVNUQuote[]>(`/swap/v2/quotes?${queryParams}`);
+    const response = await this.client.get<AVNUQuote[]>(`/swap/v2/quotes?${queryParams}`, { signal });
 
     if (!Array.isArray(response) || response.length === 0) {
-      throw new Error('No quotes available for this token pair');
+      throw new PrivfiError('INSUFFICIENT_LIQUIDITY', 'No quotes available for this token pair');
     }
 
     return response;
@@ -206,6 +261,7 @@ export class AVNUService extends BaseDEXService {
       route: routes,
       expiry: quote.expiry ? quote.expiry * 1000 : null, // Convert to milliseconds
       slippage: quote.estimatedSlippage,
+      raw: quote,
     };
   }
 
@@ -233,13 +289,21 @@ export const fetchSwapQuotes = async (params: AVNUQuoteRequest): Promise<AVNUQuo
   throw new Error('Legacy function - use AVNUService class instead');
 };
 
-export const getBestQuote = (quotes: AVNUQuote[]): AVNUQuote | null => {
+export const getBestQuote = (quotes: AVNUQuote[], swapMode: SwapMode = 'exact-in'): AVNUQuote | null => {
   if (!quotes || quotes.length === 0) return null;
+
+  // Exact-out quotes all buy the same amount, the best one sells the least
+  if (swapMode === 'exact-out') {
+    return quotes.reduce((best, current) =>
+      BigInt(current.sellAmount) < BigInt(best.sellAmount) ? current : best
+    );
+  }
   
+  // Otherwise the most output once gas is paid, which matters when quotes come from several aggregators
   return quotes.reduce((best, current) => {
-    const bestBuyAmount = parseFloat(best.buyAmount);
-    const currentBuyAmount = parseFloat(current.buyAmount);
-    return currentBuyAmount > bestBuyAmount ? current : best;
+    const bestNetAmount = getNetOutputAmount(best.buyAmount, best.buyAmountInUsd, best.gasFeesInUsd);
+    const currentNetAmount = getNetOutputAmount(current.buyAmount, current.buyAmountInUsd, current.gasFeesInUsd);
+    return currentNetAmount > bestNetAmount ? current : best;
   });
 };
 
@@ -248,6 +312,8 @@ export const isQuoteExpired = (quote: AVNUQuote): boolean => {
   return Date.now() > quote.expiry * 1000;
 };
 
+const EXCHANGE_RATE_DECIMALS = 18;
+
 /**
  * Format quote for display
  */
@@ -279,11 +345,19 @@ export const formatQuoteForDisplay = (
   }
 
   // Convert hex amounts to decimal with proper decimals
-  const sellAmountDecimal = parseInt(quote.sellAmount, 16) / Math.pow(10, fromTokenDecimals);
-  const buyAmountDecimal = parseInt(quote.buyAmount, 16) / Math.pow(10, toTokenDecimals);
-  
-  // Calculate exchange rate: how many toTokens per 1 fromToken
-  const exchangeRate = sellAmountDecimal > 0 ? buyAmountDecimal / sellAmountDecimal : 0;
+  const sellAmountRaw = toRawAmount(quote.sellAmount);
+  const buyAmountRaw = toRawAmount(quote.buyAmount);
+  const sellAmountDecimal = toAmountNumber(sellAmountRaw, fromTokenDecimals);
+  const buyAmountDecimal = toAmountNumber(buyAmountRaw, toTokenDecimals);
+
+  // Calculate exchange rate: how many toTokens per 1 fromToken, with 18 decimals of precision
+  const exchangeRate = sellAmountRaw > 0n
+    ? toAmountNumber(
+        (buyAmountRaw * 10n ** BigInt(fromTokenDecimals + EXCHANGE_RATE_DECIMALS)) /
+          (sellAmountRaw * 10n ** BigInt(toTokenDecimals)),
+        EXCHANGE_RATE_DECIMALS
+      )
+    : 0;
 
   // Format exchange rate with appropriate precision
   const formatExchangeRate = (rate: number): string => {
@@ -325,6 +399,41 @@ export const formatQuoteForDisplay = (
   };
 };
 
+export interface GasTokenFee {
+  tokenAddress: string;
+  symbol: string;
+  decimals: number;
+  amount: number;
+  rawAmount: bigint;
+  amountInUsd: number;
+}
+
+/**
+ * List the tokens the quote's gas can be paid with through the AVNU paymaster.
+ * Only tokens known to the app are returned; AVNU addresses may lack zero padding.
+ */
+export const getGasTokenFees = (quote: AVNUQuote | null | undefined): GasTokenFee[] => {
+  if (!quote?.gasless?.active) {
+    return [];
+  }
+
+  const tokens = Object.values(STARKNET_TOKENS);
+  return quote.gasless.gasTokenPrices.flatMap(price => {
+    const token = tokens.find(t => BigInt(t.address) === BigInt(price.tokenAddress));
+    if (!token) return [];
+
+    const rawAmount = toRawAmount(price.gasFeesInGasToken);
+    return [{
+      tokenAddress: token.address,
+      symbol: token.symbol,
+      decimals: token.decimals,
+      amount: toAmountNumber(rawAmount, token.decimals),
+      rawAmount,
+      amountInUsd: price.gasFeesInUsd,
+    }];
+  });
+};
+
 /**
  * Extract token prices from AVNU quote for use in UI
  */
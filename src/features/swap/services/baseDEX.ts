@@ -1,17 +1,20 @@
+import { Call } from 'starknet';
 import { ApiClient } from '@/core/api';
 import { Token, SwapQuote } from '@/shared/types';
 import { DEXAggregatorInterface, QuoteRequest, QuoteResponse, ExecuteSwapRequest, ExecuteSwapResponse } from '../types';
+import { compareAmounts, toRawAmount } from '@/shared/utils/lib/amounts';
 
 export abstract class BaseDEXService extends ApiClient implements DEXAggregatorInterface {
   protected name: string;
 
   constructor(name: string, baseUrl: string, timeout?: number) {
-    super(baseUrl, timeout);
+    super(baseUrl, timeout, name);
     this.name = name;
   }
 
-  abstract getQuotes(request: QuoteRequest): Promise<QuoteResponse>;
+  abstract getQuotes(request: QuoteRequest, signal?: AbortSignal): Promise<QuoteResponse>;
   abstract executeSwap(request: ExecuteSwapRequest): Promise<ExecuteSwapResponse>;
+  abstract buildSwapCalls(request: ExecuteSwapRequest): Promise<Call[]>;
   abstract getSupportedTokens(): Promise<Token[]>;
 
   getName(): string {
@@ -29,7 +32,7 @@ export abstract class BaseDEXService extends ApiClient implements DEXAggregatorI
   protected sortQuotesByBestPrice(quotes: SwapQuote[]): SwapQuote[] {
     return [...quotes].sort((a, b) => {
       // Higher buy amount is better
-      const amountComparison = parseFloat(b.buyAmount) - parseFloat(a.buyAmount);
+      const amountComparison = compareAmounts(toRawAmount(b.buyAmount), toRawAmount(a.buyAmount));
       if (amountComparison !== 0) return amountComparison;
       
       // Lower gas fees is better if amounts are equal
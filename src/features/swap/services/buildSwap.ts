@@ -1,25 +1,25 @@
 import { BuildSwapRequest, BuildSwapResponse } from '../types/swap';
-import { API_CONFIG } from '@/core/config';
-import { withRetry } from '@/core/api';
+import { AVNUApiClient, avnuApiClient, withRetry } from '@/core/api';
+import { PrivfiError, toPrivfiError } from '@/core/errors';
 
 export class BuildSwapService {
-  private readonly baseUrl: string;
+  private readonly client: AVNUApiClient;
 
-  constructor() {
-    this.baseUrl = API_CONFIG.avnu.baseUrl;
+  constructor(client: AVNUApiClient = avnuApiClient) {
+    this.client = client;
   }
 
-  async buildSwap(request: BuildSwapRequest): Promise<BuildSwapResponse> {
+  async buildSwap(request: BuildSwapRequest, signal?: AbortSignal): Promise<BuildSwapResponse> {
     if (!request.quoteId) {
-      throw new Error('Quote ID is required');
+      throw new PrivfiError('INVALID_REQUEST', 'Quote ID is required');
     }
     
     if (!request.takerAddress) {
-      throw new Error('Taker address is required');
+      throw new PrivfiError('INVALID_REQUEST', 'Taker address is required');
     }
 
     if (request.slippage < 0 || request.slippage > 1) {
-      throw new Error('Slippage must be between 0 and 1 (0-100%)');
+      throw new PrivfiError('INVALID_REQUEST', 'Slippage must be between 0 and 1 (0-100%)');
     }
 
     const requestBody = {
@@ -31,28 +31,31 @@ export class BuildSwapService {
 
     return withRetry(
       async () => {
-        const response = await fetch(`${this.baseUrl}/swap/v2/build`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify(requestBody),
-        });
-
-        if (!response.ok) {
-          const errorText = await response.text();
-          throw new Error(`Build swap failed: ${response.status} ${errorText}`);
+        let data: BuildSwapResponse;
+        try {
+          data = await this.client.post<BuildSwapResponse>('/swap/v2/build', requestBody, { signal });
+        } catch (error) {
+          const apiError = toPrivfiError(error);
+          if (apiError.code === 'CANCELLED') {
+            throw apiError;
+          }
+          const reason = apiError.status ? `${apiError.status} ${apiError.details ?? ''}`.trim() : apiError.message;
+          // Keeps the client's retryability, so only failures like a 5xx or rate limit are retried
+          throw new PrivfiError('BUILD_FAILED', `Build swap failed: ${reason}`, {
+            cause: error,
+            status: apiError.status,
+            retryable: apiError.retryable,
+            retryAfterMs: apiError.retryAfterMs,
+          });
         }
 
-        const data = await response.json();
-        
         if (!data.calls || !Array.isArray(data.calls)) {
-          throw new Error('Invalid build response: missing calls array');
+          throw new PrivfiError('BUILD_FAILED', 'Invalid build response: missing calls array', { retryable: false });
         }
 
         return data;
       },
-      { maxRetries: 2, delayMs: 1000, backoffMultiplier: 1.5 }
+      { maxRetries: 2, delayMs: 1000, backoffMultiplier: 1.5, signal }
     );
   }
 }
\ No newline at end of file
@@ -1,10 +1,10 @@
 import { DEXAggregatorInterface } from '../types';
 
-export type DEXProvider = 'avnu' | 'myswap' | '10kswap';
+export type DEXProvider = 'avnu' | 'fibrous' | 'mock' | 'myswap' | '10kswap';
 
 export interface DEXFactoryConfig {
   defaultProvider: DEXProvider;
-  providers: Record<DEXProvider, () => Promise<DEXAggregatorInterface>>;
+  providers: Partial<Record<DEXProvider, () => Promise<DEXAggregatorInterface>>>;
 }
 
 export class DEXFactory {
@@ -0,0 +1,183 @@
+import { Call, CallData, cairo } from 'starknet';
+import { BaseDEXService } from './baseDEX';
+import { Token, SwapQuote, SwapRoute } from '@/shared/types';
+import { QuoteRequest, QuoteResponse, ExecuteSwapRequest, ExecuteSwapResponse } from '../types';
+import { API_CONFIG } from '@/core/config';
+import { withRetry } from '@/core/api';
+import { PrivfiError } from '@/core/errors';
+import { toAmountNumber, toRawAmount } from '@/shared/utils/lib/amounts';
+
+// Fibrous-specific types (internal)
+interface FibrousToken {
+  address: string;
+  name: string;
+  symbol: string;
+  decimals: number;
+  price?: string | number | null;
+}
+
+interface FibrousSwap {
+  protocol: number;
+  poolId: string;
+  poolAddress: string;
+  fromTokenAddress: string;
+  toTokenAddress: string;
+  percent: string; // e.g. "50%"
+}
+
+interface FibrousRouteItem {
+  percent: string;
+  swaps: FibrousSwap[][];
+}
+
+interface FibrousRoute {
+  success: boolean;
+  inputToken: FibrousToken;
+  inputAmount: string;
+  outputToken: FibrousToken;
+  outputAmount: string;
+  estimatedGasUsed?: string;
+  route: FibrousRouteItem[];
+  time?: number;
+}
+
+// Fibrous routes expire quickly, treat a quote as valid for this long
+const FIBROUS_QUOTE_TTL_MS = 30000;
+
+export class FibrousService extends BaseDEXService {
+  private routerAddress: string;
+  private protocolNames: Promise<Record<number, string>> | null = null;
+
+  constructor() {
+    super('Fibrous', API_CONFIG.fibrous.baseUrl, API_CONFIG.fibrous.timeout);
+    this.routerAddress = API_CONFIG.fibrous.routerAddress;
+  }
+
+  async getQuotes(request: QuoteRequest, signal?: AbortSignal): Promise<QuoteResponse> {
+    if (!request.sellAmount) {
+      throw new PrivfiError('QUOTE_UNAVAILABLE', 'Fibrous only supports exact-input quotes', { retryable: false });
+    }
+
+    const queryParams = new URLSearchParams({
+      amount: request.sellAmount,
+      tokenInAddress: request.sellToken.address,
+      tokenOutAddress: request.buyToken.address,
+    });
+
+    const route = await withRetry(
+      () => this.request<FibrousRoute>(`/starknet/route?${queryParams}`, { signal }),
+      { maxRetries: 1, delayMs: 500, backoffMultiplier: 1.5, signal }
+    );
+
+    if (!route?.success || !route.outputAmount || BigInt(route.outputAmount) === BigInt(0)) {
+      throw new PrivfiError('INSUFFICIENT_LIQUIDITY', 'No Fibrous route available for this token pair');
+    }
+
+    const quote = await this.mapFromFibrousRoute(route, request);
+    return {
+      quotes: [quote],
+      bestQuote: quote,
+    };
+  }
+
+  async buildSwapCalls(request: ExecuteSwapRequest): Promise<Call[]> {
+    const route = request.quote.raw as FibrousRoute | undefined;
+    if (!route) {
+      throw new PrivfiError('BUILD_FAILED', 'Quote was not produced by Fibrous', { retryable: false });
+    }
+
+    const queryParams = new URLSearchParams({
+      amount: route.inputAmount,
+      tokenInAddress: route.inputToken.address,
+      tokenOutAddress: route.outputToken.address,
+      slippage: (request.slippage * 100).toString(), // Fibrous expects a percentage
+      destination: request.takerAddress,
+    });
+
+    const calldata = await this.request<string[]>(`/starknet/execute?${queryParams}`);
+    if (!Array.isArray(calldata) || calldata.length === 0) {
+      throw new PrivfiError('BUILD_FAILED', 'Invalid Fibrous execute response: missing calldata');
+    }
+
+    return [
+      {
+        contractAddress: route.inputToken.address,
+        entrypoint: 'approve',
+        calldata: CallData.compile({
+          spender: this.routerAddress,
+          amount: cairo.uint256(route.inputAmount),
+        }),
+      },
+      {
+        contractAddress: this.routerAddress,
+        entrypoint: 'swap',
+        calldata,
+      },
+    ];
+  }
+
+  async executeSwap(request: ExecuteSwapRequest): Promise<ExecuteSwapResponse> {
+    throw new Error('Use buildSwapCalls and send the calls from the connected wallet');
+  }
+
+  async getSupportedTokens(): Promise<Token[]> {
+    const tokens = await this.request<Record<string, FibrousToken>>('/starknet/tokens');
+    return Object.values(tokens).map(token => ({
+      address: token.address,
+      symbol: token.symbol,
+      name: token.name,
+      decimals: token.decimals,
+    }));
+  }
+
+  // Protocol ids used in routes mapped to their display names, fetched once
+  private getProtocolNames(): Promise<Record<number, string>> {
+    if (!this.protocolNames) {
+      this.protocolNames = this.request<Record<string, number>>('/starknet/protocols')
+        .then(protocols => Object.fromEntries(Object.entries(protocols).map(([name, id]) => [id, name])))
+        .catch(() => {
+          this.protocolNames = null;
+          return {};
+        });
+    }
+    return this.protocolNames;
+  }
+
+  private async mapFromFibrousRoute(route: FibrousRoute, request: QuoteRequest): Promise<SwapQuote> {
+    const protocolNames = await this.getProtocolNames();
+    const parsePercent = (percent: string) => parseFloat(percent) / 100;
+
+    const routes: SwapRoute[] = route.route.flatMap(item =>
+      item.swaps.flat().map(swap => ({
+        name: protocolNames[swap.protocol] ?? `Protocol ${swap.protocol}`,
+        address: swap.poolAddress,
+        percentage: parsePercent(item.percent) * parsePercent(swap.percent),
+        sellTokenAddress: swap.fromTokenAddress,
+        buyTokenAddress: swap.toTokenAddress,
+      }))
+    );
+
+    const toUsd = (amount: string, token: FibrousToken, decimals: number) => {
+      const price = Number(token.price ?? 0);
+      return price > 0 ? toAmountNumber(toRawAmount(amount), decimals) * price : 0;
+    };
+
+    return {
+      id: `fibrous-${route.time ?? Date.now()}-${route.outputAmount}`,
+      sellAmount: route.inputAmount,
+      buyAmount: route.outputAmount,
+      sellAmountInUsd: toUsd(route.inputAmount, route.inputToken, request.sellToken.decimals),
+      buyAmountInUsd: toUsd(route.outputAmount, route.outputToken, request.buyToken.decimals),
+      priceImpact: 0, // Not reported by Fibrous
+      gasEstimate: {
+        gasLimit: route.estimatedGasUsed ?? '0',
+        gasPrice: '0',
+        gasFeeInUsd: 0, // Not reported by Fibrous, so mixed quotes are ranked on gross output
+      },
+      route: routes,
+      expiry: Date.now() + FIBROUS_QUOTE_TTL_MS,
+      slippage: 0,
+      raw: route,
+    };
+  }
+}
@@ -2,5 +2,8 @@ export * from './baseDEX';
 export * from './dexFactory';
 export * from './registry';
 export * from './avnu';
+export * from './fibrous';
+export * from './quoteOrchestrator';
 export * from './buildSwap';
-export * from './typhoon';
\ No newline at end of file
+export * from './typhoon';
+export * from './tokenRegistry';
\ No newline at end of file
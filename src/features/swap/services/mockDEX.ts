@@ -0,0 +1,174 @@
+import { Call, CallData, cairo } from 'starknet';
+import { BaseDEXService } from './baseDEX';
+import { Token, SwapQuote } from '@/shared/types';
+import { QuoteRequest, QuoteResponse, ExecuteSwapRequest, ExecuteSwapResponse } from '../types';
+import { MOCK_CONFIG } from '@/core/config';
+import { STARKNET_TOKENS } from '@/constants/tokens';
+import { parseAmount, toAmountNumber, toRawAmount } from '@/shared/utils/lib/amounts';
+import { getMockScenario, mockDelay } from '../utils/mockScenario';
+import { PrivfiError } from '@/core/errors';
+
+// Mock-specific types (internal)
+interface MockQuotePayload {
+  sellTokenAddress: string;
+  buyTokenAddress: string;
+}
+
+interface MockRouteTemplate {
+  name: string;
+  feeBps: number;
+  gasFeeInUsd: number;
+  splits: Array<{ name: string; percentage: number }>;
+}
+
+const MOCK_QUOTE_TTL_MS = 60000;
+
+// Two routes so quote comparison and pinning have something to compare
+const MOCK_ROUTES: MockRouteTemplate[] = [
+  { name: 'MockSwap', feeBps: 30, gasFeeInUsd: 0.02, splits: [{ name: 'MockSwap', percentage: 1 }] },
+  {
+    name: 'MockSplit',
+    feeBps: 45,
+    gasFeeInUsd: 0.03,
+    splits: [
+      { name: 'MockPoolA', percentage: 0.6 },
+      { name: 'MockPoolB', percentage: 0.4 },
+    ],
+  },
+];
+
+/**
+ * Deterministic DEX used when MOCK_CONFIG is enabled. Prices come from MOCK_CONFIG.pricesUsd
+ * and the outcome of each call follows the active mock scenario.
+ */
+export class MockDEXService extends BaseDEXService {
+  constructor() {
+    super('Mock DEX', '', MOCK_CONFIG.latencyMs);
+  }
+
+  async getQuotes(request: QuoteRequest): Promise<QuoteResponse> {
+    const scenario = getMockScenario();
+    await mockDelay(scenario === 'slow-quotes' ? 100 : 1);
+
+    if (scenario === 'no-quotes') {
+      throw new PrivfiError('INSUFFICIENT_LIQUIDITY', 'No quotes available for this token pair');
+    }
+
+    const sellPrice = MOCK_CONFIG.pricesUsd[request.sellToken.symbol];
+    const buyPrice = MOCK_CONFIG.pricesUsd[request.buyToken.symbol];
+    if (!sellPrice || !buyPrice) {
+      throw new PrivfiError('QUOTE_UNAVAILABLE', `No mock price for ${request.sellToken.symbol}/${request.buyToken.symbol}`, { retryable: false });
+    }
+
+    const quotes = MOCK_ROUTES.map((template, index) =>
+      this.createQuote(template, index, request, sellPrice, buyPrice)
+    );
+
+    return {
+      quotes,
+      bestQuote: this.selectBestQuote(quotes),
+    };
+  }
+
+  async buildSwapCalls(request: ExecuteSwapRequest): Promise<Call[]> {
+    await mockDelay();
+
+    if (getMockScenario() === 'build-failure') {
+      throw new PrivfiError('BUILD_FAILED', 'Build swap failed: 500 mock build failure', { status: 500 });
+    }
+
+    const payload = request.quote.raw as MockQuotePayload;
+    return [
+      {
+        contractAddress: payload.sellTokenAddress,
+        entrypoint: 'approve',
+        calldata: CallData.compile({
+          spender: MOCK_CONFIG.routerAddress,
+          amount: cairo.uint256(request.quote.sellAmount),
+        }),
+      },
+      {
+        contractAddress: MOCK_CONFIG.routerAddress,
+        entrypoint: 'swap',
+        calldata: CallData.compile({
+          sellToken: payload.sellTokenAddress,
+          buyToken: payload.buyTokenAddress,
+          sellAmount: cairo.uint256(request.quote.sellAmount),
+          minBuyAmount: cairo.uint256(
+            BigInt(request.quote.buyAmount) * BigInt(Math.round((1 - request.slippage) * 10000)) / BigInt(10000)
+          ),
+          beneficiary: request.takerAddress,
+        }),
+      },
+    ];
+  }
+
+  async executeSwap(request: ExecuteSwapRequest): Promise<ExecuteSwapResponse> {
+    throw new Error('Use buildSwapCalls and send the calls from the connected wallet');
+  }
+
+  async getSupportedTokens(): Promise<Token[]> {
+    return Object.values(STARKNET_TOKENS).map(token => ({
+      address: token.address,
+      symbol: token.symbol,
+      name: token.name,
+      decimals: token.decimals,
+      logoUri: token.logoURI,
+    }));
+  }
+
+  private createQuote(
+    template: MockRouteTemplate,
+    index: number,
+    request: QuoteRequest,
+    sellPrice: number,
+    buyPrice: number
+  ): SwapQuote {
+    const { sellToken, buyToken } = request;
+    const feeMultiplier = 1 - template.feeBps / 10000;
+
+    // Exact-output requests are priced backwards from the buy amount
+    let sellUnits: number;
+    let buyUnits: number;
+    if (request.sellAmount) {
+      sellUnits = toAmountNumber(toRawAmount(request.sellAmount), sellToken.decimals);
+      buyUnits = sellUnits * sellPrice / buyPrice * feeMultiplier;
+    } else {
+      buyUnits = toAmountNumber(toRawAmount(request.buyAmount || '0'), buyToken.decimals);
+      sellUnits = buyUnits * buyPrice / sellPrice / feeMultiplier;
+    }
+
+    const toRaw = (units: number, decimals: number) =>
+      parseAmount(units.toFixed(decimals), decimals).toString();
+    const sellAmount = request.sellAmount || toRaw(sellUnits, sellToken.decimals);
+    const buyAmount = request.buyAmount || toRaw(buyUnits, buyToken.decimals);
+    const payload: MockQuotePayload = {
+      sellTokenAddress: sellToken.address,
+      buyTokenAddress: buyToken.address,
+    };
+
+    return {
+      id: `mock-${index}-${sellAmount}-${buyAmount}`,
+      sellAmount,
+      buyAmount,
+      sellAmountInUsd: sellUnits * sellPrice,
+      buyAmountInUsd: buyUnits * buyPrice,
+      priceImpact: template.feeBps / 100,
+      gasEstimate: {
+        gasLimit: '0',
+        gasPrice: '0',
+        gasFeeInUsd: template.gasFeeInUsd,
+      },
+      route: template.splits.map(split => ({
+        name: split.name,
+        address: MOCK_CONFIG.routerAddress,
+        percentage: split.percentage,
+        sellTokenAddress: sellToken.address,
+        buyTokenAddress: buyToken.address,
+      })),
+      expiry: Date.now() + MOCK_QUOTE_TTL_MS,
+      slippage: template.feeBps / 10000,
+      raw: payload,
+    };
+  }
+}
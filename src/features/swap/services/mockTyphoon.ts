@@ -0,0 +1,137 @@
+import { TyphoonService } from './typhoon';
+import { TyphoonDepositCall, TyphoonWithdrawRequest } from '../types/typhoon';
+import {
+  TyphoonDepositData,
+  loadTyphoonDepositData,
+  saveTyphoonDepositData,
+  updateTyphoonDepositStatus,
+  withTyphoonWithdrawalLock,
+} from '../utils/typhoonStorage';
+import { allocateRecipientNotes } from '../utils/withdrawalSplits';
+import { getMockScenario, mockDelay } from '../utils/mockScenario';
+import { MOCK_CONFIG } from '@/core/config';
+import { PrivfiError } from '@/core/errors';
+
+const MOCK_NOTE_COUNT = 4;
+// The mock Typhoon contract's only pool; every note has a quarter of the deposit
+const MOCK_POOL_ADDRESS = '0x000000000000000000000000000000000000000000000000000000000000b0b1';
+
+/**
+ * Typhoon stand-in used when MOCK_CONFIG is enabled. Deposits produce scripted notes that go through
+ * the real encrypted storage, so the vault, dashboard and backups behave as they do on mainnet.
+ */
+export class MockTyphoonService extends TyphoonService {
+  private pendingDeposit: Omit<TyphoonDepositData, 'transactionHash' | 'timestamp' | 'walletAddress' | 'status'> | null = null;
+
+  async generateApproveAndDepositCalls(
+    amountOut: string,
+    tokenOutAddr: string,
+    walletAddress?: string,
+    transactionHash?: string
+  ): Promise<TyphoonDepositCall[]> {
+    this.validateDepositAmount(amountOut, tokenOutAddr);
+    await mockDelay(2);
+
+    if (getMockScenario() === 'deposit-failure') {
+      throw new PrivfiError('RPC_UNAVAILABLE', 'Typhoon service is temporarily unavailable due to RPC issues');
+    }
+
+    const amount = BigInt(amountOut);
+    const noteAmount = amount / BigInt(MOCK_NOTE_COUNT);
+    const notes = Array.from({ length: MOCK_NOTE_COUNT }, (_, i) => i);
+    const deposit = {
+      secrets: notes.map(i => `0x${(BigInt(i + 1) * amount).toString(16)}`),
+      nullifiers: notes.map(i => `0x${(BigInt(i + 1) * amount + BigInt(1)).toString(16)}`),
+      pools: notes.map(() => MOCK_POOL_ADDRESS),
+      noteAmounts: notes.map(() => noteAmount.toString()),
+      tokenAddress: tokenOutAddr,
+      amount: amountOut,
+    };
+
+    if (transactionHash && walletAddress) {
+      await saveTyphoonDepositData({
+        ...deposit,
+        transactionHash,
+        timestamp: Date.now(),
+        walletAddress,
+        status: 'pending',
+      });
+    } else {
+      this.pendingDeposit = deposit;
+    }
+
+    // Shaped like the SDK's calls: the pool is approved for all its notes, then one deposit per note
+    return [
+      {
+        contractAddress: tokenOutAddr,
+        entrypoint: 'approve',
+        calldata: [MOCK_POOL_ADDRESS, `0x${(noteAmount * BigInt(MOCK_NOTE_COUNT)).toString(16)}`, '0x0'],
+      },
+      ...deposit.secrets.map(secret => ({
+        contractAddress: MOCK_CONFIG.typhoonAddress,
+        entrypoint: 'deposit',
+        calldata: [secret, '0x0', MOCK_POOL_ADDRESS, '0x0'],
+      })),
+    ];
+  }
+
+  hasPendingDepositData(): boolean {
+    return this.pendingDeposit !== null;
+  }
+
+  async saveDepositDataWithTxHash(transactionHash: string, walletAddress: string): Promise<void> {
+    if (!this.pendingDeposit) {
+      return;
+    }
+
+    await saveTyphoonDepositData({
+      ...this.pendingDeposit,
+      transactionHash,
+      timestamp: Date.now(),
+      walletAddress,
+      status: 'pending',
+    });
+    this.pendingDeposit = null;
+  }
+
+  async withdraw(withdrawRequest: TyphoonWithdrawRequest): Promise<void> {
+    return withTyphoonWithdrawalLock(withdrawRequest.transactionHash, () => this.performMockWithdraw(withdrawRequest));
+  }
+
+  // Mock pools have no contract to ask, older mock records split the deposit evenly
+  protected async getNoteAmounts(depositData: TyphoonDepositData): Promise<bigint[]> {
+    if (depositData.noteAmounts?.length === depositData.pools.length) {
+      return depositData.noteAmounts.map(amount => BigInt(amount));
+    }
+    return depositData.pools.map(() => BigInt(depositData.amount) / BigInt(depositData.pools.length));
+  }
+
+  private async performMockWithdraw(withdrawRequest: TyphoonWithdrawRequest): Promise<void> {
+    const depositData = await loadTyphoonDepositData(withdrawRequest.transactionHash);
+    if (!depositData) {
+      throw new Error(`No deposit data found for transaction ${withdrawRequest.transactionHash}. Cannot withdraw without original deposit secrets.`);
+    }
+    if (depositData.status === 'withdrawn') {
+      throw new Error(`Deposit ${withdrawRequest.transactionHash} has already been withdrawn`);
+    }
+
+    // Same note allocation as the real service, so invalid splits fail the same way
+    if (withdrawRequest.splitPercentages) {
+      allocateRecipientNotes(
+        withdrawRequest.recipientAddresses,
+        withdrawRequest.splitPercentages,
+        await this.getNoteAmounts(depositData)
+      );
+    }
+
+    await mockDelay(5);
+
+    if (getMockScenario() === 'withdraw-failure') {
+      const error = 'Mock withdrawal rejected by the relayer';
+      await updateTyphoonDepositStatus(withdrawRequest.transactionHash, 'failed', error);
+      throw new PrivfiError('WITHDRAWAL_FAILED', `Withdrawal failed: ${error}`);
+    }
+
+    await updateTyphoonDepositStatus(withdrawRequest.transactionHash, 'withdrawn');
+  }
+}
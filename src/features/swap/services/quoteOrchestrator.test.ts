@@ -0,0 +1,140 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { SwapQuote } from '@/shared/types';
+import { STARKNET_TOKENS } from '@/constants/tokens';
+import { PrivfiError } from '@/core/errors';
+import { QuoteRequest } from '../types';
+import { DEXAggregatorInterface } from '../types/dex';
+import { DEXFactory, DEXProvider } from './dexFactory';
+import { QuoteOrchestrator, rankQuotes } from './quoteOrchestrator';
+
+const quote = (id: string, buyAmount: string, buyAmountInUsd: number, gasFeeInUsd: number, sellAmount = '1000'): SwapQuote => ({
+  id,
+  sellAmount,
+  buyAmount,
+  sellAmountInUsd: buyAmountInUsd,
+  buyAmountInUsd,
+  priceImpact: 0,
+  gasEstimate: { gasLimit: '0', gasPrice: '0', gasFeeInUsd },
+  route: [],
+  expiry: null,
+  slippage: 0,
+});
+
+const ids = (quotes: SwapQuote[]) => quotes.map(q => q.id);
+
+const REQUEST: QuoteRequest = {
+  sellToken: STARKNET_TOKENS.ETH,
+  buyToken: STARKNET_TOKENS.STRK,
+  sellAmount: '1000',
+};
+
+// Aggregator answering with the given quotes, or with the promise the test controls
+const dex = (name: string, getQuotes: (signal?: AbortSignal) => Promise<SwapQuote[]>) => ({
+  getName: () => name,
+  getQuotes: async (_request: QuoteRequest, signal?: AbortSignal) => {
+    const quotes = await getQuotes(signal);
+    return { quotes, bestQuote: quotes[0] ?? null };
+  },
+}) as unknown as DEXAggregatorInterface;
+
+const orchestrate = (dexes: Partial<Record<DEXProvider, DEXAggregatorInterface>>, timeouts = {}) => {
+  const factory = {
+    getSupportedProviders: () => Object.keys(dexes) as DEXProvider[],
+    getDEXProvider: async (provider: DEXProvider) => dexes[provider],
+  } as unknown as DEXFactory;
+  return new QuoteOrchestrator(factory, timeouts);
+};
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('rankQuotes', () => {
+  it('ranks on output after gas when every quote has a gas estimate', () => {
+    const expensiveGas = quote('expensive-gas', '100', 100, 10);
+    const cheapGas = quote('cheap-gas', '95', 95, 1);
+    expect(ids(rankQuotes([expensiveGas, cheapGas]))).toEqual(['cheap-gas', 'expensive-gas']);
+  });
+
+  it('ranks mixed providers on gross output when one reports no gas', () => {
+    const avnu = quote('avnu', '100', 100, 10);
+    const fibrous = quote('fibrous', '95', 95, 0);
+    expect(ids(rankQuotes([fibrous, avnu]))).toEqual(['avnu', 'fibrous']);
+  });
+
+  it('ranks on gross output when a quote has no USD valuation', () => {
+    const priced = quote('priced', '100', 100, 10);
+    const unpriced = quote('unpriced', '95', 0, 1);
+    expect(ids(rankQuotes([unpriced, priced]))).toEqual(['priced', 'unpriced']);
+  });
+
+  it('ranks exact-output quotes on the amount sold', () => {
+    const cheaper = quote('cheaper', '100', 100, 1, '900');
+    const dearer = quote('dearer', '100', 100, 1, '1000');
+    expect(ids(rankQuotes([dearer, cheaper], true))).toEqual(['cheaper', 'dearer']);
+  });
+});
+
+describe('QuoteOrchestrator', () => {
+  it('merges and ranks the quotes of every provider', async () => {
+    const orchestrator = orchestrate({
+      avnu: dex('AVNU', async () => [quote('avnu', '100', 100, 1)]),
+      fibrous: dex('Fibrous', async () => [quote('fibrous', '120', 120, 0)]),
+    });
+
+    const { quotes, failures } = await orchestrator.getQuotes(REQUEST);
+    expect(ids(quotes)).toEqual(['fibrous', 'avnu']);
+    expect(quotes.map(q => q.providerName)).toEqual(['Fibrous', 'AVNU']);
+    expect(failures).toEqual([]);
+  });
+
+  it('reports a provider that misses its timeout and cancels its request', async () => {
+    vi.useFakeTimers();
+    let fibrousSignal: AbortSignal | undefined;
+    const orchestrator = orchestrate({
+      avnu: dex('AVNU', async () => [quote('avnu', '100', 100, 1)]),
+      fibrous: dex('Fibrous', signal => {
+        fibrousSignal = signal;
+        return new Promise(() => undefined);
+      }),
+    }, { fibrous: 500 });
+
+    const pending = orchestrator.getQuotes(REQUEST);
+    await vi.advanceTimersByTimeAsync(500);
+    const { quotes, failures } = await pending;
+
+    expect(ids(quotes)).toEqual(['avnu']);
+    expect(failures).toEqual([{ provider: 'fibrous', code: 'TIMEOUT', error: 'Fibrous did not respond within 500ms' }]);
+    expect(fibrousSignal?.aborted).toBe(true);
+  });
+
+  it('reports insufficient liquidity only when every provider lacks it', async () => {
+    const noLiquidity = async (): Promise<SwapQuote[]> => {
+      throw new PrivfiError('INSUFFICIENT_LIQUIDITY');
+    };
+
+    await expect(orchestrate({
+      avnu: dex('AVNU', noLiquidity),
+      fibrous: dex('Fibrous', noLiquidity),
+    }).getQuotes(REQUEST)).rejects.toMatchObject({ code: 'INSUFFICIENT_LIQUIDITY' });
+
+    await expect(orchestrate({
+      avnu: dex('AVNU', noLiquidity),
+      fibrous: dex('Fibrous', async () => {
+        throw new Error('Bad gateway');
+      }),
+    }).getQuotes(REQUEST)).rejects.toMatchObject({ code: 'QUOTE_UNAVAILABLE' });
+  });
+
+  it('never returns quotes for a cancelled request', async () => {
+    const controller = new AbortController();
+    const orchestrator = orchestrate({
+      avnu: dex('AVNU', async () => {
+        controller.abort();
+        return [quote('avnu', '100', 100, 1)];
+      }),
+    });
+
+    await expect(orchestrator.getQuotes(REQUEST, controller.signal)).rejects.toMatchObject({ code: 'CANCELLED' });
+  });
+});
@@ -0,0 +1,188 @@
+import { SwapQuote } from '@/shared/types';
+import { API_CONFIG } from '@/core/config';
+import { PrivfiError, PrivfiErrorCode, toPrivfiError } from '@/core/errors';
+import { QuoteRequest } from '../types';
+import { getNetOutputAmount } from '../utils/quoteRanking';
+import { compareAmounts, toAmountNumber, toRawAmount } from '@/shared/utils/lib/amounts';
+import { DEXFactory, DEXProvider } from './dexFactory';
+import { getDEXFactory } from './registry';
+import type { AVNUQuote } from './avnu';
+
+export interface AggregatorQuote extends SwapQuote {
+  provider: DEXProvider;
+  providerName: string;
+}
+
+export interface ProviderQuoteFailure {
+  provider: DEXProvider;
+  error: string;
+  code: PrivfiErrorCode;
+}
+
+export interface AggregatedQuotes {
+  quotes: AggregatorQuote[]; // Best first
+  failures: ProviderQuoteFailure[];
+}
+
+const DEFAULT_QUOTE_TIMEOUT = 8000;
+
+const PROVIDER_QUOTE_TIMEOUTS: Partial<Record<DEXProvider, number>> = {
+  avnu: API_CONFIG.avnu.quoteTimeout,
+  fibrous: API_CONFIG.fibrous.quoteTimeout,
+};
+
+/**
+ * Order quotes best first: least sold for exact-output requests, most output after gas otherwise.
+ * When any quote lacks a gas or USD estimate, all of them are ranked on gross output instead,
+ * since netting gas off only some quotes would favour the ones that report none.
+ */
+export const rankQuotes = <T extends SwapQuote>(quotes: T[], isExactOut = false): T[] => {
+  const canNetGas = quotes.every(quote => quote.buyAmountInUsd > 0 && quote.gasEstimate.gasFeeInUsd > 0);
+  const getOutput = (quote: T): bigint => canNetGas
+    ? getNetOutputAmount(quote.buyAmount, quote.buyAmountInUsd, quote.gasEstimate.gasFeeInUsd)
+    : toRawAmount(quote.buyAmount);
+
+  return [...quotes].sort((a, b) => {
+    if (isExactOut) {
+      const difference = BigInt(a.sellAmount) - BigInt(b.sellAmount);
+      return difference < BigInt(0) ? -1 : difference > BigInt(0) ? 1 : 0;
+    }
+    return compareAmounts(getOutput(b), getOutput(a));
+  });
+};
+
+/**
+ * Queries every registered aggregator in parallel. A provider that fails or
+ * misses its timeout is reported in `failures` without holding back the others.
+ */
+export class QuoteOrchestrator {
+  private factory: DEXFactory;
+  private timeouts: Partial<Record<DEXProvider, number>>;
+
+  constructor(factory: DEXFactory = getDEXFactory(), timeouts = PROVIDER_QUOTE_TIMEOUTS) {
+    this.factory = factory;
+    this.timeouts = timeouts;
+  }
+
+  async getQuotes(request: QuoteRequest, signal?: AbortSignal): Promise<AggregatedQuotes> {
+    const providers = this.factory.getSupportedProviders();
+
+    const results = await Promise.allSettled(
+      providers.map(provider => this.getProviderQuotes(provider, request, signal))
+    );
+
+    // Quotes for a request the caller has moved on from are stale, never return them
+    if (signal?.aborted) {
+      throw new PrivfiError('CANCELLED', 'Quote request was cancelled');
+    }
+
+    const quotes: AggregatorQuote[] = [];
+    const failures: ProviderQuoteFailure[] = [];
+    results.forEach((result, index) => {
+      if (result.status === 'fulfilled') {
+        quotes.push(...result.value);
+      } else {
+        const error = toPrivfiError(result.reason, 'QUOTE_UNAVAILABLE');
+        failures.push({ provider: providers[index], error: error.message, code: error.code });
+      }
+    });
+
+    if (quotes.length === 0) {
+      // Liquidity is only the problem when no aggregator failed for another reason
+      const code = failures.length > 0 && failures.every(failure => failure.code === 'INSUFFICIENT_LIQUIDITY')
+        ? 'INSUFFICIENT_LIQUIDITY'
+        : 'QUOTE_UNAVAILABLE';
+      throw new PrivfiError(code, failures[0]?.error || 'No quotes available for this token pair');
+    }
+
+    return {
+      quotes: rankQuotes(quotes, !request.sellAmount && !!request.buyAmount),
+      failures,
+    };
+  }
+
+  private async getProviderQuotes(
+    provider: DEXProvider,
+    request: QuoteRequest,
+    signal?: AbortSignal
+  ): Promise<AggregatorQuote[]> {
+    const dex = await this.factory.getDEXProvider(provider);
+    const timeoutMs = this.timeouts[provider] ?? DEFAULT_QUOTE_TIMEOUT;
+
+    // A provider that misses its timeout has its request cancelled rather than left running
+    const controller = new AbortController();
+    const abortFromCaller = () => controller.abort();
+    signal?.addEventListener('abort', abortFromCaller);
+
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timeoutId = setTimeout(() => {
+        reject(new PrivfiError('TIMEOUT', `${dex.getName()} did not respond within ${timeoutMs}ms`));
+        controller.abort();
+      }, timeoutMs);
+    });
+
+    try {
+      const response = await Promise.race([dex.getQuotes(request, controller.signal), timeout]);
+      return response.quotes.map(quote => ({ ...quote, provider, providerName: dex.getName() }));
+    } finally {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', abortFromCaller);
+    }
+  }
+}
+
+/**
+ * Map an orchestrated quote into the quote shape the swap UI renders.
+ * AVNU quotes keep their full payload; other aggregators fill what they report.
+ */
+export const toDisplayQuote = (quote: AggregatorQuote, request: QuoteRequest): AVNUQuote => {
+  if (quote.provider === 'avnu' && quote.raw) {
+    return { ...(quote.raw as AVNUQuote), provider: quote.provider, swapQuote: quote };
+  }
+
+  const toHex = (amount: string) => '0x' + BigInt(amount).toString(16);
+  const unitPrice = (amountInUsd: number, amount: string, decimals: number) => {
+    const units = toAmountNumber(toRawAmount(amount), decimals);
+    return units > 0 ? amountInUsd / units : 0;
+  };
+
+  return {
+    quoteId: quote.id,
+    sellTokenAddress: request.sellToken.address,
+    buyTokenAddress: request.buyToken.address,
+    sellAmount: toHex(quote.sellAmount),
+    buyAmount: toHex(quote.buyAmount),
+    sellAmountInUsd: quote.sellAmountInUsd,
+    buyAmountInUsd: quote.buyAmountInUsd,
+    buyAmountWithoutFees: toHex(quote.buyAmount),
+    buyAmountWithoutFeesInUsd: quote.buyAmountInUsd,
+    estimatedAmount: true,
+    chainId: '0x534e5f4d41494e', // SN_MAIN
+    blockNumber: '0x0',
+    expiry: quote.expiry ? Math.floor(quote.expiry / 1000) : null,
+    routes: quote.route.map(route => ({
+      name: route.name,
+      address: route.address,
+      percent: route.percentage,
+      sellTokenAddress: route.sellTokenAddress,
+      buyTokenAddress: route.buyTokenAddress,
+    })),
+    gasFees: '0x0',
+    gasFeesInUsd: quote.gasEstimate.gasFeeInUsd,
+    avnuFees: '0x0',
+    avnuFeesInUsd: 0,
+    avnuFeesBps: '0x0',
+    integratorFees: '0x0',
+    integratorFeesInUsd: 0,
+    integratorFeesBps: '0x0',
+    priceRatioUsd: 0,
+    liquiditySource: quote.providerName,
+    sellTokenPriceInUsd: unitPrice(quote.sellAmountInUsd, quote.sellAmount, request.sellToken.decimals),
+    buyTokenPriceInUsd: unitPrice(quote.buyAmountInUsd, quote.buyAmount, request.buyToken.decimals),
+    exactTokenTo: false,
+    estimatedSlippage: quote.slippage,
+    provider: quote.provider,
+    swapQuote: quote,
+  };
+};
@@ -1,5 +1,7 @@
-import { DEXFactory, DEXProvider } from './dexFactory';
-import { API_CONFIG } from '@/core/config';
+import { DEXFactory, DEXProvider, DEXFactoryConfig } from './dexFactory';
+import { API_CONFIG, MOCK_CONFIG } from '@/core/config';
+import { TyphoonService } from './typhoon';
+import { MockTyphoonService } from './mockTyphoon';
 
 // Import DEX implementations (will be created next)
 const createAVNUService = async () => {
@@ -7,6 +9,16 @@ const createAVNUService = async () => {
   return new AVNUService();
 };
 
+const createFibrousService = async () => {
+  const { FibrousService } = await import('./fibrous');
+  return new FibrousService();
+};
+
+const createMockDEXService = async () => {
+  const { MockDEXService } = await import('./mockDEX');
+  return new MockDEXService();
+};
+
 // Future DEX implementations can be added here
 // const createMySwapService = async () => {
 //   const { MySwapService } = await import('./myswap');
@@ -14,10 +26,17 @@ const createAVNUService = async () => {
 // };
 
 export const initializeDEXFactory = (): DEXFactory => {
-  const config = {
+  // Offline development and e2e tests use the scripted mock DEX only
+  const config: DEXFactoryConfig = MOCK_CONFIG.enabled ? {
+    defaultProvider: 'mock',
+    providers: {
+      mock: createMockDEXService,
+    },
+  } : {
     defaultProvider: 'avnu' as DEXProvider,
     providers: {
       avnu: createAVNUService,
+      fibrous: createFibrousService,
       // myswap: createMySwapService,
       // '10kswap': create10KSwapService,
     }
@@ -38,4 +57,8 @@ export const getDEXFactory = (): DEXFactory => {
 
 // Convenience functions
 export const getDefaultDEX = () => getDEXFactory().getDefaultDEX();
-export const getDEXProvider = (provider: DEXProvider) => getDEXFactory().getDEXProvider(provider);
\ No newline at end of file
+export const getDEXProvider = (provider: DEXProvider) => getDEXFactory().getDEXProvider(provider);
+
+// Typhoon privacy layer, replaced by the scripted mock when MOCK_CONFIG is enabled
+export const createTyphoonService = (): TyphoonService =>
+  MOCK_CONFIG.enabled ? new MockTyphoonService() : new TyphoonService();
\ No newline at end of file
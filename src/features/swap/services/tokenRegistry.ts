@@ -0,0 +1,192 @@
+import { byteArray, shortString } from 'starknet';
+import { STARKNET_TOKENS, Token } from '@/constants/tokens';
+import { MOCK_CONFIG, TOKEN_LIST_CONFIG } from '@/core/config';
+import { getRpcProvider } from '@/core/rpc';
+import { isValidStarknetAddress } from '@/shared/utils/lib/inputValidation';
+import { AVNUService } from './avnu';
+
+const TOKEN_LIST_STORAGE_KEY = 'privfi_token_list';
+const IMPORTED_TOKENS_STORAGE_KEY = 'privfi_imported_tokens';
+
+interface CachedTokenList {
+  fetchedAt: number;
+  tokens: Token[];
+}
+
+/**
+ * Compare Starknet addresses regardless of zero padding and casing
+ */
+export const isSameTokenAddress = (a: string, b: string): boolean => {
+  try {
+    return BigInt(a) === BigInt(b);
+  } catch (error) {
+    return false;
+  }
+};
+
+/**
+ * Filter tokens by symbol, name or address, best matches first
+ */
+export const searchTokens = (tokens: Token[], query: string): Token[] => {
+  const term = query.trim().toLowerCase();
+  if (!term) {
+    return tokens;
+  }
+
+  if (term.startsWith('0x')) {
+    return tokens.filter(token =>
+      isValidStarknetAddress(term)
+        ? isSameTokenAddress(token.address, term)
+        : token.address.toLowerCase().startsWith(term)
+    );
+  }
+
+  const rank = (token: Token): number => {
+    const symbol = token.symbol.toLowerCase();
+    if (symbol === term) return 0;
+    if (symbol.startsWith(term)) return 1;
+    if (token.name.toLowerCase().startsWith(term)) return 2;
+    if (symbol.includes(term) || token.name.toLowerCase().includes(term)) return 3;
+    return -1;
+  };
+
+  return tokens
+    .map(token => ({ token, rank: rank(token) }))
+    .filter(({ rank }) => rank >= 0)
+    .sort((a, b) => a.rank - b.rank)
+    .map(({ token }) => token);
+};
+
+/**
+ * Token list for the selectors: built-in tokens, the AVNU verified list and
+ * tokens the user imported by contract address.
+ */
+export class TokenRegistryService {
+  private avnuService = new AVNUService();
+
+  async getTokens(): Promise<Token[]> {
+    const listed = await this.loadTokenList();
+    return mergeTokens([...Object.values(STARKNET_TOKENS), ...listed, ...this.getImportedTokens()]);
+  }
+
+  /**
+   * Verified token list from AVNU, cached in localStorage.
+   * Falls back to a stale cache, then to no extra tokens, when the API is unavailable.
+   */
+  async loadTokenList(): Promise<Token[]> {
+    // Mock mode stays offline and only offers the built-in tokens
+    if (MOCK_CONFIG.enabled) {
+      return [];
+    }
+
+    const cached = readJson<CachedTokenList>(TOKEN_LIST_STORAGE_KEY);
+    if (cached && Date.now() - cached.fetchedAt < TOKEN_LIST_CONFIG.cacheTtlMs) {
+      return cached.tokens;
+    }
+
+    try {
+      const tokens = (await this.avnuService.getSupportedTokens()).map(token => ({
+        address: token.address,
+        symbol: token.symbol,
+        name: token.name,
+        decimals: token.decimals,
+        logoURI: token.logoUri,
+        verified: true,
+      }));
+      localStorage.setItem(TOKEN_LIST_STORAGE_KEY, JSON.stringify({ fetchedAt: Date.now(), tokens }));
+      return tokens;
+    } catch (error) {
+      return cached?.tokens ?? [];
+    }
+  }
+
+  getImportedTokens(): Token[] {
+    return readJson<Token[]>(IMPORTED_TOKENS_STORAGE_KEY) ?? [];
+  }
+
+  /**
+   * Import a token by contract address, reading its metadata on-chain.
+   * Returns the known token instead when the address is already listed.
+   */
+  async importToken(address: string): Promise<Token> {
+    const normalized = address.trim().toLowerCase();
+    if (!isValidStarknetAddress(normalized)) {
+      throw new Error('Invalid token contract address');
+    }
+
+    const existing = (await this.getTokens()).find(token => isSameTokenAddress(token.address, normalized));
+    if (existing) {
+      return existing;
+    }
+
+    const [symbol, name, decimals] = await Promise.all([
+      this.readString(normalized, 'symbol'),
+      this.readString(normalized, 'name').catch(() => ''),
+      this.readDecimals(normalized),
+    ]);
+
+    if (!symbol) {
+      throw new Error('Contract does not look like an ERC-20 token');
+    }
+
+    const token: Token = {
+      address: normalized,
+      symbol,
+      name: name || symbol,
+      decimals,
+      verified: false,
+    };
+
+    localStorage.setItem(IMPORTED_TOKENS_STORAGE_KEY, JSON.stringify([...this.getImportedTokens(), token]));
+    return token;
+  }
+
+  removeImportedToken(address: string): void {
+    const remaining = this.getImportedTokens().filter(token => !isSameTokenAddress(token.address, address));
+    localStorage.setItem(IMPORTED_TOKENS_STORAGE_KEY, JSON.stringify(remaining));
+  }
+
+  // Cairo 0 tokens return a short string felt, Cairo 1 tokens a ByteArray
+  private async readString(contractAddress: string, entrypoint: string): Promise<string> {
+    const result = await getRpcProvider().callContract({ contractAddress, entrypoint });
+    if (result.length === 1) {
+      return shortString.decodeShortString(result[0]);
+    }
+
+    const dataLength = Number(BigInt(result[0]));
+    return byteArray.stringFromByteArray({
+      data: result.slice(1, 1 + dataLength),
+      pending_word: result[1 + dataLength],
+      pending_word_len: result[2 + dataLength],
+    });
+  }
+
+  private async readDecimals(contractAddress: string): Promise<number> {
+    const result = await getRpcProvider().callContract({ contractAddress, entrypoint: 'decimals' });
+    const decimals = Number(BigInt(result[0]));
+    if (!Number.isInteger(decimals) || decimals > 255) {
+      throw new Error('Token returned invalid decimals');
+    }
+    return decimals;
+  }
+}
+
+// Keep the first occurrence of each address so built-in tokens win over list entries
+function mergeTokens(tokens: Token[]): Token[] {
+  const seen = new Set<string>();
+  return tokens.filter(token => {
+    const key = BigInt(token.address).toString(16);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+function readJson<T>(key: string): T | null {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? JSON.parse(stored) : null;
+  } catch (error) {
+    return null;
+  }
+}
@@ -0,0 +1,160 @@
+import { Account, AccountInterface, Call, hash, num } from 'starknet';
+import { SwapBalanceDelta, SwapSimulation } from '../types/swap';
+
+interface TraceEvent {
+  keys: string[];
+  data: string[];
+}
+
+interface TraceInvocation {
+  contract_address: string;
+  events?: TraceEvent[];
+  calls?: TraceInvocation[];
+}
+
+interface RevertedInvocation {
+  revert_reason: string;
+}
+
+interface InvokeTrace {
+  execute_invocation?: TraceInvocation | RevertedInvocation;
+}
+
+const isRevertedInvocation = (invocation: TraceInvocation | RevertedInvocation): invocation is RevertedInvocation =>
+  'revert_reason' in invocation;
+
+const TRANSFER_SELECTOR = num.toBigInt(hash.getSelectorFromName('Transfer'));
+
+// Known revert messages and what they mean for the user, checked in order
+const REVERT_REASONS: { pattern: RegExp; reason: string }[] = [
+  { pattern: /allowance/i, reason: 'the token allowance is too low for this swap' },
+  {
+    pattern: /insufficient (balance|funds)|exceeds balance|u256_sub overflow|balance too low/i,
+    reason: 'your balance is too low to cover the swap and its fees',
+  },
+  {
+    pattern: /slippage|insufficient (output|tokens received|amount out)|min(imum)?[ _]amount[ _]out|too little received/i,
+    reason: 'the price moved beyond your slippage tolerance',
+  },
+  {
+    pattern: /typhoon|deposit amount|below (the )?minimum|amount too (small|low)/i,
+    reason: 'the amount is below the Typhoon deposit minimum',
+  },
+];
+
+/**
+ * Readable reason for a revert message, falls back to the first line of the raw message
+ */
+export function describeRevertReason(message: string): string {
+  const known = REVERT_REASONS.find(({ pattern }) => pattern.test(message));
+  if (known) {
+    return known.reason;
+  }
+
+  const firstLine = message.split('\n').find(line => line.trim().length > 0)?.trim() ?? 'the transaction reverted';
+  return firstLine.length > 160 ? `${firstLine.slice(0, 157)}...` : firstLine;
+}
+
+/**
+ * Dry-runs a multicall against the latest block before the wallet is asked to sign it.
+ * Reports the network fee, the revert reason when it would fail, and the token
+ * balance changes of the account derived from the Transfer events.
+ */
+export class TransactionSimulator {
+  private account: AccountInterface;
+
+  constructor(account: AccountInterface) {
+    this.account = account;
+  }
+
+  /**
+   * Simulate the calls. Resolves with a reverted result when the transaction would fail,
+   * and rejects when the simulation itself could not run (RPC or wallet errors).
+   */
+  async simulate(calls: Call[]): Promise<SwapSimulation> {
+    try {
+      // Only full accounts expose simulation, wallet-only accounts can still estimate the fee
+      if (!(this.account instanceof Account)) {
+        const estimate = await this.account.estimateInvokeFee(calls, { skipValidate: true });
+        return {
+          status: 'success',
+          networkFee: { amount: estimate.overall_fee.toString(), unit: estimate.unit },
+          balanceDeltas: [],
+        };
+      }
+
+      const [result] = await this.account.simulateTransaction(
+        [{ type: 'INVOKE', payload: calls }],
+        { skipValidate: true }
+      );
+      const networkFee = { amount: result.overall_fee.toString(), unit: result.unit };
+      const execution = (result.transaction_trace as InvokeTrace).execute_invocation;
+
+      if (!execution || isRevertedInvocation(execution)) {
+        return {
+          status: 'reverted',
+          networkFee,
+          revertReason: describeRevertReason((execution as RevertedInvocation | undefined)?.revert_reason ?? ''),
+          balanceDeltas: [],
+        };
+      }
+
+      return {
+        status: 'success',
+        networkFee,
+        balanceDeltas: this.getBalanceDeltas(execution),
+      };
+    } catch (error) {
+      // Nodes report a failing execution as an estimation error
+      const message = error instanceof Error ? error.message : String(error);
+      if (/revert|execution_error|execution failed|failure reason/i.test(message)) {
+        return { status: 'reverted', revertReason: describeRevertReason(message), balanceDeltas: [] };
+      }
+      throw new Error(`Transaction simulation unavailable: ${message}`);
+    }
+  }
+
+  private getBalanceDeltas(invocation: TraceInvocation): SwapBalanceDelta[] {
+    const accountAddress = num.toBigInt(this.account.address);
+    const deltas = new Map<string, bigint>();
+
+    const visit = (call: TraceInvocation) => {
+      for (const event of call.events ?? []) {
+        const transfer = parseTransferEvent(event);
+        if (!transfer) continue;
+
+        const token = num.toHex(call.contract_address);
+        let delta = deltas.get(token) ?? BigInt(0);
+        if (transfer.to === accountAddress) delta += transfer.amount;
+        if (transfer.from === accountAddress) delta -= transfer.amount;
+        deltas.set(token, delta);
+      }
+      call.calls?.forEach(visit);
+    };
+    visit(invocation);
+
+    return [...deltas.entries()]
+      .filter(([, amount]) => amount !== BigInt(0))
+      .map(([tokenAddress, amount]) => ({ tokenAddress, amount: amount.toString() }));
+  }
+}
+
+// Cairo 1 tokens key the sender and recipient, Cairo 0 tokens put them in the data
+function parseTransferEvent(event: TraceEvent): { from: bigint; to: bigint; amount: bigint } | null {
+  if (event.keys.length === 0 || num.toBigInt(event.keys[0]) !== TRANSFER_SELECTOR) {
+    return null;
+  }
+
+  const [from, to, low, high] = event.keys.length >= 3
+    ? [event.keys[1], event.keys[2], event.data[0], event.data[1]]
+    : event.data;
+  if (from === undefined || to === undefined || low === undefined) {
+    return null;
+  }
+
+  return {
+    from: num.toBigInt(from),
+    to: num.toBigInt(to),
+    amount: num.toBigInt(low) + (num.toBigInt(high ?? '0x0') << BigInt(128)),
+  };
+}
@@ -0,0 +1,111 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ProviderInterface, RpcError } from 'starknet';
+import { TransactionFailedError, TransactionWatchUpdate, TransactionWatcher } from './transactionWatcher';
+
+const HASH = '0xabc';
+const POLL_INTERVAL_MS = 1000;
+const DROPPED_AFTER_MS = 10000;
+
+type StatusResult = { finality_status: string; execution_status?: string; failure_reason?: string };
+
+const notFound = () => new RpcError({ code: 29, message: 'Transaction hash not found' }, 'starknet_getTransactionStatus', {});
+
+// Node answering each status poll from the given script, the last answer repeating
+const scriptedNode = (statuses: Array<StatusResult | Error>, { includedIn = 100, latestBlock = 100 } = {}) => {
+  let poll = 0;
+  const provider = {
+    getTransactionStatus: vi.fn(async () => {
+      const status = statuses[Math.min(poll++, statuses.length - 1)];
+      if (status instanceof Error) throw status;
+      return status;
+    }),
+    getTransactionReceipt: vi.fn(async () => ({ block_number: includedIn })),
+    getBlockNumber: vi.fn(async () => latestBlock),
+  };
+  return provider as typeof provider & ProviderInterface;
+};
+
+const watcher = (provider: ProviderInterface, confirmationBlocks = 1) =>
+  new TransactionWatcher(provider, { pollIntervalMs: POLL_INTERVAL_MS, confirmationBlocks, droppedAfterMs: DROPPED_AFTER_MS });
+
+const ACCEPTED: StatusResult = { finality_status: 'ACCEPTED_ON_L2', execution_status: 'SUCCEEDED' };
+const RECEIVED: StatusResult = { finality_status: 'RECEIVED' };
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('getStatus', () => {
+  it('reports a transaction the node does not know as not found', async () => {
+    expect(await watcher(scriptedNode([notFound()])).getStatus(HASH)).toEqual({ transactionHash: HASH, status: 'NOT_FOUND', confirmations: 0 });
+  });
+
+  it('fails with RPC_UNAVAILABLE when the node cannot be asked', async () => {
+    await expect(watcher(scriptedNode([new Error('fetch failed')])).getStatus(HASH)).rejects.toMatchObject({ code: 'RPC_UNAVAILABLE' });
+  });
+
+  it('reports reverts with their reason', async () => {
+    const node = scriptedNode([{ finality_status: 'ACCEPTED_ON_L2', execution_status: 'REVERTED', failure_reason: 'slippage' }]);
+    expect(await watcher(node).getStatus(HASH)).toMatchObject({ status: 'REVERTED', revertReason: 'slippage' });
+  });
+
+  it('counts confirmations from the including block', async () => {
+    const node = scriptedNode([ACCEPTED], { includedIn: 100, latestBlock: 102 });
+    expect(await watcher(node).getStatus(HASH)).toMatchObject({ status: 'ACCEPTED_ON_L2', blockNumber: 100, confirmations: 3 });
+  });
+});
+
+describe('watch', () => {
+  it('resolves once accepted with enough confirmations and reports each change', async () => {
+    const node = scriptedNode([RECEIVED, RECEIVED, ACCEPTED], { includedIn: 100, latestBlock: 101 });
+    const updates: TransactionWatchUpdate[] = [];
+
+    const watched = watcher(node, 2).watch(HASH, { onUpdate: update => updates.push(update) });
+    await vi.advanceTimersByTimeAsync(POLL_INTERVAL_MS * 2);
+
+    expect(await watched).toMatchObject({ status: 'ACCEPTED_ON_L2', confirmations: 2 });
+    expect(updates.map(update => update.status)).toEqual(['RECEIVED', 'ACCEPTED_ON_L2']);
+  });
+
+  it('rejects with a TransactionFailedError when the transaction reverts', async () => {
+    const node = scriptedNode([{ finality_status: 'ACCEPTED_ON_L2', execution_status: 'REVERTED', failure_reason: 'slippage' }]);
+    const error = await watcher(node).watch(HASH).catch(e => e);
+    expect(error).toBeInstanceOf(TransactionFailedError);
+    expect(error.message).toBe('Transaction reverted: slippage');
+  });
+
+  it('gives up on a transaction the node never learns about', async () => {
+    const watched = watcher(scriptedNode([notFound()])).watch(HASH).catch(e => e);
+    await vi.advanceTimersByTimeAsync(DROPPED_AFTER_MS + POLL_INTERVAL_MS);
+    expect((await watched).update.status).toBe('NOT_FOUND');
+  });
+
+  it('does not count node outages toward the dropped window', async () => {
+    const outage = Array.from({ length: 12 }, () => new Error('fetch failed'));
+    const watched = watcher(scriptedNode([...outage, ACCEPTED])).watch(HASH);
+    await vi.advanceTimersByTimeAsync(POLL_INTERVAL_MS * outage.length);
+    expect(await watched).toMatchObject({ status: 'ACCEPTED_ON_L2' });
+  });
+
+  it('stops polling when aborted and leaves no listeners on the signal', async () => {
+    const controller = new AbortController();
+    const added = vi.spyOn(controller.signal, 'addEventListener');
+    const removed = vi.spyOn(controller.signal, 'removeEventListener');
+    const node = scriptedNode([RECEIVED]);
+
+    const watched = watcher(node).watch(HASH, { signal: controller.signal }).catch(e => e);
+    await vi.advanceTimersByTimeAsync(POLL_INTERVAL_MS * 5);
+    expect(added).toHaveBeenCalledTimes(6);
+    expect(removed).toHaveBeenCalledTimes(5);
+
+    controller.abort();
+    expect((await watched).message).toBe('Transaction watch was cancelled');
+    const polls = node.getTransactionStatus.mock.calls.length;
+    await vi.advanceTimersByTimeAsync(POLL_INTERVAL_MS * 5);
+    expect(node.getTransactionStatus).toHaveBeenCalledTimes(polls);
+  });
+});
@@ -0,0 +1,181 @@
+import { ProviderInterface, RpcError } from 'starknet';
+import { TRANSACTION_CONFIG } from '@/core/config';
+import { PrivfiError, toPrivfiError } from '@/core/errors';
+import { getRpcProvider } from '@/core/rpc';
+
+export type TransactionWatchStatus =
+  | 'NOT_FOUND'
+  | 'RECEIVED'
+  | 'ACCEPTED_ON_L2'
+  | 'ACCEPTED_ON_L1'
+  | 'REVERTED'
+  | 'REJECTED';
+
+export interface TransactionWatchUpdate {
+  transactionHash: string;
+  status: TransactionWatchStatus;
+  blockNumber?: number;
+  confirmations: number; // Blocks including the transaction's own, 0 until it is in a block
+  revertReason?: string;
+}
+
+export interface TransactionWatchOptions {
+  onUpdate?: (update: TransactionWatchUpdate) => void;
+  signal?: AbortSignal;
+  submittedAt?: number; // Start of the dropped-transaction window, defaults to now
+}
+
+export interface TransactionWatcherConfig {
+  pollIntervalMs: number;
+  confirmationBlocks: number;
+  droppedAfterMs: number;
+}
+
+/**
+ * Thrown when a watched transaction reverted, was rejected or was dropped
+ */
+export class TransactionFailedError extends PrivfiError {
+  readonly update: TransactionWatchUpdate;
+
+  constructor(update: TransactionWatchUpdate) {
+    const message = update.status === 'REVERTED'
+      ? `Transaction reverted: ${update.revertReason || 'unknown reason'}`
+      : update.status === 'REJECTED'
+        ? 'Transaction was rejected by the network'
+        : 'Transaction was never accepted by the network';
+    super('TRANSACTION_FAILED', message, { userMessage: message });
+    this.name = 'TransactionFailedError';
+    this.update = update;
+  }
+}
+
+/**
+ * Polls transaction status and receipts until a transaction is accepted with enough
+ * confirmations, or fails. The provider is resolved on every poll, so a watch follows
+ * an RPC failover instead of polling the endpoint that went down.
+ */
+export class TransactionWatcher {
+  private resolveProvider: () => ProviderInterface;
+  private config: TransactionWatcherConfig;
+
+  constructor(
+    provider: ProviderInterface | (() => ProviderInterface) = getRpcProvider,
+    config: Partial<TransactionWatcherConfig> = {}
+  ) {
+    this.resolveProvider = typeof provider === 'function' ? provider : () => provider;
+    this.config = { ...TRANSACTION_CONFIG, ...config };
+  }
+
+  getConfirmationBlocks(): number {
+    return this.config.confirmationBlocks;
+  }
+
+  /**
+   * Current status of a transaction. Transactions the node does not know report NOT_FOUND;
+   * any other failure to ask, such as a node error or timeout, throws an RPC_UNAVAILABLE PrivfiError.
+   */
+  async getStatus(transactionHash: string): Promise<TransactionWatchUpdate> {
+    const provider = this.resolveProvider();
+    let result: { finality_status: string; execution_status?: string; failure_reason?: string };
+    try {
+      result = await provider.getTransactionStatus(transactionHash);
+    } catch (error) {
+      if (error instanceof RpcError && error.isType('TXN_HASH_NOT_FOUND')) {
+        return { transactionHash, status: 'NOT_FOUND', confirmations: 0 };
+      }
+      throw toPrivfiError(error, 'RPC_UNAVAILABLE');
+    }
+
+    if (result.execution_status === 'REVERTED') {
+      return { transactionHash, status: 'REVERTED', confirmations: 0, revertReason: result.failure_reason };
+    }
+    if (result.finality_status === 'REJECTED') {
+      return { transactionHash, status: 'REJECTED', confirmations: 0 };
+    }
+    const status = result.finality_status;
+    if (status !== 'ACCEPTED_ON_L2' && status !== 'ACCEPTED_ON_L1') {
+      // Received, candidate and pre-confirmed transactions are not final yet
+      return { transactionHash, status: 'RECEIVED', confirmations: 0 };
+    }
+
+    // The receipt carries the including block, which gives the confirmation depth
+    let blockNumber: number | undefined;
+    let latestBlock: number | undefined;
+    try {
+      const receipt = await provider.getTransactionReceipt(transactionHash);
+      blockNumber = 'block_number' in receipt ? receipt.block_number : undefined;
+      latestBlock = blockNumber !== undefined ? await provider.getBlockNumber() : undefined;
+    } catch (error) {
+      // Count the acceptance itself as one confirmation until the receipt is readable
+    }
+
+    return {
+      transactionHash,
+      status,
+      blockNumber,
+      confirmations: blockNumber !== undefined && latestBlock !== undefined
+        ? Math.max(1, latestBlock - blockNumber + 1)
+        : 1,
+    };
+  }
+
+  /**
+   * Resolve once the transaction is accepted with the configured confirmations.
+   * Rejects with a TransactionFailedError when it reverts, is rejected or is dropped.
+   * Polls that fail to reach the node are retried and do not count toward the dropped window.
+   */
+  async watch(transactionHash: string, options: TransactionWatchOptions = {}): Promise<TransactionWatchUpdate> {
+    const { onUpdate, signal, submittedAt = Date.now() } = options;
+    let lastUpdate: TransactionWatchUpdate | null = null;
+    let unavailableMs = 0;
+
+    while (!signal?.aborted) {
+      const pollStartedAt = Date.now();
+      let update: TransactionWatchUpdate;
+      try {
+        update = await this.getStatus(transactionHash);
+      } catch (error) {
+        await waitFor(this.config.pollIntervalMs, signal);
+        unavailableMs += Date.now() - pollStartedAt;
+        continue;
+      }
+
+      if (!lastUpdate || lastUpdate.status !== update.status || lastUpdate.confirmations !== update.confirmations) {
+        lastUpdate = update;
+        onUpdate?.(update);
+      }
+
+      if (update.status === 'REVERTED' || update.status === 'REJECTED') {
+        throw new TransactionFailedError(update);
+      }
+      if (update.status === 'NOT_FOUND' && Date.now() - submittedAt - unavailableMs > this.config.droppedAfterMs) {
+        throw new TransactionFailedError(update);
+      }
+      if (
+        (update.status === 'ACCEPTED_ON_L2' || update.status === 'ACCEPTED_ON_L1') &&
+        update.confirmations >= this.config.confirmationBlocks
+      ) {
+        return update;
+      }
+
+      await waitFor(this.config.pollIntervalMs, signal);
+    }
+
+    throw new Error('Transaction watch was cancelled');
+  }
+}
+
+function waitFor(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    // The listener is removed once the timer fires, so a long watch does not pile them up on the signal
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      resolve();
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -1,4 +1,5 @@
 import { TyphoonSDK } from 'typhoon-sdk';
+import { Call } from 'starknet';
 import { BaseDEXService } from './baseDEX';
 import { Token, SwapQuote } from '@/shared/types';
 import { QuoteRequest, QuoteResponse, ExecuteSwapRequest, ExecuteSwapResponse } from '../types';
@@ -11,26 +12,42 @@ import {
 import {
   loadTyphoonDepositData,
   saveTyphoonDepositData,
-  clearTyphoonDepositData,
-  clearAllTyphoonData,
+  updateTyphoonDepositStatus,
+  withTyphoonWithdrawalLock,
   TyphoonDepositData
 } from '../utils/typhoonStorage';
+import { allocateRecipientNotes } from '../utils/withdrawalSplits';
+import { getDepositNoteAmounts } from '../utils/typhoonCalls';
+import { getRpcProvider } from '@/core/rpc';
+import { PrivfiError, isPrivfiError, toPrivfiError } from '@/core/errors';
+import { getTokenByAddress } from '@/constants/tokens';
+import { parseAmount } from '@/shared/utils/lib/amounts';
 
 export class TyphoonService extends BaseDEXService {
-  private sdk: TyphoonSDK;
+  private sdkInstance: TyphoonSDK | null = null;
   private isInitialized: boolean = false;
   private initializationPromise: Promise<void> | null = null;
   private tempSdkData: {
     secrets: unknown[];
     nullifiers: unknown[];
     pools: unknown[];
+    noteAmounts?: string[];
     tokenAddress: string;
     amount: string;
   } | null = null;
+  // The SDK holds the state of a single deposit, so this instance withdraws one deposit at a time
+  private withdrawalQueue: Promise<unknown> = Promise.resolve();
 
   constructor() {
     super('Typhoon', '', 10000);
-    this.sdk = new TyphoonSDK();
+  }
+
+  // Created on first use, so the mock service, which never reaches the SDK, never builds one
+  private get sdk(): TyphoonSDK {
+    if (!this.sdkInstance) {
+      this.sdkInstance = new TyphoonSDK();
+    }
+    return this.sdkInstance;
   }
 
   private async initializeSDK(mode: 'deposit' | 'withdrawal' = 'deposit'): Promise<void> {
@@ -80,6 +97,10 @@ export class TyphoonService extends BaseDEXService {
     throw new Error('Use executePrivateSwap method instead');
   }
 
+  async buildSwapCalls(request: ExecuteSwapRequest): Promise<Call[]> {
+    throw new Error('Use generateApproveAndDepositCalls method instead');
+  }
+
   async getSupportedTokens(): Promise<Token[]> {
     // Typhoon supports same tokens as the underlying DEX
     return [];
@@ -118,6 +139,24 @@ export class TyphoonService extends BaseDEXService {
     return '0.001';
   }
 
+  /**
+   * Throws when a deposit is below the minimal amount Typhoon mixes. Tokens the app
+   * does not know the decimals of are left for the SDK to check.
+   */
+  validateDepositAmount(amountOut: string, tokenOutAddr: string): void {
+    const token = getTokenByAddress(tokenOutAddr);
+    if (!token) {
+      return;
+    }
+
+    const minimum = this.getTokenMinimalAmount(tokenOutAddr);
+    if (BigInt(amountOut) < parseAmount(minimum, token.decimals)) {
+      throw new PrivfiError('TYPHOON_MINIMUM', `Deposit of ${amountOut} is below the Typhoon minimum of ${minimum} ${token.symbol}`, {
+        userMessage: `Private swaps require a minimum of ${minimum} ${token.symbol}`,
+      });
+    }
+  }
+
   /**
    * Generate approve and deposit calls for private swap
    * Also saves the generated SDK data for later withdrawal
@@ -129,6 +168,7 @@ export class TyphoonService extends BaseDEXService {
     transactionHash?: string
   ): Promise<TyphoonDepositCall[]> {
     try {
+      this.validateDepositAmount(amountOut, tokenOutAddr);
 
       // Ensure SDK is initialized
       await this.initializeSDK('deposit');
@@ -141,6 +181,13 @@ export class TyphoonService extends BaseDEXService {
         tokenOutAddr
       );
 
+      let noteAmounts: string[] | undefined;
+      try {
+        noteAmounts = getDepositNoteAmounts(depositCalls).map(amount => amount.toString());
+      } catch (noteError) {
+        // Read from the pools' denominations at withdrawal instead
+      }
+
       // CRITICAL: Save SDK data after generation (as per Typhoon docs)
       try {
         const secrets = this.sdk.get_secrets();
@@ -154,19 +201,22 @@ export class TyphoonService extends BaseDEXService {
             secrets: secrets || [],
             nullifiers: nullifiers || [],
             pools: pools || [],
+            noteAmounts,
             tokenAddress: tokenOutAddr,
             amount: amountOut,
             timestamp: Date.now(),
-            walletAddress
+            walletAddress,
+            status: 'pending'
           };
 
-          saveTyphoonDepositData(depositData);
+          await saveTyphoonDepositData(depositData);
         } else if (secrets?.length || nullifiers?.length || pools?.length) {
           // Store temporarily if we don't have transaction hash yet
           this.tempSdkData = {
             secrets: secrets || [],
             nullifiers: nullifiers || [],
             pools: pools || [],
+            noteAmounts,
             tokenAddress: tokenOutAddr,
             amount: amountOut
           };
@@ -178,14 +228,18 @@ export class TyphoonService extends BaseDEXService {
 
       return depositCalls;
     } catch (error) {
+      if (isPrivfiError(error)) {
+        throw error;
+      }
 
-      // Check if this is an RPC-related error
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      if (errorMessage.includes('500') || errorMessage.includes('Internal error') || errorMessage.includes('RPC')) {
-        throw new Error('Typhoon service is temporarily unavailable due to RPC issues. Please try again later or use regular swap mode.');
+      const typhoonError = toPrivfiError(error, 'TYPHOON_UNAVAILABLE');
+      if (typhoonError.code === 'RPC_UNAVAILABLE') {
+        throw typhoonError;
       }
 
-      throw new Error(`Typhoon deposit call generation failed: ${errorMessage}`);
+      throw new PrivfiError('TYPHOON_UNAVAILABLE', `Typhoon deposit call generation failed: ${typhoonError.message}`, {
+        cause: error,
+      });
     }
   }
 
@@ -211,13 +265,15 @@ export class TyphoonService extends BaseDEXService {
         secrets: this.tempSdkData.secrets,
         nullifiers: this.tempSdkData.nullifiers,
         pools: this.tempSdkData.pools,
+        noteAmounts: this.tempSdkData.noteAmounts,
         tokenAddress: this.tempSdkData.tokenAddress,
         amount: this.tempSdkData.amount,
         timestamp: Date.now(),
-        walletAddress
+        walletAddress,
+        status: 'pending'
       };
 
-      saveTyphoonDepositData(depositData);
+      await saveTyphoonDepositData(depositData);
 
       // Clear temporary data after saving
       this.tempSdkData = null;
@@ -241,26 +297,58 @@ export class TyphoonService extends BaseDEXService {
         depositCalls,
       };
     } catch (error) {
-      throw new Error(`Private swap failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw toPrivfiError(error, 'TYPHOON_UNAVAILABLE');
+    }
+  }
+
+  /**
+   * Value of each note of a deposit. Records saved before note amounts were stored
+   * ask each pool for its denomination instead.
+   */
+  protected async getNoteAmounts(depositData: TyphoonDepositData): Promise<bigint[]> {
+    if (depositData.noteAmounts?.length === depositData.pools.length) {
+      return depositData.noteAmounts.map(amount => BigInt(amount));
+    }
+
+    const denominations = new Map<string, bigint>();
+    for (const pool of new Set(depositData.pools.map(String))) {
+      const [low, high = '0x0'] = await getRpcProvider().callContract({ contractAddress: pool, entrypoint: 'denomination' });
+      denominations.set(pool, BigInt(low) + (BigInt(high) << BigInt(128)));
     }
+    return depositData.pools.map(pool => denominations.get(String(pool)) as bigint);
   }
 
   /**
    * Withdraw funds after private swap completion
-   * Restores SDK state from stored deposit data before withdrawal
+   * Restores SDK state from stored deposit data before withdrawal.
+   * Throws WITHDRAWAL_IN_PROGRESS while another withdrawal of the deposit is running.
    */
   async withdraw(withdrawRequest: TyphoonWithdrawRequest): Promise<void> {
+    return withTyphoonWithdrawalLock(withdrawRequest.transactionHash, () => {
+      const withdrawal = this.withdrawalQueue.then(() => this.performWithdraw(withdrawRequest));
+      this.withdrawalQueue = withdrawal.catch(() => undefined);
+      return withdrawal;
+    });
+  }
+
+  private async performWithdraw(withdrawRequest: TyphoonWithdrawRequest): Promise<void> {
+    let depositData: TyphoonDepositData | null = null;
+
     try {
       // Initialize SDK for withdrawal with empty state first
       await this.initializeSDK('withdrawal');
 
       // CRITICAL: Load specific deposit data for this transaction
-      const depositData = loadTyphoonDepositData(withdrawRequest.transactionHash);
+      depositData = await loadTyphoonDepositData(withdrawRequest.transactionHash);
 
       if (!depositData) {
         throw new Error(`No deposit data found for transaction ${withdrawRequest.transactionHash}. Cannot withdraw without original deposit secrets.`);
       }
 
+      if (depositData.status === 'withdrawn') {
+        throw new Error(`Deposit ${withdrawRequest.transactionHash} has already been withdrawn`);
+      }
+
       // Validate deposit data quality and consistency
       if (!depositData.secrets || !Array.isArray(depositData.secrets)) {
         throw new Error('Invalid deposit data: secrets must be a valid array');
@@ -307,21 +395,44 @@ export class TyphoonService extends BaseDEXService {
         ? withdrawRequest.transactionHash
         : `0x${withdrawRequest.transactionHash}`;
 
+      // With splits, expand the recipients into one receiver per deposit note
+      const receiverList = withdrawRequest.splitPercentages
+        ? allocateRecipientNotes(
+            withdrawRequest.recipientAddresses,
+            withdrawRequest.splitPercentages,
+            await this.getNoteAmounts(depositData)
+          )
+        : withdrawRequest.recipientAddresses;
+
       const withdrawCalldata = await this.sdk.get_withdraw_calldata(
         formattedTxHash,
-        withdrawRequest.recipientAddresses
+        receiverList
       );
 
       const result = await this.sdk.withdraw(
         formattedTxHash,
-        withdrawRequest.recipientAddresses
+        receiverList
       );
 
-      // Clean up stored data after successful withdrawal
-      clearAllTyphoonData();
+      // Keep the deposit in the history, marked as withdrawn
+      await updateTyphoonDepositStatus(withdrawRequest.transactionHash, 'withdrawn').catch(() => {
+        // Funds are already withdrawn; a stale status is not worth failing for
+      });
     } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+      // Record the failure so the deposit can be retried later. The status is read again
+      // because a withdrawal from another tab may have succeeded while this one ran.
+      const storedData = depositData
+        ? await loadTyphoonDepositData(withdrawRequest.transactionHash).catch(() => null)
+        : null;
+      if (storedData && storedData.status !== 'withdrawn') {
+        await updateTyphoonDepositStatus(withdrawRequest.transactionHash, 'failed', errorMessage).catch(() => {
+          // Failed to record withdrawal failure
+        });
+      }
 
-      throw new Error(`Withdrawal failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new PrivfiError('WITHDRAWAL_FAILED', `Withdrawal failed: ${errorMessage}`, { cause: error });
     }
   }
 }
\ No newline at end of file
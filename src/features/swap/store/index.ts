@@ -1 +1,2 @@
-export * from './swapStore';
\ No newline at end of file
+export * from './swapStore';
+export * from './swapHistoryStore';
\ No newline at end of file
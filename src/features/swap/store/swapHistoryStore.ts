@@ -0,0 +1,49 @@
+import { create } from 'zustand';
+import { devtools, persist } from 'zustand/middleware';
+import { SwapHistoryEntry } from '../types/swap';
+
+interface SwapHistoryState {
+  entries: SwapHistoryEntry[]; // Newest first
+}
+
+interface SwapHistoryActions {
+  addEntry: (entry: SwapHistoryEntry) => void;
+  updateEntry: (transactionHash: string, changes: Partial<Omit<SwapHistoryEntry, 'transactionHash' | 'createdAt'>>) => void;
+  removeEntry: (transactionHash: string) => void;
+  clearHistory: () => void;
+}
+
+type SwapHistoryStore = SwapHistoryState & SwapHistoryActions;
+
+export const useSwapHistoryStore = create<SwapHistoryStore>()(
+  devtools(
+    persist(
+      (set) => ({
+        entries: [],
+
+        addEntry: (entry) => set((state) => ({
+          entries: [entry, ...state.entries.filter(e => e.transactionHash !== entry.transactionHash)],
+        })),
+
+        // Updates for swaps that were never recorded, e.g. from before the history existed, are dropped
+        updateEntry: (transactionHash, changes) => set((state) => ({
+          entries: state.entries.map(entry =>
+            entry.transactionHash === transactionHash
+              ? { ...entry, ...changes, updatedAt: Date.now() }
+              : entry
+          ),
+        })),
+
+        removeEntry: (transactionHash) => set((state) => ({
+          entries: state.entries.filter(entry => entry.transactionHash !== transactionHash),
+        })),
+
+        clearHistory: () => set({ entries: [] }),
+      }),
+      {
+        name: 'privfi-swap-history',
+      }
+    ),
+    { name: 'swapHistory' }
+  )
+);
@@ -2,7 +2,8 @@ import { create } from 'zustand';
 import { devtools, persist } from 'zustand/middleware';
 import { Token, SwapQuote } from '@/shared/types';
 import { STARKNET_TOKENS } from '@/constants/tokens';
-import { SwapProgress } from '../types/swap';
+import { ApprovalPolicy, SwapProgress, SwapSimulation, WithdrawalPolicy, WithdrawalRecipient } from '../types/swap';
+import { DEFAULT_WITHDRAWAL_POLICY } from '../utils/withdrawalPolicy';
 
 interface SwapState {
   // Form state
@@ -17,15 +18,19 @@ interface SwapState {
   selectedQuote: SwapQuote | null;
   isLoadingQuotes: boolean;
   quotesError: string | null;
+  pinnedRouteKey: string | null; // Route the user pinned over the best quote
   
   // Execution state
   isExecuting: boolean;
   executionProgress?: SwapProgress;
+  executionSimulation?: SwapSimulation; // Dry run of the swap being executed
   
   // Privacy configuration
   privacy: {
     recipientAddress: string;
+    recipientSplits: WithdrawalRecipient[]; // Empty unless the payout is split across recipients
     isEnabled: boolean; // Always true by default for private swaps
+    withdrawalPolicy: WithdrawalPolicy;
   };
   
   // Settings
@@ -33,6 +38,8 @@ interface SwapState {
     defaultSlippage: number;
     autoSelectBestQuote: boolean;
     refreshInterval: number;
+    gasTokenAddress?: string; // Pay gas in this token through the paymaster; native STRK when unset
+    approvalPolicy?: ApprovalPolicy; // Exact approvals when unset
   };
 }
 
@@ -49,14 +56,18 @@ interface SwapActions {
   setSelectedQuote: (quote: SwapQuote | null) => void;
   setQuotesLoading: (loading: boolean) => void;
   setQuotesError: (error: string | null) => void;
+  setPinnedRouteKey: (routeKey: string | null) => void;
   
   // Execution actions
   setExecuting: (executing: boolean) => void;
   setExecutionProgress: (progress: SwapProgress | undefined) => void;
+  setExecutionSimulation: (simulation: SwapSimulation | undefined) => void;
   
   // Privacy actions
   setRecipientAddress: (address: string) => void;
+  setRecipientSplits: (recipients: WithdrawalRecipient[]) => void;
   setPrivacyEnabled: (enabled: boolean) => void;
+  setWithdrawalPolicy: (policy: WithdrawalPolicy) => void;
   
   // Utility actions
   swapTokens: () => void;
@@ -79,13 +90,17 @@ const initialState: SwapState = {
   selectedQuote: null,
   isLoadingQuotes: false,
   quotesError: null,
+  pinnedRouteKey: null,
   
   isExecuting: false,
   executionProgress: undefined,
+  executionSimulation: undefined,
   
   privacy: {
     recipientAddress: '',
+    recipientSplits: [],
     isEnabled: true, // Always enabled for private swaps
+    withdrawalPolicy: DEFAULT_WITHDRAWAL_POLICY,
   },
   
   settings: {
@@ -132,18 +147,26 @@ export const useSwapStore = create<SwapStore>()(
         setSelectedQuote: (quote) => set({ selectedQuote: quote }),
         setQuotesLoading: (loading) => set({ isLoadingQuotes: loading }),
         setQuotesError: (error) => set({ quotesError: error }),
+        setPinnedRouteKey: (routeKey) => set({ pinnedRouteKey: routeKey }),
         
         // Execution actions
         setExecuting: (executing) => set({ isExecuting: executing }),
         setExecutionProgress: (progress) => set({ executionProgress: progress }),
+        setExecutionSimulation: (simulation) => set({ executionSimulation: simulation }),
         
         // Privacy actions
         setRecipientAddress: (address) => set((state) => ({
           privacy: { ...state.privacy, recipientAddress: address }
         })),
+        setRecipientSplits: (recipients) => set((state) => ({
+          privacy: { ...state.privacy, recipientSplits: recipients }
+        })),
         setPrivacyEnabled: (enabled) => set((state) => ({
           privacy: { ...state.privacy, isEnabled: enabled }
         })),
+        setWithdrawalPolicy: (policy) => set((state) => ({
+          privacy: { ...state.privacy, withdrawalPolicy: policy }
+        })),
         
         // Utility actions
         swapTokens: () => {
@@ -162,6 +185,8 @@ export const useSwapStore = create<SwapStore>()(
           quotes: [],
           selectedQuote: null,
           quotesError: null,
+          pinnedRouteKey: null,
+          executionSimulation: undefined,
         }),
         
         // Settings actions
@@ -177,7 +202,17 @@ export const useSwapStore = create<SwapStore>()(
           toToken: state.toToken,
           slippage: state.slippage,
           settings: state.settings,
+          // Recipient addresses are never persisted, only the withdrawal timing
+          privacy: { withdrawalPolicy: state.privacy.withdrawalPolicy },
         }),
+        merge: (persisted, current) => {
+          const persistedState = persisted as Partial<SwapState> | undefined;
+          return {
+            ...current,
+            ...persistedState,
+            privacy: { ...current.privacy, ...persistedState?.privacy },
+          };
+        },
       }
     ),
     { name: 'swap' }
@@ -1,3 +1,4 @@
+import { Call } from 'starknet';
 import { Token, SwapQuote, TokenAmount } from '@/shared/types';
 
 export interface QuoteRequest {
@@ -17,7 +18,7 @@ export interface QuoteResponse {
 export interface ExecuteSwapRequest {
   quote: SwapQuote;
   takerAddress: string;
-  slippage: number;
+  slippage: number; // Fraction, e.g. 0.005 for 0.5%
 }
 
 export interface ExecuteSwapResponse {
@@ -28,15 +29,20 @@ export interface ExecuteSwapResponse {
 
 export interface DEXAggregatorInterface {
   /**
-   * Get swap quotes from the DEX aggregator
+   * Get swap quotes from the DEX aggregator. Aborting the signal cancels the request.
    */
-  getQuotes(request: QuoteRequest): Promise<QuoteResponse>;
+  getQuotes(request: QuoteRequest, signal?: AbortSignal): Promise<QuoteResponse>;
 
   /**
    * Execute a swap transaction
    */
   executeSwap(request: ExecuteSwapRequest): Promise<ExecuteSwapResponse>;
 
+  /**
+   * Build the calls (including token approval) that execute a quote from this aggregator
+   */
+  buildSwapCalls(request: ExecuteSwapRequest): Promise<Call[]>;
+
   /**
    * Get supported tokens
    */
@@ -16,12 +16,20 @@ export type SwapPhase =
   | 'preparing'
   | 'building-swap'
   | 'generating-deposit'
+  | 'simulating'
+  | 'reviewing'
   | 'awaiting-signature'
   | 'broadcasting'
   | 'confirming'
   | 'processing-withdrawal'
   | 'completed';
 
+/**
+ * Which side of the swap the user typed: the amount sold (exact-in)
+ * or the amount received after fees (exact-out)
+ */
+export type SwapMode = 'exact-in' | 'exact-out';
+
 export interface SwapProgress {
   phase: SwapPhase;
   message: string;
@@ -29,6 +37,50 @@ export interface SwapProgress {
   startedAt?: number; // Timestamp when this phase started
 }
 
+/**
+ * Signed change of one token balance of the account, in base units
+ */
+export interface SwapBalanceDelta {
+  tokenAddress: string;
+  amount: string;
+}
+
+/**
+ * Outcome of dry-running the swap multicall before it is signed
+ */
+export interface SwapSimulation {
+  status: 'success' | 'reverted';
+  networkFee?: { amount: string; unit: 'WEI' | 'FRI' }; // Base units, FRI are paid in STRK
+  revertReason?: string; // Why the swap would fail, ready to show to the user
+  balanceDeltas: SwapBalanceDelta[];
+}
+
+/**
+ * One payout of a split private withdrawal
+ */
+export interface WithdrawalRecipient {
+  address: string;
+  percentage: number; // Share of the withdrawn amount, all recipients add up to 100
+}
+
+export type WithdrawalPolicyMode = 'immediate' | 'delayed' | 'random' | 'manual';
+
+/**
+ * When the private withdrawal runs after a confirmed deposit.
+ * Delaying it breaks the timing link between the swap and the payout.
+ */
+export type WithdrawalPolicy =
+  | { mode: 'immediate' }
+  | { mode: 'delayed'; delayMinutes: number }
+  | { mode: 'random'; minMinutes: number; maxMinutes: number }
+  | { mode: 'manual' };
+
+/**
+ * How token approvals in a swap are sized: exactly the swapped amount every time,
+ * unlimited once, or only topped up to the amount when the current allowance falls short
+ */
+export type ApprovalPolicy = 'exact' | 'unlimited' | 'reuse';
+
 export interface SwapExecutionState {
   isLoading: boolean;
   isSuccess: boolean;
@@ -36,6 +88,52 @@ export interface SwapExecutionState {
   error: string | null;
   transactionHash: string | null;
   isPrivateSwap?: boolean;
-  withdrawalStatus?: 'pending' | 'processing' | 'completed' | 'failed';
+  withdrawalStatus?: 'pending' | 'processing' | 'scheduled' | 'completed' | 'failed';
   progress?: SwapProgress;
+}
+
+export type SwapHistoryStatus = 'pending' | 'confirmed' | 'failed';
+
+export type SwapHistoryWithdrawalStatus = NonNullable<SwapExecutionState['withdrawalStatus']>;
+
+/**
+ * Token side of a recorded swap, kept with the entry so it reads the same if the token list changes
+ */
+export interface SwapHistoryToken {
+  address: string;
+  symbol: string;
+  decimals: number;
+}
+
+/**
+ * Fees of a recorded swap as quoted when it was signed
+ */
+export interface SwapHistoryFees {
+  gasFeesUsd: number;
+  integratorFeesUsd: number;
+  aggregatorFeesUsd: number;
+  typhoonFeeBps?: number; // Only charged on private swaps
+}
+
+/**
+ * One swap the user signed. Withdrawal recipients are never recorded.
+ */
+export interface SwapHistoryEntry {
+  transactionHash: string;
+  walletAddress: string;
+  quoteId: string;
+  provider: string;
+  sellToken: SwapHistoryToken;
+  buyToken: SwapHistoryToken;
+  sellAmount: string; // Base units
+  buyAmount: string; // Base units, before the Typhoon fee
+  isPrivateSwap: boolean;
+  status: SwapHistoryStatus;
+  withdrawalStatus?: SwapHistoryWithdrawalStatus;
+  scheduledWithdrawalAt?: number;
+  fees: SwapHistoryFees;
+  error?: string;
+  createdAt: number;
+  confirmedAt?: number;
+  updatedAt: number;
 }
\ No newline at end of file
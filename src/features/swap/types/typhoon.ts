@@ -21,4 +21,5 @@ export interface TyphoonPrivateSwapResponse {
 export interface TyphoonWithdrawRequest {
   transactionHash: string;
   recipientAddresses: string[];
+  splitPercentages?: number[]; // Share per recipient, same order as recipientAddresses
 }
\ No newline at end of file
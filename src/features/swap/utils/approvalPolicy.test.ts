@@ -0,0 +1,73 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { Call } from 'starknet';
+import { installMemoryStorage } from '@/test/memoryStorage';
+import {
+  MAX_ALLOWANCE,
+  applyApprovalPolicy,
+  createApproveCall,
+  getAllowanceKey,
+  getApprovalRequirements,
+  getTrackedApprovals,
+  parseApproveCall,
+  trackApprovals,
+} from './approvalPolicy';
+
+const TOKEN = '0x049d36570d4e46f48e99674bd3fcc84644ddd6b96f7c741b1562b82f9e004dc7';
+const ROUTER = '0x4270219d365d6b017231b52e92b3fb5d7c8378b05e9abc97724537a80e93b0f';
+const SWAP: Call = { contractAddress: ROUTER, entrypoint: 'multi_route_swap', calldata: [] };
+
+const approval = createApproveCall(TOKEN, ROUTER, 1000n);
+const allowanceOf = (amount: bigint) => new Map([[getAllowanceKey(TOKEN, ROUTER), amount]]);
+
+describe('parseApproveCall', () => {
+  it('reads the spender and the u256 amount', () => {
+    const requirement = parseApproveCall(createApproveCall(TOKEN, ROUTER, MAX_ALLOWANCE));
+    expect(requirement?.amount).toBe(MAX_ALLOWANCE);
+    expect(BigInt(requirement?.spender ?? 0)).toBe(BigInt(ROUTER));
+  });
+
+  it('ignores other calls', () => {
+    expect(parseApproveCall(SWAP)).toBeNull();
+    expect(getApprovalRequirements([approval, SWAP])).toHaveLength(1);
+  });
+});
+
+describe('getAllowanceKey', () => {
+  it('ignores address padding and casing', () => {
+    expect(getAllowanceKey(TOKEN.toUpperCase().replace('0X', '0x'), `0x0${ROUTER.slice(2)}`)).toBe(getAllowanceKey(TOKEN, ROUTER));
+  });
+});
+
+describe('applyApprovalPolicy', () => {
+  it('keeps every approval under the exact policy', () => {
+    expect(applyApprovalPolicy([approval, SWAP], 'exact', allowanceOf(5000n))).toEqual([approval, SWAP]);
+  });
+
+  it('drops approvals the current allowance already covers', () => {
+    expect(applyApprovalPolicy([approval, SWAP], 'reuse', allowanceOf(1000n))).toEqual([SWAP]);
+    expect(applyApprovalPolicy([approval, SWAP], 'unlimited', allowanceOf(5000n))).toEqual([SWAP]);
+  });
+
+  it('tops up a short allowance with the exact amount or without a limit', () => {
+    expect(applyApprovalPolicy([approval, SWAP], 'reuse', allowanceOf(999n))).toEqual([approval, SWAP]);
+
+    const [unlimited] = applyApprovalPolicy([approval, SWAP], 'unlimited', new Map());
+    expect(parseApproveCall(unlimited)?.amount).toBe(MAX_ALLOWANCE);
+  });
+});
+
+describe('trackApprovals', () => {
+  beforeEach(() => {
+    installMemoryStorage();
+  });
+
+  it('remembers each token and spender pair once', () => {
+    trackApprovals([{ tokenAddress: TOKEN, spender: ROUTER, spenderLabel: 'AVNU router' }]);
+    trackApprovals([
+      { tokenAddress: TOKEN, spender: `0x0${ROUTER.slice(2)}`, spenderLabel: 'AVNU router' },
+      { tokenAddress: TOKEN, spender: '0x1', spenderLabel: 'Other' },
+    ]);
+
+    expect(getTrackedApprovals().map(tracked => tracked.spenderLabel)).toEqual(['AVNU router', 'Other']);
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * Token approval handling for swap multicalls: applying the user's approval policy
+ * to the approve calls the aggregators and the Typhoon SDK add, and remembering
+ * which allowances the app created so they can be listed and revoked later.
+ */
+import { Call, CallData, cairo } from 'starknet';
+import { ApprovalPolicy } from '../types/swap';
+
+export interface ApprovalRequirement {
+  tokenAddress: string;
+  spender: string;
+  amount: bigint;
+}
+
+export interface TrackedApproval {
+  tokenAddress: string;
+  spender: string;
+  spenderLabel: string;
+}
+
+export const DEFAULT_APPROVAL_POLICY: ApprovalPolicy = 'exact';
+
+export const MAX_ALLOWANCE = BigInt(2) ** BigInt(256) - BigInt(1);
+
+const STORAGE_KEY = 'privfi_tracked_approvals';
+
+/**
+ * Map key of a token and spender pair, independent of address padding and casing
+ */
+export function getAllowanceKey(tokenAddress: string, spender: string): string {
+  return `${BigInt(tokenAddress).toString(16)}:${BigInt(spender).toString(16)}`;
+}
+
+/**
+ * approve(spender, amount) call for a token
+ */
+export function createApproveCall(tokenAddress: string, spender: string, amount: bigint): Call {
+  return {
+    contractAddress: tokenAddress,
+    entrypoint: 'approve',
+    calldata: CallData.compile({ spender, amount: cairo.uint256(amount) }),
+  };
+}
+
+/**
+ * The token, spender and amount of an approve call, null for any other call
+ */
+export function parseApproveCall(call: Call): ApprovalRequirement | null {
+  if (call.entrypoint !== 'approve') {
+    return null;
+  }
+
+  try {
+    const [spender, low, high] = CallData.toHex(call.calldata);
+    if (!spender || !low || !high) {
+      return null;
+    }
+    return {
+      tokenAddress: call.contractAddress,
+      spender,
+      amount: BigInt(low) + (BigInt(high) << BigInt(128)),
+    };
+  } catch (error) {
+    return null;
+  }
+}
+
+export function getApprovalRequirements(calls: Call[]): ApprovalRequirement[] {
+  return calls
+    .map(parseApproveCall)
+    .filter((requirement): requirement is ApprovalRequirement => requirement !== null);
+}
+
+/**
+ * Rewrite the approve calls of a multicall for the policy. Approvals already covered by
+ * the current allowance are dropped unless the policy asks for an exact approval every time.
+ */
+export function applyApprovalPolicy(
+  calls: Call[],
+  policy: ApprovalPolicy,
+  allowances: Map<string, bigint>
+): Call[] {
+  return calls.flatMap(call => {
+    const requirement = parseApproveCall(call);
+    if (!requirement || policy === 'exact') {
+      return [call];
+    }
+
+    const { tokenAddress, spender, amount } = requirement;
+    const allowance = allowances.get(getAllowanceKey(tokenAddress, spender)) ?? BigInt(0);
+    if (allowance >= amount) {
+      return [];
+    }
+    return policy === 'unlimited' ? [createApproveCall(tokenAddress, spender, MAX_ALLOWANCE)] : [call];
+  });
+}
+
+/**
+ * Allowances the app has created, so the allowances page can offer to revoke them
+ */
+export function getTrackedApprovals(): TrackedApproval[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      return JSON.parse(stored);
+    }
+  } catch (error) {
+    // Failed to parse the tracked approvals
+  }
+  return [];
+}
+
+export function trackApprovals(approvals: TrackedApproval[]): void {
+  const tracked = getTrackedApprovals();
+  const known = new Set(tracked.map(approval => getAllowanceKey(approval.tokenAddress, approval.spender)));
+  const added = approvals.filter(approval => {
+    const key = getAllowanceKey(approval.tokenAddress, approval.spender);
+    if (known.has(key)) return false;
+    known.add(key);
+    return true;
+  });
+
+  if (added.length > 0) {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify([...tracked, ...added]));
+  }
+}
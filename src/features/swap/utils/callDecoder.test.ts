@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { Call } from 'starknet';
+import { API_CONFIG } from '@/core/config';
+import { STARKNET_TOKENS } from '@/constants/tokens';
+import { decodeCall, decodeCalls, getKnownContractLabel } from './callDecoder';
+
+const { ETH, STRK } = STARKNET_TOKENS;
+const AVNU_ROUTER = API_CONFIG.avnu.routerAddress;
+const TYPHOON = API_CONFIG.typhoon.contractAddress;
+const ACCOUNT = `0x${'a'.repeat(64)}`;
+const STRANGER = `0x${'b'.repeat(64)}`;
+const POOL = `0x${'c'.repeat(64)}`;
+
+const MAX_U128 = (2n ** 128n - 1n).toString();
+const ONE_AND_A_HALF_ETH = (15n * 10n ** 17n).toString();
+
+const approve = (token: string, spender: string, low: string, high = '0'): Call => ({
+  contractAddress: token,
+  entrypoint: 'approve',
+  calldata: [spender, low, high],
+});
+
+const deposit = (contractAddress: string, pool: string): Call => ({
+  contractAddress,
+  entrypoint: 'deposit',
+  calldata: ['1', '0', pool, '0'],
+});
+
+describe('decodeCall', () => {
+  it('describes a bounded approval to a router', () => {
+    expect(decodeCall(approve(ETH.address, AVNU_ROUTER, ONE_AND_A_HALF_ETH))).toMatchObject({
+      contractLabel: 'ETH',
+      description: 'Allow the AVNU router to spend 1.5 ETH',
+      isKnown: true,
+      warning: undefined,
+    });
+  });
+
+  it('warns about unlimited approvals and unknown spenders', () => {
+    expect(decodeCall(approve(ETH.address, AVNU_ROUTER, MAX_U128, MAX_U128))).toMatchObject({
+      description: 'Allow the AVNU router to spend an unlimited amount of ETH',
+      isKnown: true,
+      warning: 'This approval has no limit.',
+    });
+    expect(decodeCall(approve(ETH.address, STRANGER, '1'))).toMatchObject({
+      isKnown: false,
+      warning: 'The spender is not a contract Privfi uses.',
+    });
+  });
+
+  it('warns about transfers that leave the wallet', () => {
+    const transfer = (to: string): Call => ({ contractAddress: STRK.address, entrypoint: 'transfer', calldata: [to, '1000000000000000000', '0'] });
+    expect(decodeCall(transfer(ACCOUNT), { accountAddress: ACCOUNT })).toMatchObject({
+      description: 'Send 1 STRK to your wallet',
+      warning: undefined,
+    });
+    expect(decodeCall(transfer(STRANGER), { accountAddress: ACCOUNT }).warning).toBe('Tokens leave your wallet directly with this call.');
+  });
+
+  it('reads the amounts and beneficiary of an AVNU swap', () => {
+    const swap = (beneficiary: string): Call => ({
+      contractAddress: AVNU_ROUTER,
+      entrypoint: 'multi_route_swap',
+      calldata: [ETH.address, ONE_AND_A_HALF_ETH, '0', STRK.address, '0', '0', '5000000000000000000', '0', beneficiary],
+    });
+
+    expect(decodeCall(swap(ACCOUNT), { accountAddress: ACCOUNT })).toMatchObject({
+      contractLabel: 'AVNU router',
+      description: 'Swap 1.5 ETH for at least 5 STRK',
+      isKnown: true,
+      warning: undefined,
+    });
+    expect(decodeCall(swap(STRANGER), { accountAddress: ACCOUNT }).warning).toContain('not your wallet');
+  });
+
+  it('flags contracts the app does not use', () => {
+    expect(decodeCall({ contractAddress: STRANGER, entrypoint: 'drain', calldata: [] })).toMatchObject({
+      description: 'Call drain',
+      isKnown: false,
+      warning: 'This contract is not one Privfi uses. Only sign if you trust it.',
+    });
+  });
+});
+
+describe('decodeCalls', () => {
+  it('recognises the pools deposited to through the pinned Typhoon contract', () => {
+    const decoded = decodeCalls([approve(ETH.address, POOL, '1'), deposit(TYPHOON, POOL)]);
+    expect(decoded.map(call => call.isKnown)).toEqual([true, true]);
+    expect(decoded[0].description).toContain('the Typhoon pool');
+    expect(decoded[1].description).toBe('Deposit the swap output into the Typhoon privacy pool');
+  });
+
+  it('does not vouch for pools named by another contract', () => {
+    const decoded = decodeCalls([approve(ETH.address, POOL, '1'), deposit(STRANGER, POOL)]);
+    expect(decoded.map(call => call.isKnown)).toEqual([false, false]);
+  });
+});
+
+describe('getKnownContractLabel', () => {
+  it('names routers and the Typhoon contract only', () => {
+    expect(getKnownContractLabel(AVNU_ROUTER)).toBe('AVNU router');
+    expect(getKnownContractLabel(API_CONFIG.fibrous.routerAddress)).toBe('Fibrous router');
+    expect(getKnownContractLabel(TYPHOON)).toBe('Typhoon contract');
+    expect(getKnownContractLabel(STRANGER)).toBeNull();
+  });
+});
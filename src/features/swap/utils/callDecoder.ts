@@ -0,0 +1,261 @@
+/**
+ * Turns the calls of a swap multicall into descriptions a user can check before signing.
+ * Only contracts the app itself talks to are recognised; anything else is flagged.
+ */
+import { Call, CallData, num } from 'starknet';
+import { API_CONFIG, MOCK_CONFIG } from '@/core/config';
+import { STARKNET_TOKENS, Token } from '@/constants/tokens';
+import { formatAmountDisplay } from '@/shared/utils/lib/amounts';
+import { getDepositPools, isTyphoonContract } from './typhoonCalls';
+
+export interface DecodedCall {
+  contractAddress: string;
+  entrypoint: string;
+  contractLabel: string;
+  description: string;
+  isKnown: boolean; // False when the contract or entrypoint is not one the app uses
+  warning?: string;
+}
+
+export interface CallDecoderContext {
+  accountAddress?: string;
+  tokens?: Token[]; // Tokens of the swap, checked before the built-in list
+  typhoonPools?: string[]; // Pools named by deposits to the pinned Typhoon contract, see getDepositPools
+}
+
+type Router = 'avnu' | 'fibrous' | 'mock';
+
+const ROUTER_LABELS: Record<Router, string> = {
+  avnu: 'AVNU router',
+  fibrous: 'Fibrous router',
+  mock: 'Mock DEX router',
+};
+
+// Approvals at or above this are treated as unlimited
+const UNLIMITED_ALLOWANCE = BigInt(2) ** BigInt(128) - BigInt(1);
+
+const TYPHOON_LABEL = 'Typhoon contract';
+
+const UNKNOWN_CONTRACT_WARNING = 'This contract is not one Privfi uses. Only sign if you trust it.';
+
+const sameAddress = (a: string, b: string): boolean => {
+  try {
+    return num.toBigInt(a) === num.toBigInt(b);
+  } catch (error) {
+    return false;
+  }
+};
+
+const shortAddress = (address: string): string => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+const readUint256 = (calldata: string[], index: number): bigint | null => {
+  const low = calldata[index];
+  const high = calldata[index + 1];
+  if (low === undefined || high === undefined) {
+    return null;
+  }
+  return num.toBigInt(low) + (num.toBigInt(high) << BigInt(128));
+};
+
+function findRouter(address: string): Router | null {
+  if (sameAddress(address, API_CONFIG.avnu.routerAddress)) return 'avnu';
+  if (sameAddress(address, API_CONFIG.fibrous.routerAddress)) return 'fibrous';
+  if (MOCK_CONFIG.enabled && sameAddress(address, MOCK_CONFIG.routerAddress)) return 'mock';
+  return null;
+}
+
+function findToken(address: string, context: CallDecoderContext): Token | undefined {
+  return [...(context.tokens ?? []), ...Object.values(STARKNET_TOKENS)].find(token => sameAddress(token.address, address));
+}
+
+function isTyphoonPool(address: string, context: CallDecoderContext): boolean {
+  return (context.typhoonPools ?? []).some(pool => sameAddress(pool, address));
+}
+
+function formatAmount(amount: bigint | null, token: Token | undefined): string {
+  if (amount === null) return 'an unknown amount of';
+  if (!token) return `${amount.toString()} base units of`;
+  return formatAmountDisplay(amount, token.decimals, 6);
+}
+
+function tokenLabel(address: string, context: CallDecoderContext): string {
+  return findToken(address, context)?.symbol ?? `token ${shortAddress(address)}`;
+}
+
+/**
+ * Name of a router, the Typhoon contract or one of its pools, null for any other contract
+ */
+export function getKnownContractLabel(address: string, context: CallDecoderContext = {}): string | null {
+  const router = findRouter(address);
+  if (router) return ROUTER_LABELS[router];
+  if (isTyphoonContract(address)) return TYPHOON_LABEL;
+  if (isTyphoonPool(address, context)) return 'Typhoon pool';
+  return null;
+}
+
+function describeAddress(address: string, context: CallDecoderContext): string {
+  const knownLabel = getKnownContractLabel(address, context);
+  if (knownLabel) return `the ${knownLabel}`;
+  if (context.accountAddress && sameAddress(address, context.accountAddress)) return 'your wallet';
+  return shortAddress(address);
+}
+
+function decodeTokenCall(call: Call, calldata: string[], token: Token, context: CallDecoderContext): DecodedCall {
+  const base = { contractAddress: call.contractAddress, entrypoint: call.entrypoint, contractLabel: token.symbol };
+  const target = calldata[0];
+
+  switch (call.entrypoint) {
+    case 'approve':
+    case 'increase_allowance':
+    case 'increaseAllowance': {
+      const amount = readUint256(calldata, 1);
+      const isUnlimited = amount !== null && amount >= UNLIMITED_ALLOWANCE;
+      const isKnownSpender = !!target && (!!findRouter(target) || isTyphoonContract(target) || isTyphoonPool(target, context));
+      return {
+        ...base,
+        description: `Allow ${target ? describeAddress(target, context) : 'an unknown spender'} to spend ${
+          isUnlimited ? 'an unlimited amount of' : formatAmount(amount, token)
+        } ${token.symbol}`,
+        isKnown: isKnownSpender,
+        warning: !isKnownSpender
+          ? 'The spender is not a contract Privfi uses.'
+          : isUnlimited
+            ? 'This approval has no limit.'
+            : undefined,
+      };
+    }
+    case 'transfer': {
+      const amount = readUint256(calldata, 1);
+      const isToSelf = !!target && !!context.accountAddress && sameAddress(target, context.accountAddress);
+      return {
+        ...base,
+        description: `Send ${formatAmount(amount, token)} ${token.symbol} to ${target ? describeAddress(target, context) : 'an unknown address'}`,
+        isKnown: true,
+        warning: isToSelf ? undefined : 'Tokens leave your wallet directly with this call.',
+      };
+    }
+    default:
+      return {
+        ...base,
+        description: `Call ${call.entrypoint} on the ${token.symbol} contract`,
+        isKnown: false,
+        warning: 'Privfi does not use this token function.',
+      };
+  }
+}
+
+function decodeSwapCall(
+  call: Call,
+  calldata: string[],
+  router: Router,
+  layout: { sellToken: number; buyToken: number; sellAmount: number; minAmount: number; beneficiary: number },
+  context: CallDecoderContext
+): DecodedCall {
+  const sellToken = calldata[layout.sellToken];
+  const buyToken = calldata[layout.buyToken];
+  const beneficiary = calldata[layout.beneficiary];
+  if (!sellToken || !buyToken) {
+    return {
+      contractAddress: call.contractAddress,
+      entrypoint: call.entrypoint,
+      contractLabel: ROUTER_LABELS[router],
+      description: `Swap tokens through the ${ROUTER_LABELS[router]}`,
+      isKnown: true,
+    };
+  }
+
+  const sellAmount = formatAmount(readUint256(calldata, layout.sellAmount), findToken(sellToken, context));
+  const minAmount = formatAmount(readUint256(calldata, layout.minAmount), findToken(buyToken, context));
+  const paysAnotherAddress = !!beneficiary && !!context.accountAddress && !sameAddress(beneficiary, context.accountAddress);
+
+  return {
+    contractAddress: call.contractAddress,
+    entrypoint: call.entrypoint,
+    contractLabel: ROUTER_LABELS[router],
+    description: `Swap ${sellAmount} ${tokenLabel(sellToken, context)} for at least ${minAmount} ${tokenLabel(buyToken, context)}`,
+    isKnown: true,
+    warning: paysAnotherAddress ? `The swap output goes to ${shortAddress(beneficiary)}, not your wallet.` : undefined,
+  };
+}
+
+function decodeRouterCall(call: Call, calldata: string[], router: Router, context: CallDecoderContext): DecodedCall {
+  // multi_route_swap(sell_token, sell_amount, buy_token, buy_amount, buy_min_amount, beneficiary, ...)
+  if (router === 'avnu' && call.entrypoint === 'multi_route_swap') {
+    return decodeSwapCall(call, calldata, router, { sellToken: 0, sellAmount: 1, buyToken: 3, minAmount: 6, beneficiary: 8 }, context);
+  }
+  // swap(sell_token, buy_token, sell_amount, min_buy_amount, beneficiary)
+  if (router === 'mock' && call.entrypoint === 'swap') {
+    return decodeSwapCall(call, calldata, router, { sellToken: 0, buyToken: 1, sellAmount: 2, minAmount: 4, beneficiary: 6 }, context);
+  }
+  // Fibrous route calldata is opaque, the approval next to it carries the amount
+  if (router === 'fibrous' && call.entrypoint === 'swap') {
+    return {
+      contractAddress: call.contractAddress,
+      entrypoint: call.entrypoint,
+      contractLabel: ROUTER_LABELS[router],
+      description: 'Swap tokens along the Fibrous route',
+      isKnown: true,
+    };
+  }
+
+  return {
+    contractAddress: call.contractAddress,
+    entrypoint: call.entrypoint,
+    contractLabel: ROUTER_LABELS[router],
+    description: `Call ${call.entrypoint} on the ${ROUTER_LABELS[router]}`,
+    isKnown: router === 'avnu' && call.entrypoint.includes('swap'),
+    warning: router === 'avnu' && call.entrypoint.includes('swap') ? undefined : 'Privfi does not use this router function.',
+  };
+}
+
+/**
+ * Describe a single call of the multicall
+ */
+export function decodeCall(call: Call, context: CallDecoderContext = {}): DecodedCall {
+  let calldata: string[] = [];
+  try {
+    calldata = CallData.toHex(call.calldata);
+  } catch (error) {
+    // Calldata that cannot be compiled is described without its arguments
+  }
+
+  const token = findToken(call.contractAddress, context);
+  if (token) {
+    return decodeTokenCall(call, calldata, token, context);
+  }
+
+  const router = findRouter(call.contractAddress);
+  if (router) {
+    return decodeRouterCall(call, calldata, router, context);
+  }
+
+  if (isTyphoonContract(call.contractAddress)) {
+    return {
+      contractAddress: call.contractAddress,
+      entrypoint: call.entrypoint,
+      contractLabel: TYPHOON_LABEL,
+      description: call.entrypoint.includes('deposit')
+        ? 'Deposit the swap output into the Typhoon privacy pool'
+        : `Call ${call.entrypoint} on the Typhoon contract`,
+      isKnown: call.entrypoint.includes('deposit'),
+      warning: call.entrypoint.includes('deposit') ? undefined : 'Privfi does not use this Typhoon function.',
+    };
+  }
+
+  return {
+    contractAddress: call.contractAddress,
+    entrypoint: call.entrypoint,
+    contractLabel: `Unknown contract ${shortAddress(call.contractAddress)}`,
+    description: `Call ${call.entrypoint}`,
+    isKnown: false,
+    warning: UNKNOWN_CONTRACT_WARNING,
+  };
+}
+
+/**
+ * Describe every call of the multicall, in execution order
+ */
+export function decodeCalls(calls: Call[], context: CallDecoderContext = {}): DecodedCall[] {
+  const fullContext = { ...context, typhoonPools: context.typhoonPools ?? getDepositPools(calls) };
+  return calls.map(call => decodeCall(call, fullContext));
+}
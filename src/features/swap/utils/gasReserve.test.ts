@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { STARKNET_TOKENS } from '@/constants/tokens';
+import { parseAmount } from '@/shared/utils/lib/amounts';
+import { AVNUQuote, GasTokenFee } from '../services/avnu';
+import { getGasReserve, getPercentageOfBalance } from './gasReserve';
+
+const { ETH, STRK } = STARKNET_TOKENS;
+
+const strk = (amount: string) => parseAmount(amount, STRK.decimals);
+
+const quote = (sellAmount: bigint, sellAmountInUsd: number, gasFeesInUsd: number) => ({
+  sellTokenAddress: STRK.address,
+  sellAmount: `0x${sellAmount.toString(16)}`,
+  sellAmountInUsd,
+  gasFeesInUsd,
+}) as AVNUQuote;
+
+const ethGasFee: GasTokenFee = {
+  tokenAddress: ETH.address,
+  symbol: ETH.symbol,
+  decimals: ETH.decimals,
+  amount: 0.0001,
+  rawAmount: parseAmount('0.0001', ETH.decimals),
+  amountInUsd: 0.3,
+};
+
+describe('getGasReserve', () => {
+  it('reserves nothing when the sell token does not pay the fee', () => {
+    expect(getGasReserve(ETH, null, null)).toBeNull();
+    expect(getGasReserve(STRK, ethGasFee, null)).toBeNull();
+  });
+
+  it('falls back to the default STRK reserve without a quote', () => {
+    expect(getGasReserve(STRK, null, null)).toMatchObject({ amount: strk('2'), isEstimated: false });
+  });
+
+  it('keeps three times the quoted gas, valued through the quote', () => {
+    // 0.05 USD of gas on a 50 USD sale of 100 STRK is 0.1 STRK
+    const reserve = getGasReserve(STRK, null, quote(strk('100'), 50, 0.05));
+    expect(reserve).toMatchObject({ amount: strk('0.3'), isEstimated: true });
+  });
+
+  it('stays exact for amounts beyond float precision', () => {
+    const sellAmount = strk('123456789.123456789123456789');
+    const reserve = getGasReserve(STRK, null, quote(sellAmount, 1000, 1));
+    expect(reserve?.amount).toBe((sellAmount / 1000n) * 3n);
+  });
+
+  it('reserves the fee of the paymaster gas token', () => {
+    expect(getGasReserve(ETH, ethGasFee, null)).toMatchObject({
+      tokenAddress: ETH.address,
+      amount: parseAmount('0.0003', ETH.decimals),
+      isEstimated: true,
+    });
+  });
+});
+
+describe('getPercentageOfBalance', () => {
+  const reserve = getGasReserve(STRK, null, null);
+
+  it('leaves the reserve when selling everything', () => {
+    expect(getPercentageOfBalance(strk('10'), 100, reserve)).toBe(strk('8'));
+    expect(getPercentageOfBalance(strk('10'), 100, null)).toBe(strk('10'));
+  });
+
+  it('only caps percentages that would dip into the reserve', () => {
+    expect(getPercentageOfBalance(strk('10'), 50, reserve)).toBe(strk('5'));
+    expect(getPercentageOfBalance(strk('10'), 90, reserve)).toBe(strk('8'));
+  });
+
+  it('spends nothing when the balance does not cover the reserve', () => {
+    expect(getPercentageOfBalance(strk('1'), 100, reserve)).toBe(0n);
+  });
+});
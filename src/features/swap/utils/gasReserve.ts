@@ -0,0 +1,62 @@
+import { STARKNET_TOKENS, Token } from '@/constants/tokens';
+import { mulBps, parseAmount, percentToBps, toRawAmount } from '@/shared/utils/lib/amounts';
+import { AVNUQuote, GasTokenFee } from '../services/avnu';
+
+export interface GasReserve {
+  tokenAddress: string;
+  symbol: string;
+  decimals: number;
+  amount: bigint;
+  isEstimated: boolean; // False when no fee estimate was available and the default reserve applies
+}
+
+// Kept back when there is no quote to estimate the native fee from yet. A paymaster gas token
+// always comes with its fee, so only STRK ever needs a default.
+const DEFAULT_STRK_GAS_RESERVE = '2';
+
+// Gas share of the sold amount, scaled to an integer so the raw amount never goes through a float
+const GAS_SHARE_SCALE = 10n ** 18n;
+
+// The quote's gas estimate covers the aggregator swap only, not the Typhoon deposit in the same multicall
+const GAS_RESERVE_MULTIPLIER_BPS = 30000;
+
+/**
+ * Network fee to keep back when selling the whole balance of the fee token. Native fees are paid in STRK;
+ * ETH and other tokens only pay fees when chosen as the paymaster gas token. Null when the sell token pays no fee.
+ */
+export function getGasReserve(
+  sellToken: Token,
+  gasTokenFee: GasTokenFee | null,
+  quote: AVNUQuote | null
+): GasReserve | null {
+  const feeTokenAddress = gasTokenFee?.tokenAddress ?? STARKNET_TOKENS.STRK.address;
+  if (BigInt(sellToken.address) !== BigInt(feeTokenAddress)) {
+    return null;
+  }
+
+  let estimate: bigint | null = null;
+  if (gasTokenFee) {
+    estimate = gasTokenFee.rawAmount;
+  } else if (quote && quote.gasFeesInUsd > 0 && quote.sellAmountInUsd > 0 && BigInt(quote.sellTokenAddress) === BigInt(sellToken.address)) {
+    // Valued through the quote's own USD figures, the gas is this share of what it sells
+    const gasShare = BigInt(Math.round((quote.gasFeesInUsd / quote.sellAmountInUsd) * Number(GAS_SHARE_SCALE)));
+    estimate = (toRawAmount(quote.sellAmount) * gasShare) / GAS_SHARE_SCALE;
+  }
+
+  return {
+    tokenAddress: sellToken.address,
+    symbol: sellToken.symbol,
+    decimals: sellToken.decimals,
+    amount: estimate === null ? parseAmount(DEFAULT_STRK_GAS_RESERVE, sellToken.decimals) : mulBps(estimate, GAS_RESERVE_MULTIPLIER_BPS),
+    isEstimated: estimate !== null,
+  };
+}
+
+/**
+ * The raw amount for a percentage of the balance, leaving the gas reserve when it would otherwise be spent
+ */
+export function getPercentageOfBalance(balance: bigint, percentage: number, reserve: GasReserve | null): bigint {
+  const spendable = reserve && balance > reserve.amount ? balance - reserve.amount : reserve ? 0n : balance;
+  const amount = mulBps(balance, percentToBps(percentage));
+  return amount > spendable ? spendable : amount;
+}
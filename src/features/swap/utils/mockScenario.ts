@@ -0,0 +1,21 @@
+/**
+ * Scenario selection for the mock DEX and Typhoon services.
+ * The localStorage override lets e2e tests script a different outcome per page.
+ */
+import { MOCK_CONFIG, MockScenario } from '@/core/config';
+
+export function getMockScenario(): MockScenario {
+  try {
+    const override = localStorage.getItem(MOCK_CONFIG.scenarioStorageKey);
+    if (override) {
+      return override as MockScenario;
+    }
+  } catch (error) {
+    // localStorage unavailable, use the configured scenario
+  }
+  return MOCK_CONFIG.scenario;
+}
+
+export function mockDelay(multiplier = 1): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, MOCK_CONFIG.latencyMs * multiplier));
+}
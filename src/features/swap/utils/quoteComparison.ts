@@ -0,0 +1,78 @@
+/**
+ * Side-by-side metrics for the quotes returned by AVNU.
+ * Quote ids change on every refresh, so quotes are identified across refreshes by their route.
+ */
+import { TYPHOON_FEE_MULTIPLIER, deductTyphoonFee } from '@/constants/fees';
+import { toAmountNumber, toRawAmount } from '@/shared/utils/lib/amounts';
+import { AVNUQuote, AVNURoute, getBestQuote } from '../services/avnu';
+import { SwapMode } from '../types/swap';
+
+export interface QuoteComparison {
+  quote: AVNUQuote;
+  routeKey: string;
+  sellAmount: number;
+  netOutput: number; // Received after AVNU, integrator and Typhoon fees
+  netOutputUsd: number; // Net output value minus gas
+  gasFeesUsd: number;
+  priceImpact: number; // Percentage
+  sources: string[];
+  isBest: boolean;
+}
+
+/**
+ * Stable identifier of a quote's route, independent of split percentages
+ */
+export const getQuoteRouteKey = (quote: AVNUQuote): string => {
+  const describe = (routes: AVNURoute[] = []): string =>
+    routes
+      .map(route => `${route.name}:${route.sellTokenAddress}>${route.buyTokenAddress}[${describe(route.routes)}]`)
+      .sort()
+      .join(',');
+
+  return describe(quote.routes);
+};
+
+/**
+ * Every liquidity source used by a route tree, in order of first appearance
+ */
+export const getLiquiditySources = (routes: AVNURoute[] = []): string[] => {
+  const sources = new Set<string>();
+  const visit = (nodes: AVNURoute[]) => {
+    nodes.forEach(route => {
+      sources.add(route.name);
+      visit(route.routes || []);
+    });
+  };
+  visit(routes);
+  return [...sources];
+};
+
+/**
+ * Compute the comparison metrics for each quote, flagging the one auto-selection would pick
+ */
+export const compareQuotes = (
+  quotes: AVNUQuote[],
+  fromTokenDecimals: number,
+  toTokenDecimals: number,
+  swapMode: SwapMode = 'exact-in'
+): QuoteComparison[] => {
+  const bestQuote = getBestQuote(quotes, swapMode);
+
+  return quotes.map(quote => {
+    const sellAmount = toAmountNumber(toRawAmount(quote.sellAmount), fromTokenDecimals);
+    const netOutput = toAmountNumber(deductTyphoonFee(toRawAmount(quote.buyAmount)), toTokenDecimals);
+    const gasFeesUsd = quote.gasFeesInUsd || 0;
+
+    return {
+      quote,
+      routeKey: getQuoteRouteKey(quote),
+      sellAmount,
+      netOutput,
+      netOutputUsd: (quote.buyAmountInUsd || 0) * TYPHOON_FEE_MULTIPLIER - gasFeesUsd,
+      gasFeesUsd,
+      priceImpact: (quote.estimatedSlippage || 0) * 100,
+      sources: getLiquiditySources(quote.routes),
+      isBest: quote === bestQuote,
+    };
+  });
+};
@@ -0,0 +1,22 @@
+import { toRawAmount } from '@/shared/utils/lib/amounts';
+
+// Gas share of the output in parts per million, precise enough to rank quotes apart
+const GAS_SHARE_SCALE = 1_000_000;
+
+/**
+ * Output amount left once gas is paid, in the buy token's smallest unit.
+ * Gas is converted through the quote's own USD valuation; quotes without USD data are ranked on output alone.
+ */
+export const getNetOutputAmount = (
+  buyAmount: string,
+  buyAmountInUsd: number,
+  gasFeesInUsd: number
+): bigint => {
+  const amount = toRawAmount(buyAmount);
+  if (!buyAmountInUsd || buyAmountInUsd <= 0 || !gasFeesInUsd) {
+    return amount;
+  }
+  const gasShare = Math.min(Math.max(gasFeesInUsd / buyAmountInUsd, 0), 1);
+  const gasShareScaled = BigInt(Math.round(gasShare * GAS_SHARE_SCALE));
+  return amount - (amount * gasShareScaled) / BigInt(GAS_SHARE_SCALE);
+};
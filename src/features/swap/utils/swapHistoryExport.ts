@@ -0,0 +1,100 @@
+/**
+ * Accounting exports of the swap history. Amounts are written in whole tokens at
+ * full precision so spreadsheets and tax tools never see rounded values.
+ */
+import { BLOCKCHAIN_CONFIG } from '@/core/config';
+import { deductTyphoonFee } from '@/constants/fees';
+import { formatAmount, toRawAmount } from '@/shared/utils/lib/amounts';
+import { SwapHistoryEntry } from '../types/swap';
+
+export const SWAP_HISTORY_EXPORT_FORMAT = 'privfi-swap-history';
+export const SWAP_HISTORY_EXPORT_VERSION = 1;
+
+export interface SwapHistoryExportFile {
+  format: typeof SWAP_HISTORY_EXPORT_FORMAT;
+  version: number;
+  exportedAt: number;
+  entries: SwapHistoryEntry[];
+}
+
+const CSV_COLUMNS = [
+  'date',
+  'status',
+  'mode',
+  'withdrawal_status',
+  'sell_token',
+  'sell_amount',
+  'buy_token',
+  'buy_amount',
+  'received_amount',
+  'provider',
+  'quote_id',
+  'transaction_hash',
+  'wallet',
+  'gas_fee_usd',
+  'integrator_fee_usd',
+  'aggregator_fee_usd',
+  'typhoon_fee_bps',
+  'confirmed_at',
+  'explorer_url',
+] as const;
+
+export function getTransactionExplorerUrl(transactionHash: string): string {
+  return `${BLOCKCHAIN_CONFIG.explorerTxUrl}${transactionHash}`;
+}
+
+/**
+ * Raw amount the user received: private swaps pay the Typhoon fee out of the bought amount
+ */
+export function getReceivedAmount(entry: SwapHistoryEntry): bigint {
+  const buyAmount = toRawAmount(entry.buyAmount);
+  return entry.isPrivateSwap ? deductTyphoonFee(buyAmount) : buyAmount;
+}
+
+// Spreadsheets run cells starting with these as formulas, and token symbols can come from any contract
+const CSV_FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function escapeCsvValue(value: string | number | undefined): string {
+  if (value === undefined) return '';
+  const text = typeof value === 'string' && CSV_FORMULA_PREFIX.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsvRow(entry: SwapHistoryEntry): string[] {
+  const { sellToken, buyToken, fees } = entry;
+  return [
+    new Date(entry.createdAt).toISOString(),
+    entry.status,
+    entry.isPrivateSwap ? 'private' : 'regular',
+    entry.withdrawalStatus ?? '',
+    sellToken.symbol,
+    formatAmount(toRawAmount(entry.sellAmount), sellToken.decimals),
+    buyToken.symbol,
+    formatAmount(toRawAmount(entry.buyAmount), buyToken.decimals),
+    formatAmount(getReceivedAmount(entry), buyToken.decimals),
+    entry.provider,
+    entry.quoteId,
+    entry.transactionHash,
+    entry.walletAddress,
+    String(fees.gasFeesUsd),
+    String(fees.integratorFeesUsd),
+    String(fees.aggregatorFeesUsd),
+    fees.typhoonFeeBps === undefined ? '' : String(fees.typhoonFeeBps),
+    entry.confirmedAt ? new Date(entry.confirmedAt).toISOString() : '',
+    getTransactionExplorerUrl(entry.transactionHash),
+  ].map(escapeCsvValue);
+}
+
+export function toSwapHistoryCsv(entries: SwapHistoryEntry[]): string {
+  return [CSV_COLUMNS.join(','), ...entries.map(entry => toCsvRow(entry).join(','))].join('\r\n');
+}
+
+export function toSwapHistoryJson(entries: SwapHistoryEntry[]): string {
+  const file: SwapHistoryExportFile = {
+    format: SWAP_HISTORY_EXPORT_FORMAT,
+    version: SWAP_HISTORY_EXPORT_VERSION,
+    exportedAt: Date.now(),
+    entries,
+  };
+  return JSON.stringify(file, null, 2);
+}
@@ -0,0 +1,94 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { installMemoryStorage } from '@/test/memoryStorage';
+import { createTyphoonVault, lockTyphoonVault, unlockTyphoonVault } from './typhoonVault';
+import {
+  SWAP_JOURNAL_SESSION_ID,
+  SwapJournalEntry,
+  SwapJournalPhase,
+  clearSwapJournalEntry,
+  getInterruptedSwaps,
+  getSwapJournal,
+  loadSwapJournalEntry,
+  saveSwapJournalEntry,
+  updateSwapJournalEntry,
+} from './swapJournal';
+
+const PASSPHRASE = 'correct horse battery';
+const STORAGE_KEY = 'privfi_swap_journal';
+const RECIPIENT = `0x${'5'.repeat(64)}`;
+
+const entry = (
+  transactionHash: string,
+  { phase = 'confirming', sessionId = 'earlier-session', createdAt = 1 }: { phase?: SwapJournalPhase; sessionId?: string; createdAt?: number } = {}
+): SwapJournalEntry => ({
+  transactionHash,
+  walletAddress: '0x2',
+  sessionId,
+  phase,
+  isPrivateSwap: true,
+  calls: [],
+  quote: { sellTokenAddress: '0x3', buyTokenAddress: '0x4', sellAmount: '0x1', buyAmount: '0x2' },
+  recipientAddresses: [RECIPIENT],
+  withdrawalPolicy: { mode: 'immediate' },
+  createdAt,
+  updatedAt: createdAt,
+});
+
+let storage: Storage;
+
+beforeEach(async () => {
+  storage = installMemoryStorage();
+  await createTyphoonVault(PASSPHRASE);
+});
+
+afterEach(() => {
+  lockTyphoonVault();
+});
+
+describe('swap journal', () => {
+  it('stores entries encrypted, keeping only the hash in the clear', async () => {
+    await saveSwapJournalEntry(entry('0xa'));
+
+    const stored = storage.getItem(STORAGE_KEY) ?? '';
+    expect(stored).toContain('0xa');
+    expect(stored).not.toContain(RECIPIENT);
+    expect(await loadSwapJournalEntry('0xa')).toEqual(entry('0xa'));
+  });
+
+  it('moves entries between phases and lists them newest first', async () => {
+    await saveSwapJournalEntry(entry('0xa', { createdAt: 1 }));
+    await saveSwapJournalEntry(entry('0xb', { createdAt: 2 }));
+    await updateSwapJournalEntry('0xa', { phase: 'failed', lastError: 'reverted' });
+
+    const journal = await getSwapJournal();
+    expect(journal.map(e => e.transactionHash)).toEqual(['0xb', '0xa']);
+    expect(journal[1]).toMatchObject({ phase: 'failed', lastError: 'reverted' });
+
+    clearSwapJournalEntry('0xb');
+    expect((await getSwapJournal()).map(e => e.transactionHash)).toEqual(['0xa']);
+  });
+
+  it('holds entries written while locked until the vault is unlocked', async () => {
+    lockTyphoonVault();
+    await saveSwapJournalEntry(entry('0xa'));
+    expect(storage.getItem(STORAGE_KEY)).toBeNull();
+    expect(await loadSwapJournalEntry('0xa')).toEqual(entry('0xa'));
+
+    await unlockTyphoonVault(PASSPHRASE);
+    await vi.waitFor(() => expect(storage.getItem(STORAGE_KEY)).toContain('0xa'));
+    expect(await loadSwapJournalEntry('0xa')).toEqual(entry('0xa'));
+  });
+});
+
+describe('getInterruptedSwaps', () => {
+  it('picks up swaps an earlier page load left confirming or withdrawing', () => {
+    const entries = [
+      entry('0xa', { phase: 'confirming' }),
+      entry('0xb', { phase: 'processing-withdrawal' }),
+      entry('0xc', { phase: 'completed' }),
+      entry('0xd', { phase: 'failed' }),
+      entry('0xe', { phase: 'confirming', sessionId: SWAP_JOURNAL_SESSION_ID }),
+    ];
+    expect(getInterruptedSwaps(entries).map(e => e.transactionHash)).toEqual(['0xa', '0xb']);
+  });
+});
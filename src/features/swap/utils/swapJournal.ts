@@ -0,0 +1,168 @@
+/**
+ * Execution journal for submitted swaps, so a reload while confirming or
+ * withdrawing can pick the swap up again.
+ *
+ * Entries hold the recipients of private withdrawals, so like deposit records
+ * they are encrypted with the Typhoon vault. Only the transaction hash is kept in the clear.
+ */
+import { Call } from 'starknet';
+import { WithdrawalPolicy } from '../types/swap';
+import {
+  encryptVaultRecord,
+  decryptVaultRecord,
+  isTyphoonVaultUnlocked,
+  subscribeToTyphoonVault,
+  EncryptedVaultPayload,
+} from './typhoonVault';
+
+export type SwapJournalPhase = 'confirming' | 'processing-withdrawal' | 'completed' | 'failed';
+
+export interface SwapJournalQuote {
+  provider?: string;
+  sellTokenAddress: string;
+  buyTokenAddress: string;
+  sellAmount: string;
+  buyAmount: string;
+}
+
+export interface SwapJournalEntry {
+  transactionHash: string;
+  walletAddress: string;
+  sessionId: string; // Page load that wrote the entry, recovery skips the current one
+  phase: SwapJournalPhase;
+  isPrivateSwap: boolean;
+  calls: Call[];
+  quote: SwapJournalQuote;
+  recipientAddresses: string[];
+  splitPercentages?: number[];
+  withdrawalPolicy: WithdrawalPolicy;
+  createdAt: number;
+  updatedAt: number;
+  lastError?: string;
+}
+
+interface EncryptedSwapJournalEntry extends EncryptedVaultPayload {
+  transactionHash: string;
+}
+
+const STORAGE_KEY = 'privfi_swap_journal';
+
+// Identifies this page load; entries written by it are still driven by the live swap
+export const SWAP_JOURNAL_SESSION_ID = crypto.randomUUID();
+
+// Entries written while the vault is locked are held here until it is unlocked again
+const pendingEntries = new Map<string, SwapJournalEntry>();
+
+/**
+ * Add or replace the journal entry of a transaction
+ */
+export async function saveSwapJournalEntry(entry: SwapJournalEntry): Promise<void> {
+  if (!isTyphoonVaultUnlocked()) {
+    pendingEntries.set(entry.transactionHash, entry);
+    return;
+  }
+
+  const payload = await encryptVaultRecord(entry);
+  const entries = readSwapJournal().filter(e => e.transactionHash !== entry.transactionHash);
+  writeSwapJournal([...entries, { transactionHash: entry.transactionHash, ...payload }]);
+  pendingEntries.delete(entry.transactionHash);
+}
+
+/**
+ * Load the journal entry of a transaction, null when there is none or it cannot be decrypted
+ */
+export async function loadSwapJournalEntry(transactionHash: string): Promise<SwapJournalEntry | null> {
+  const pending = pendingEntries.get(transactionHash);
+  if (pending) {
+    return pending;
+  }
+
+  const entry = readSwapJournal().find(e => e.transactionHash === transactionHash);
+  if (!entry || !isTyphoonVaultUnlocked()) {
+    return null;
+  }
+
+  try {
+    return await decryptVaultRecord<SwapJournalEntry>(entry);
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Move a journal entry to another phase
+ */
+export async function updateSwapJournalEntry(
+  transactionHash: string,
+  changes: Partial<Pick<SwapJournalEntry, 'phase' | 'lastError'>>
+): Promise<void> {
+  const entry = await loadSwapJournalEntry(transactionHash);
+  if (!entry) {
+    return;
+  }
+
+  await saveSwapJournalEntry({ ...entry, ...changes, updatedAt: Date.now() });
+}
+
+/**
+ * All readable journal entries, newest first.
+ * While the vault is locked, only entries still waiting to be persisted are returned.
+ */
+export async function getSwapJournal(): Promise<SwapJournalEntry[]> {
+  const entries = new Map(pendingEntries);
+
+  if (isTyphoonVaultUnlocked()) {
+    for (const entry of readSwapJournal()) {
+      if (entries.has(entry.transactionHash)) continue;
+      try {
+        entries.set(entry.transactionHash, await decryptVaultRecord<SwapJournalEntry>(entry));
+      } catch (error) {
+        // Skip entries that cannot be decrypted
+      }
+    }
+  }
+
+  return [...entries.values()].sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/**
+ * Entries left confirming or withdrawing by an earlier page load
+ */
+export function getInterruptedSwaps(entries: SwapJournalEntry[]): SwapJournalEntry[] {
+  return entries.filter(entry =>
+    entry.sessionId !== SWAP_JOURNAL_SESSION_ID &&
+    (entry.phase === 'confirming' || entry.phase === 'processing-withdrawal')
+  );
+}
+
+/**
+ * Remove the journal entry of a transaction
+ */
+export function clearSwapJournalEntry(transactionHash: string): void {
+  pendingEntries.delete(transactionHash);
+  writeSwapJournal(readSwapJournal().filter(e => e.transactionHash !== transactionHash));
+}
+
+function readSwapJournal(): EncryptedSwapJournalEntry[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      return JSON.parse(stored);
+    }
+  } catch (error) {
+    // Failed to parse the swap journal
+  }
+  return [];
+}
+
+function writeSwapJournal(entries: EncryptedSwapJournalEntry[]): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+}
+
+subscribeToTyphoonVault(status => {
+  if (status === 'unlocked') {
+    Promise.all([...pendingEntries.values()].map(saveSwapJournalEntry)).catch(() => {
+      // Held entries are retried on the next unlock
+    });
+  }
+});
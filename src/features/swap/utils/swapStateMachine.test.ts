@@ -0,0 +1,270 @@
+import { describe, expect, it } from 'vitest';
+import {
+  INITIAL_SWAP_MACHINE_STATE,
+  SwapMachineEffect,
+  SwapMachineEvent,
+  SwapMachineState,
+  getSwapPhaseTimer,
+  isSwapInFlight,
+  transitionSwapMachine,
+} from './swapStateMachine';
+import { WithdrawalPolicy } from '../types/swap';
+
+const HASH = '0xabc';
+const OTHER_HASH = '0xdef';
+
+// Apply events in order, collecting every effect they requested
+const run = (state: SwapMachineState, events: SwapMachineEvent[]) => {
+  const effects: SwapMachineEffect[] = [];
+  const final = events.reduce((current, event) => {
+    const transition = transitionSwapMachine(current, event, 0);
+    effects.push(...transition.effects);
+    return transition.state;
+  }, state);
+  return { state: final, effects };
+};
+
+const effectTypes = (effects: SwapMachineEffect[]) => effects.map(effect => effect.type);
+
+const started = (withdrawalPolicy: WithdrawalPolicy = { mode: 'immediate' }) =>
+  run(INITIAL_SWAP_MACHINE_STATE, [{ type: 'START', withdrawalPolicy }]).state;
+
+// A run up to the wallet prompt, private unless the deposit is unavailable
+const awaitingSignature = (isPrivate = true, withdrawalPolicy?: WithdrawalPolicy) => {
+  const state = started(withdrawalPolicy);
+  const { runId } = state;
+  return run(state, [
+    { type: 'BUILD_STARTED', runId, providerName: 'AVNU' },
+    { type: 'SWAP_CALLS_BUILT', runId },
+    isPrivate ? { type: 'DEPOSIT_READY', runId } : { type: 'DEPOSIT_UNAVAILABLE', runId, reason: 'offline' },
+    { type: 'SIMULATED', runId },
+    { type: 'REVIEW_CONFIRMED', runId },
+  ]).state;
+};
+
+const submitted = (isPrivate = true, withdrawalPolicy?: WithdrawalPolicy) =>
+  run(awaitingSignature(isPrivate, withdrawalPolicy), [{ type: 'TX_SUBMITTED', transactionHash: HASH }]).state;
+
+describe('transitionSwapMachine', () => {
+  it('walks a private swap from start to the wallet prompt', () => {
+    const state = awaitingSignature();
+    expect(state.phase).toBe('awaiting-signature');
+    expect(state.isPrivateSwap).toBe(true);
+
+    const { state: next, effects } = run(state, [{ type: 'TX_SUBMITTED', transactionHash: HASH }]);
+    expect(next.phase).toBe('broadcasting');
+    expect(next.transactionHash).toBe(HASH);
+    expect(effectTypes(effects)).toEqual(['record-swap', 'watch-transaction']);
+  });
+
+  it('falls back to a regular swap when the deposit is unavailable', () => {
+    const state = awaitingSignature(false);
+    expect(state.isPrivateSwap).toBe(false);
+
+    const { state: next, effects } = run(state, [
+      { type: 'TX_SUBMITTED', transactionHash: HASH },
+      { type: 'TX_CONFIRMED', transactionHash: HASH },
+    ]);
+    expect(next.phase).toBe('completed');
+    expect(effects).toContainEqual({ type: 'update-journal', transactionHash: HASH, phase: 'completed' });
+    expect(effectTypes(effects)).not.toContain('withdraw');
+  });
+
+  describe('stale events', () => {
+    it('drops events from an earlier run', () => {
+      const first = started();
+      const cancelled = run(first, [{ type: 'CANCEL' }]).state;
+      const second = run(cancelled, [{ type: 'START', withdrawalPolicy: { mode: 'immediate' } }]).state;
+
+      const { state } = run(second, [{ type: 'BUILD_STARTED', runId: first.runId, providerName: 'AVNU' }]);
+      expect(state).toBe(second);
+    });
+
+    it('drops a late step failure once the run was cancelled', () => {
+      const state = started();
+      const cancelled = run(state, [{ type: 'CANCEL' }]).state;
+      expect(run(cancelled, [{ type: 'STEP_FAILED', runId: state.runId, error: 'late' }]).state).toBe(cancelled);
+    });
+
+    it('drops updates for another transaction', () => {
+      const state = submitted();
+      const { state: next, effects } = run(state, [
+        { type: 'TX_CONFIRMED', transactionHash: OTHER_HASH },
+        { type: 'DEPOSIT_SAVED', transactionHash: OTHER_HASH },
+        { type: 'TX_FAILED', transactionHash: OTHER_HASH, error: 'reverted' },
+      ]);
+      expect(next).toBe(state);
+      expect(effects).toEqual([]);
+    });
+
+    it('ignores a second confirmation of the same transaction', () => {
+      const confirmed = run(submitted(), [{ type: 'TX_CONFIRMED', transactionHash: HASH }]).state;
+      expect(run(confirmed, [{ type: 'TX_CONFIRMED', transactionHash: HASH }]).state).toBe(confirmed);
+    });
+  });
+
+  describe('deposit saved and transaction confirmed', () => {
+    it('withdraws once both arrived when the deposit is saved first', () => {
+      const saved = run(submitted(), [{ type: 'DEPOSIT_SAVED', transactionHash: HASH }]);
+      expect(saved.state.phase).toBe('broadcasting');
+      expect(effectTypes(saved.effects)).toEqual([]);
+
+      const confirmed = run(saved.state, [{ type: 'TX_CONFIRMED', transactionHash: HASH }]);
+      expect(confirmed.state.phase).toBe('processing-withdrawal');
+      expect(effectTypes(confirmed.effects)).toEqual(['update-journal', 'withdraw', 'notify']);
+    });
+
+    it('withdraws once both arrived when the transaction confirms first', () => {
+      const confirmed = run(submitted(), [{ type: 'TX_CONFIRMED', transactionHash: HASH }]);
+      expect(confirmed.state.phase).toBe('confirming');
+      expect(effectTypes(confirmed.effects)).toEqual(['notify']);
+
+      const saved = run(confirmed.state, [{ type: 'DEPOSIT_SAVED', transactionHash: HASH }]);
+      expect(saved.state.phase).toBe('processing-withdrawal');
+      expect(effectTypes(saved.effects)).toEqual(['update-journal', 'withdraw']);
+    });
+
+    it('withdraws only once when the deposit is saved twice', () => {
+      const { effects } = run(submitted(), [
+        { type: 'TX_CONFIRMED', transactionHash: HASH },
+        { type: 'DEPOSIT_SAVED', transactionHash: HASH },
+        { type: 'DEPOSIT_SAVED', transactionHash: HASH },
+      ]);
+      expect(effectTypes(effects).filter(type => type === 'withdraw')).toHaveLength(1);
+    });
+
+    it('schedules instead of withdrawing for a delayed policy', () => {
+      const { state, effects } = run(submitted(true, { mode: 'delayed', delayMinutes: 30 }), [
+        { type: 'DEPOSIT_SAVED', transactionHash: HASH },
+        { type: 'TX_CONFIRMED', transactionHash: HASH },
+      ]);
+      expect(state.phase).toBe('processing-withdrawal');
+      expect(effectTypes(effects)).toContain('schedule-withdrawal');
+      expect(effectTypes(effects)).not.toContain('withdraw');
+    });
+
+    it('fails the deposit when a private transaction reverts', () => {
+      const { state, effects } = run(submitted(), [{ type: 'TX_FAILED', transactionHash: HASH, error: 'reverted' }]);
+      expect(state.phase).toBe('failed');
+      expect(effectTypes(effects)).toEqual(['update-journal', 'fail-deposit', 'notify']);
+    });
+  });
+
+  describe('cancel', () => {
+    it('cancels before anything is signed and starts a new run id', () => {
+      const state = started();
+      const { state: next } = run(state, [{ type: 'CANCEL' }]);
+      expect(next.phase).toBe('cancelled');
+      expect(next.runId).toBe(state.runId + 1);
+    });
+
+    it('cannot cancel once the transaction is submitted', () => {
+      const state = submitted();
+      expect(run(state, [{ type: 'CANCEL' }]).state).toBe(state);
+    });
+  });
+
+  describe('timeout', () => {
+    it('fails a phase that ran out of time', () => {
+      const state = started();
+      const { state: next, effects } = run(state, [{ type: 'TIMEOUT', runId: state.runId, phase: 'preparing' }]);
+      expect(next.phase).toBe('failed');
+      expect(next.error).toBe('Preparing the swap timed out, please try again');
+      expect(effectTypes(effects)).toEqual(['notify']);
+    });
+
+    it('ignores the timeout of a phase already left', () => {
+      const state = started();
+      const building = run(state, [{ type: 'BUILD_STARTED', runId: state.runId, providerName: 'AVNU' }]).state;
+      expect(run(building, [{ type: 'TIMEOUT', runId: state.runId, phase: 'preparing' }]).state).toBe(building);
+    });
+
+    it('fails an abandoned review so it stops holding the vault', () => {
+      const state = started();
+      const { runId } = state;
+      const reviewing = run(state, [
+        { type: 'BUILD_STARTED', runId, providerName: 'AVNU' },
+        { type: 'SWAP_CALLS_BUILT', runId },
+        { type: 'DEPOSIT_READY', runId },
+        { type: 'SIMULATED', runId },
+      ]).state;
+      expect(reviewing.phase).toBe('reviewing');
+      expect(isSwapInFlight(reviewing)).toBe(true);
+      expect(getSwapPhaseTimer(reviewing)).toEqual({ delayMs: 300000, event: { type: 'TIMEOUT', runId, phase: 'reviewing' } });
+
+      const abandoned = run(reviewing, [{ type: 'TIMEOUT', runId, phase: 'reviewing' }]).state;
+      expect(abandoned.error).toBe('Reviewing the transaction timed out, please try again');
+      expect(isSwapInFlight(abandoned)).toBe(false);
+    });
+
+    it('times out in every phase that waits on something', () => {
+      expect(getSwapPhaseTimer(started())?.event).toEqual({ type: 'TIMEOUT', runId: 1, phase: 'preparing' });
+      expect(getSwapPhaseTimer(awaitingSignature())?.event.type).toBe('TIMEOUT');
+      expect(getSwapPhaseTimer(submitted())).toBeNull();
+    });
+  });
+
+  describe('unanswered signature request', () => {
+    const timedOut = () => {
+      const state = awaitingSignature();
+      return run(state, [{ type: 'TIMEOUT', runId: state.runId, phase: 'awaiting-signature' }]).state;
+    };
+
+    it('fails the run but keeps following the request', () => {
+      const state = timedOut();
+      expect(state.phase).toBe('failed');
+      expect(state.error).toContain('did not respond in time');
+      expect(state.awaitingLateSignature).toBe(true);
+    });
+
+    it('still follows a transaction signed after the timeout', () => {
+      const { state, effects } = run(timedOut(), [{ type: 'TX_SUBMITTED', transactionHash: HASH }]);
+      expect(state.phase).toBe('broadcasting');
+      expect(state.isPrivateSwap).toBe(true);
+      expect(state.error).toBeNull();
+      expect(effectTypes(effects)).toEqual(['record-swap', 'watch-transaction']);
+    });
+
+    it('stops following the request once it is rejected', () => {
+      const rejected = run(timedOut(), [{ type: 'TX_REJECTED', error: 'User rejected' }]).state;
+      expect(rejected.phase).toBe('failed');
+      expect(run(rejected, [{ type: 'TX_SUBMITTED', transactionHash: HASH }]).state).toBe(rejected);
+    });
+
+    it('does not start a new swap until the request is answered', () => {
+      const state = timedOut();
+      const start: SwapMachineEvent = { type: 'START', withdrawalPolicy: { mode: 'immediate' } };
+      expect(run(state, [start]).state).toBe(state);
+
+      const rejected = run(state, [{ type: 'TX_REJECTED', error: 'User rejected' }]).state;
+      expect(run(rejected, [start]).state.phase).toBe('preparing');
+
+      const signed = run(state, [{ type: 'TX_SUBMITTED', transactionHash: HASH }]).state;
+      expect(run(signed, [start]).state).toBe(signed);
+    });
+  });
+});
+
+describe('isSwapInFlight', () => {
+  it('holds from the start of a run until it completes', () => {
+    expect(isSwapInFlight(INITIAL_SWAP_MACHINE_STATE)).toBe(false);
+    expect(isSwapInFlight(started())).toBe(true);
+    expect(isSwapInFlight(submitted())).toBe(true);
+
+    const { state } = run(submitted(), [
+      { type: 'TX_CONFIRMED', transactionHash: HASH },
+      { type: 'DEPOSIT_SAVED', transactionHash: HASH },
+      { type: 'WITHDRAWAL_COMPLETED', transactionHash: HASH },
+    ]);
+    expect(state.phase).toBe('completed');
+    expect(isSwapInFlight(state)).toBe(false);
+  });
+
+  it('keeps holding while a timed out signature can still arrive', () => {
+    const state = awaitingSignature();
+    const timedOut = run(state, [{ type: 'TIMEOUT', runId: state.runId, phase: 'awaiting-signature' }]).state;
+    expect(timedOut.phase).toBe('failed');
+    expect(isSwapInFlight(timedOut)).toBe(true);
+    expect(isSwapInFlight(run(timedOut, [{ type: 'TX_REJECTED', error: 'User rejected' }]).state)).toBe(false);
+  });
+});
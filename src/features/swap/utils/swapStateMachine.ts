@@ -0,0 +1,447 @@
+import { SwapExecutionState, SwapPhase, SwapProgress, WithdrawalPolicy } from '../types/swap';
+import { DEFAULT_WITHDRAWAL_POLICY } from './withdrawalPolicy';
+import type { SwapJournalPhase } from './swapJournal';
+import type { TransactionWatchStatus } from '../services/transactionWatcher';
+
+/**
+ * Phases of a swap run. The SwapPhase values are the ones shown as progress,
+ * the rest are resting states between runs.
+ */
+export type SwapMachinePhase = 'idle' | SwapPhase | 'done' | 'failed' | 'cancelled';
+
+export interface SwapMachineState {
+  phase: SwapMachinePhase;
+  runId: number; // Bumped on every start, cancel and reset so late async results are dropped
+  enteredAt: number | null;
+  message: string | null;
+  withdrawalPolicy: WithdrawalPolicy;
+  isPrivateSwap: boolean;
+  transactionHash: string | null;
+  isConfirmed: boolean;
+  isDepositSaved: boolean;
+  withdrawalStatus?: SwapExecutionState['withdrawalStatus'];
+  error: string | null;
+  awaitingLateSignature: boolean; // A timed out wallet request can still be signed, so its result is still followed
+}
+
+export type SwapMachineEvent =
+  | { type: 'START'; withdrawalPolicy: WithdrawalPolicy }
+  | { type: 'BUILD_STARTED'; runId: number; providerName: string }
+  | { type: 'SWAP_CALLS_BUILT'; runId: number }
+  | { type: 'DEPOSIT_READY'; runId: number }
+  | { type: 'DEPOSIT_UNAVAILABLE'; runId: number; reason: string }
+  | { type: 'SIMULATED'; runId: number }
+  | { type: 'SIMULATION_REVERTED'; runId: number; reason: string }
+  | { type: 'REVIEW_CONFIRMED'; runId: number }
+  | { type: 'STEP_FAILED'; runId: number; error: string }
+  | { type: 'TIMEOUT'; runId: number; phase: SwapMachinePhase }
+  | { type: 'TX_SUBMITTED'; transactionHash: string }
+  | { type: 'TX_REJECTED'; error: string }
+  | { type: 'TX_STATUS'; transactionHash: string; status: TransactionWatchStatus; confirmations: number; requiredConfirmations: number }
+  | { type: 'TX_CONFIRMED'; transactionHash: string }
+  | { type: 'TX_FAILED'; transactionHash: string; error: string }
+  | { type: 'DEPOSIT_SAVED'; transactionHash: string }
+  | { type: 'WITHDRAWAL_COMPLETED'; transactionHash: string }
+  | { type: 'WITHDRAWAL_SCHEDULED'; transactionHash: string; scheduledAt: number | null }
+  | { type: 'WITHDRAWAL_FAILED'; transactionHash: string; error: string }
+  | { type: 'DISMISS'; runId: number }
+  | { type: 'CANCEL' }
+  | { type: 'RESET' };
+
+/**
+ * Side effects requested by a transition. The machine only emits them on the
+ * transition into the phase that needs them, so each runs at most once per swap.
+ */
+export type SwapMachineEffect =
+  | { type: 'record-swap'; transactionHash: string; isPrivateSwap: boolean }
+  | { type: 'update-journal'; transactionHash: string; phase: SwapJournalPhase; error?: string }
+  | { type: 'watch-transaction'; transactionHash: string }
+  | { type: 'fail-deposit'; transactionHash: string; error: string }
+  | { type: 'withdraw'; transactionHash: string }
+  | { type: 'schedule-withdrawal'; transactionHash: string; withdrawalPolicy: WithdrawalPolicy }
+  | { type: 'notify'; level: 'success' | 'warning' | 'error'; title: string; description?: string; transactionHash?: string };
+
+export interface SwapMachineTransition {
+  state: SwapMachineState;
+  effects: SwapMachineEffect[];
+}
+
+export interface SwapPhaseTimer {
+  delayMs: number;
+  event: SwapMachineEvent;
+}
+
+// Nothing has been signed yet in these phases, so they can be cancelled or timed out safely
+const PRE_SIGNATURE_PHASES: SwapMachinePhase[] = ['preparing', 'building-swap', 'generating-deposit', 'simulating', 'reviewing'];
+
+const ACTIVE_PHASES: SwapMachinePhase[] = [...PRE_SIGNATURE_PHASES, 'awaiting-signature'];
+
+// Phases in which a run has nothing left to write
+const RESTING_PHASES: SwapMachinePhase[] = ['idle', 'completed', 'done', 'failed', 'cancelled'];
+
+const PHASE_TIMEOUTS_MS: Partial<Record<SwapMachinePhase, number>> = {
+  preparing: 30000,
+  'building-swap': 30000,
+  'generating-deposit': 60000,
+  simulating: 30000,
+  // An open review holds the vault, so an abandoned one must not keep it open
+  reviewing: 300000,
+  // Long enough for hardware wallets, short enough that a closed wallet popup does not block swapping
+  'awaiting-signature': 300000,
+};
+
+const COMPLETED_DISPLAY_MS = 3000;
+
+const PHASE_ESTIMATES_MS: Partial<Record<SwapPhase, number>> = {
+  preparing: 1000,
+  'building-swap': 2000,
+  'generating-deposit': 15000,
+  simulating: 2000,
+  broadcasting: 5000,
+  confirming: 15000,
+  'processing-withdrawal': 60000,
+};
+
+const PHASE_LABELS: Partial<Record<SwapMachinePhase, string>> = {
+  preparing: 'Preparing the swap',
+  'building-swap': 'Building the swap',
+  'generating-deposit': 'Generating the private deposit',
+  simulating: 'Simulating the swap',
+  reviewing: 'Reviewing the transaction',
+};
+
+export const INITIAL_SWAP_MACHINE_STATE: SwapMachineState = {
+  phase: 'idle',
+  runId: 0,
+  enteredAt: null,
+  message: null,
+  withdrawalPolicy: DEFAULT_WITHDRAWAL_POLICY,
+  isPrivateSwap: false,
+  transactionHash: null,
+  isConfirmed: false,
+  isDepositSaved: false,
+  withdrawalStatus: undefined,
+  error: null,
+  awaitingLateSignature: false,
+};
+
+const unchanged = (state: SwapMachineState): SwapMachineTransition => ({ state, effects: [] });
+
+const enter = (
+  state: SwapMachineState,
+  phase: SwapMachinePhase,
+  message: string | null,
+  now: number,
+  changes: Partial<SwapMachineState> = {},
+  effects: SwapMachineEffect[] = []
+): SwapMachineTransition => ({
+  state: { ...state, ...changes, phase, message, enteredAt: now },
+  effects,
+});
+
+const swapFailed = (state: SwapMachineState, error: string, now: number): SwapMachineTransition =>
+  enter(state, 'failed', null, now, { error, transactionHash: null }, [
+    { type: 'notify', level: 'error', title: 'Swap failed!', description: error },
+  ]);
+
+// A private swap withdraws once the deposit is both confirmed and saved to the vault
+const advanceConfirmedSwap = (state: SwapMachineState, now: number): SwapMachineTransition => {
+  const transactionHash = state.transactionHash as string;
+
+  if (!state.isPrivateSwap) {
+    return enter(state, 'completed', 'Swap completed successfully!', now, {}, [
+      { type: 'update-journal', transactionHash, phase: 'completed' },
+    ]);
+  }
+  if (!state.isDepositSaved) {
+    return unchanged(state);
+  }
+  if (state.withdrawalPolicy.mode === 'immediate') {
+    return enter(state, 'processing-withdrawal', 'Processing withdrawal', now, { withdrawalStatus: 'processing' }, [
+      { type: 'update-journal', transactionHash, phase: 'processing-withdrawal' },
+      { type: 'withdraw', transactionHash },
+    ]);
+  }
+  return enter(state, 'processing-withdrawal', 'Scheduling withdrawal', now, {}, [
+    { type: 'update-journal', transactionHash, phase: 'processing-withdrawal' },
+    { type: 'schedule-withdrawal', transactionHash, withdrawalPolicy: state.withdrawalPolicy },
+  ]);
+};
+
+/**
+ * Apply an event to the swap machine. Events that are not legal in the current
+ * phase, or that belong to an earlier run or transaction, leave the state untouched.
+ */
+export function transitionSwapMachine(
+  state: SwapMachineState,
+  event: SwapMachineEvent,
+  now: number = Date.now()
+): SwapMachineTransition {
+  if ('runId' in event && event.runId !== state.runId) {
+    return unchanged(state);
+  }
+  if ('transactionHash' in event && event.type !== 'TX_SUBMITTED' && event.transactionHash !== state.transactionHash) {
+    return unchanged(state);
+  }
+
+  switch (event.type) {
+    case 'START':
+      if (ACTIVE_PHASES.includes(state.phase) || ['broadcasting', 'confirming', 'processing-withdrawal'].includes(state.phase)) {
+        return unchanged(state);
+      }
+      // A late signature of the timed out request would otherwise lose its deposit notes to the new run
+      if (state.awaitingLateSignature) return unchanged(state);
+      return enter(INITIAL_SWAP_MACHINE_STATE, 'preparing', 'Preparing swap transaction', now, {
+        runId: state.runId + 1,
+        withdrawalPolicy: event.withdrawalPolicy,
+        withdrawalStatus: 'pending',
+      });
+
+    case 'BUILD_STARTED':
+      if (state.phase !== 'preparing') return unchanged(state);
+      return enter(state, 'building-swap', `Building swap calls with ${event.providerName}`, now);
+
+    case 'SWAP_CALLS_BUILT':
+      if (state.phase !== 'building-swap') return unchanged(state);
+      return enter(state, 'generating-deposit', 'Generating private deposit calls', now);
+
+    case 'DEPOSIT_READY':
+      if (state.phase !== 'generating-deposit') return unchanged(state);
+      return enter(state, 'simulating', 'Simulating the swap and estimating fees', now, { isPrivateSwap: true });
+
+    case 'DEPOSIT_UNAVAILABLE':
+      if (state.phase !== 'generating-deposit') return unchanged(state);
+      // Fall back to a regular swap without the privacy layer
+      return enter(state, 'simulating', 'Simulating the swap and estimating fees', now, { isPrivateSwap: false }, [
+        {
+          type: 'notify',
+          level: 'warning',
+          title: 'Private swap unavailable, proceeding with regular swap',
+          description: event.reason,
+        },
+      ]);
+
+    case 'SIMULATED':
+      if (state.phase !== 'simulating') return unchanged(state);
+      return enter(state, 'reviewing', 'Review the transaction before signing', now);
+
+    case 'REVIEW_CONFIRMED':
+      if (state.phase !== 'reviewing') return unchanged(state);
+      return enter(
+        state,
+        'awaiting-signature',
+        state.isPrivateSwap ? 'Ready to sign - please check your wallet' : 'Ready to sign regular swap - check your wallet',
+        now
+      );
+
+    case 'SIMULATION_REVERTED':
+      // Nothing was signed, so the swap fails before the wallet opens
+      if (state.phase !== 'simulating') return unchanged(state);
+      return swapFailed(state, `This swap would fail because ${event.reason}`, now);
+
+    case 'STEP_FAILED':
+      if (!ACTIVE_PHASES.includes(state.phase)) return unchanged(state);
+      return swapFailed(state, event.error, now);
+
+    case 'TIMEOUT': {
+      if (state.phase !== event.phase) return unchanged(state);
+      if (state.phase === 'awaiting-signature') {
+        // The wallet request cannot be withdrawn, so the run fails but a late signature is still picked up
+        const failed = swapFailed(state, 'The wallet did not respond in time, approve or reject the request before trying again', now);
+        return { state: { ...failed.state, awaitingLateSignature: true }, effects: failed.effects };
+      }
+      if (!PRE_SIGNATURE_PHASES.includes(state.phase)) return unchanged(state);
+      return swapFailed(state, `${PHASE_LABELS[state.phase]} timed out, please try again`, now);
+    }
+
+    case 'TX_SUBMITTED': {
+      if (state.phase !== 'awaiting-signature' && !state.awaitingLateSignature) return unchanged(state);
+      const { transactionHash } = event;
+      return enter(state, 'broadcasting', 'Transaction submitted, waiting for the network', now, {
+        transactionHash,
+        error: null,
+        awaitingLateSignature: false,
+      }, [
+        { type: 'record-swap', transactionHash, isPrivateSwap: state.isPrivateSwap },
+        { type: 'watch-transaction', transactionHash },
+      ]);
+    }
+
+    case 'TX_REJECTED':
+      if (state.awaitingLateSignature) {
+        // The timed out request was rejected after all, nothing left to follow
+        return { state: { ...state, awaitingLateSignature: false }, effects: [] };
+      }
+      if (state.phase !== 'awaiting-signature') return unchanged(state);
+      return swapFailed(state, event.error, now);
+
+    case 'TX_STATUS': {
+      if (state.phase !== 'broadcasting' && state.phase !== 'confirming') return unchanged(state);
+      const isAccepted = event.status === 'ACCEPTED_ON_L2' || event.status === 'ACCEPTED_ON_L1';
+      if (!isAccepted && event.status !== 'RECEIVED') return unchanged(state);
+
+      const message = isAccepted && event.requiredConfirmations > 1
+        ? `Waiting for confirmations (${Math.min(event.confirmations, event.requiredConfirmations)}/${event.requiredConfirmations})`
+        : 'Transaction confirming';
+      if (state.phase === 'confirming') {
+        // Same phase, only the confirmation count moves
+        return { state: { ...state, message }, effects: [] };
+      }
+      return enter(state, 'confirming', message, now);
+    }
+
+    case 'TX_CONFIRMED': {
+      if ((state.phase !== 'broadcasting' && state.phase !== 'confirming') || state.isConfirmed) return unchanged(state);
+      const confirmed = state.phase === 'confirming'
+        ? { ...state, isConfirmed: true }
+        : { ...state, phase: 'confirming' as const, message: 'Transaction confirming', enteredAt: now, isConfirmed: true };
+      const { state: next, effects } = advanceConfirmedSwap(confirmed, now);
+      return {
+        state: next,
+        effects: [
+          ...effects,
+          {
+            type: 'notify',
+            level: 'success',
+            title: !state.isPrivateSwap
+              ? 'Swap successful!'
+              : state.withdrawalPolicy.mode === 'immediate'
+                ? 'Swap successful! Starting withdrawal'
+                : 'Swap successful! Scheduling withdrawal',
+            transactionHash: event.transactionHash,
+          },
+        ],
+      };
+    }
+
+    case 'TX_FAILED': {
+      if (state.phase !== 'broadcasting' && state.phase !== 'confirming') return unchanged(state);
+      const { transactionHash, error } = event;
+      const failed = swapFailed(state, error, now);
+      return {
+        state: { ...failed.state, withdrawalStatus: undefined, isPrivateSwap: false },
+        effects: [
+          { type: 'update-journal', transactionHash, phase: 'failed', error },
+          ...(state.isPrivateSwap ? [{ type: 'fail-deposit' as const, transactionHash, error }] : []),
+          ...failed.effects,
+        ],
+      };
+    }
+
+    case 'DEPOSIT_SAVED': {
+      if ((state.phase !== 'broadcasting' && state.phase !== 'confirming') || state.isDepositSaved) return unchanged(state);
+      const saved = { ...state, isDepositSaved: true };
+      return saved.isConfirmed ? advanceConfirmedSwap(saved, now) : unchanged(saved);
+    }
+
+    case 'WITHDRAWAL_COMPLETED':
+      if (state.phase !== 'processing-withdrawal') return unchanged(state);
+      return enter(state, 'completed', 'Swap and withdrawal completed!', now, {
+        withdrawalStatus: 'completed',
+        isPrivateSwap: false,
+      }, [
+        { type: 'update-journal', transactionHash: event.transactionHash, phase: 'completed' },
+        { type: 'notify', level: 'success', title: 'Withdrawal completed!' },
+      ]);
+
+    case 'WITHDRAWAL_SCHEDULED': {
+      if (state.phase !== 'processing-withdrawal') return unchanged(state);
+      const message = event.scheduledAt
+        ? `Withdrawal scheduled for ${new Date(event.scheduledAt).toLocaleTimeString()}`
+        : 'Deposit saved - withdraw it from the Withdrawals page';
+      return enter(state, 'completed', message, now, {
+        withdrawalStatus: 'scheduled',
+        isPrivateSwap: false,
+      }, [
+        { type: 'update-journal', transactionHash: event.transactionHash, phase: 'completed' },
+        { type: 'notify', level: 'success', title: message },
+      ]);
+    }
+
+    case 'WITHDRAWAL_FAILED':
+      if (state.phase !== 'processing-withdrawal') return unchanged(state);
+      return enter(state, 'failed', null, now, {
+        withdrawalStatus: 'failed',
+        isPrivateSwap: false,
+      }, [
+        { type: 'update-journal', transactionHash: event.transactionHash, phase: 'failed', error: event.error },
+        {
+          type: 'notify',
+          level: 'error',
+          title: state.withdrawalPolicy.mode === 'immediate' ? 'Withdrawal failed!' : 'Failed to schedule withdrawal!',
+          description: event.error,
+        },
+      ]);
+
+    case 'DISMISS':
+      if (state.phase !== 'completed') return unchanged(state);
+      return enter(state, 'done', null, now);
+
+    case 'CANCEL':
+      if (!PRE_SIGNATURE_PHASES.includes(state.phase)) return unchanged(state);
+      return enter(state, 'cancelled', null, now, { runId: state.runId + 1, withdrawalStatus: undefined });
+
+    case 'RESET':
+      return { state: { ...INITIAL_SWAP_MACHINE_STATE, runId: state.runId + 1 }, effects: [] };
+  }
+}
+
+/**
+ * The timed event for the current phase: a timeout while preparing or waiting for the wallet,
+ * or dismissing the completed progress
+ */
+export function getSwapPhaseTimer(state: SwapMachineState): SwapPhaseTimer | null {
+  const timeoutMs = PHASE_TIMEOUTS_MS[state.phase];
+  if (timeoutMs) {
+    return { delayMs: timeoutMs, event: { type: 'TIMEOUT', runId: state.runId, phase: state.phase } };
+  }
+  if (state.phase === 'completed') {
+    return { delayMs: COMPLETED_DISPLAY_MS, event: { type: 'DISMISS', runId: state.runId } };
+  }
+  return null;
+}
+
+/**
+ * Progress shown to the user, only while a run is in one of the swap phases
+ */
+export function getSwapProgress(state: SwapMachineState): SwapProgress | undefined {
+  if (['idle', 'done', 'failed', 'cancelled'].includes(state.phase)) {
+    return undefined;
+  }
+
+  const phase = state.phase as SwapPhase;
+  return {
+    phase,
+    message: state.message ?? '',
+    estimatedTimeMs: PHASE_ESTIMATES_MS[phase],
+    startedAt: state.enteredAt ?? undefined,
+  };
+}
+
+export function isSwapMachineActive(state: SwapMachineState): boolean {
+  return ACTIVE_PHASES.includes(state.phase);
+}
+
+/**
+ * Whether the run may still write deposit notes or journal entries: from the start until it
+ * completes or fails, and while a timed out signature request can still be answered
+ */
+export function isSwapInFlight(state: SwapMachineState): boolean {
+  return !RESTING_PHASES.includes(state.phase) || state.awaitingLateSignature;
+}
+
+/**
+ * Flatten the machine state into the execution state the swap UI reads
+ */
+export function toSwapExecutionState(state: SwapMachineState): SwapExecutionState {
+  return {
+    isLoading: isSwapMachineActive(state),
+    isSuccess: state.transactionHash !== null,
+    isError: state.phase === 'failed' && state.transactionHash === null,
+    error: state.error,
+    transactionHash: state.transactionHash,
+    isPrivateSwap: state.isPrivateSwap,
+    withdrawalStatus: state.withdrawalStatus,
+    progress: getSwapProgress(state),
+  };
+}
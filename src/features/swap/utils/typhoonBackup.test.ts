@@ -0,0 +1,103 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { installMemoryStorage } from '@/test/memoryStorage';
+import { createTyphoonVault, lockTyphoonVault } from './typhoonVault';
+import { TyphoonDepositData, loadTyphoonDepositData, saveTyphoonDepositData } from './typhoonStorage';
+import {
+  createTyphoonBackup,
+  exportTyphoonBackup,
+  importTyphoonBackup,
+  isTyphoonBackupEncrypted,
+  readTyphoonBackup,
+} from './typhoonBackup';
+
+const PASSPHRASE = 'correct horse battery';
+const BACKUP_PASSPHRASE = 'backup passphrase';
+
+const deposit = (transactionHash: string, secret = 'secret'): TyphoonDepositData => ({
+  transactionHash,
+  secrets: [secret],
+  nullifiers: ['nullifier'],
+  pools: ['pool'],
+  tokenAddress: '0x1',
+  amount: '1000',
+  timestamp: 1,
+  walletAddress: '0x2',
+  status: 'pending',
+});
+
+const toFile = async (deposits: unknown[], passphrase?: string) =>
+  JSON.stringify(await createTyphoonBackup(deposits as TyphoonDepositData[], passphrase));
+
+beforeEach(async () => {
+  installMemoryStorage();
+  await createTyphoonVault(PASSPHRASE);
+});
+
+afterEach(() => {
+  lockTyphoonVault();
+});
+
+describe('readTyphoonBackup', () => {
+  it('reads back a plain backup', async () => {
+    const contents = await toFile([deposit('0xa')]);
+    expect(isTyphoonBackupEncrypted(contents)).toBe(false);
+    expect(await readTyphoonBackup(contents)).toEqual([deposit('0xa')]);
+  });
+
+  it('needs the passphrase of an encrypted backup', async () => {
+    const contents = await toFile([deposit('0xa')], BACKUP_PASSPHRASE);
+    expect(isTyphoonBackupEncrypted(contents)).toBe(true);
+    expect(contents).not.toContain('secret');
+
+    await expect(readTyphoonBackup(contents)).rejects.toThrow('enter its passphrase');
+    await expect(readTyphoonBackup(contents, 'wrong passphrase')).rejects.toThrow();
+    expect(await readTyphoonBackup(contents, BACKUP_PASSPHRASE)).toEqual([deposit('0xa')]);
+  });
+
+  it('rejects files that are not intact backups', async () => {
+    await expect(readTyphoonBackup('not json')).rejects.toThrow('not valid JSON');
+    await expect(readTyphoonBackup('{"format":"other"}')).rejects.toThrow('Not a PrivFi deposit backup');
+
+    const backup = JSON.parse(await toFile([deposit('0xa')]));
+    await expect(readTyphoonBackup(JSON.stringify({ ...backup, version: 99 }))).rejects.toThrow('newer than this app supports');
+    await expect(readTyphoonBackup(JSON.stringify({ ...backup, payload: backup.payload.replace('0xa', '0xb') })))
+      .rejects.toThrow('checksum does not match');
+  });
+});
+
+describe('importTyphoonBackup', () => {
+  it('merges by transaction hash without overwriting local notes', async () => {
+    await saveTyphoonDepositData(deposit('0xa'));
+    await saveTyphoonDepositData(deposit('0xb'));
+
+    const contents = await toFile([deposit('0xa'), deposit('0xb', 'other secret'), deposit('0xc'), { transactionHash: '0xd' }]);
+    expect(await importTyphoonBackup(contents)).toEqual({
+      imported: ['0xc'],
+      unchanged: ['0xa'],
+      conflicts: ['0xb'],
+      invalid: 1,
+    });
+
+    expect(await loadTyphoonDepositData('0xb')).toEqual(deposit('0xb'));
+    expect(await loadTyphoonDepositData('0xc')).toEqual(deposit('0xc'));
+  });
+
+  it('round-trips an export into a fresh vault', async () => {
+    await saveTyphoonDepositData(deposit('0xa'));
+    await saveTyphoonDepositData(deposit('0xb'));
+    const contents = JSON.stringify(await exportTyphoonBackup(['0xb'], BACKUP_PASSPHRASE));
+
+    lockTyphoonVault();
+    installMemoryStorage();
+    await createTyphoonVault(PASSPHRASE);
+
+    expect((await importTyphoonBackup(contents, BACKUP_PASSPHRASE)).imported).toEqual(['0xb']);
+    expect(await loadTyphoonDepositData('0xa')).toBeNull();
+  });
+
+  it('needs an unlocked vault', async () => {
+    const contents = await toFile([deposit('0xa')]);
+    lockTyphoonVault();
+    await expect(importTyphoonBackup(contents)).rejects.toThrow('Unlock your vault');
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * Backup files for Typhoon deposit notes.
+ * A backup is a versioned JSON document whose payload carries a SHA-256 checksum
+ * and can optionally be sealed with its own passphrase, so notes survive a cleared
+ * browser or a move to another machine.
+ */
+import {
+  TyphoonDepositData,
+  getTyphoonDepositHistory,
+  loadTyphoonDepositData,
+  saveTyphoonDepositData,
+  validateTyphoonDepositData,
+} from './typhoonStorage';
+import {
+  PassphraseEncryptedPayload,
+  decryptWithPassphrase,
+  encryptWithPassphrase,
+  isTyphoonVaultUnlocked,
+} from './typhoonVault';
+
+export const TYPHOON_BACKUP_FORMAT = 'privfi-typhoon-backup';
+export const TYPHOON_BACKUP_VERSION = 1;
+
+export interface TyphoonBackupFile {
+  format: typeof TYPHOON_BACKUP_FORMAT;
+  version: number;
+  createdAt: number;
+  count: number;
+  checksum: string; // SHA-256 hex of the payload, or of the ciphertext when encrypted
+  encryption?: Omit<PassphraseEncryptedPayload, 'ciphertext'>;
+  payload: string; // JSON array of deposits, or base64 ciphertext when encrypted
+}
+
+export interface TyphoonBackupImportResult {
+  imported: string[]; // Transaction hashes added to storage
+  unchanged: string[]; // Already stored with the same notes
+  conflicts: string[]; // Stored with different notes; the local record is kept
+  invalid: number; // Records that failed validation
+}
+
+/**
+ * Build a backup of the given deposits, encrypted when a passphrase is provided
+ */
+export async function createTyphoonBackup(
+  deposits: TyphoonDepositData[],
+  passphrase?: string
+): Promise<TyphoonBackupFile> {
+  const plaintext = JSON.stringify(deposits);
+  let payload = plaintext;
+  let encryption: TyphoonBackupFile['encryption'];
+
+  if (passphrase) {
+    const { ciphertext, ...params } = await encryptWithPassphrase(passphrase, plaintext);
+    payload = ciphertext;
+    encryption = params;
+  }
+
+  return {
+    format: TYPHOON_BACKUP_FORMAT,
+    version: TYPHOON_BACKUP_VERSION,
+    createdAt: Date.now(),
+    count: deposits.length,
+    checksum: await sha256Hex(payload),
+    encryption,
+    payload,
+  };
+}
+
+/**
+ * Back up stored deposits. Exports every deposit when no hashes are selected.
+ */
+export async function exportTyphoonBackup(
+  transactionHashes?: string[],
+  passphrase?: string
+): Promise<TyphoonBackupFile> {
+  if (!isTyphoonVaultUnlocked()) {
+    throw new Error('Unlock your vault to export deposit notes');
+  }
+
+  const history = await getTyphoonDepositHistory();
+  const deposits = transactionHashes
+    ? history.filter(deposit => transactionHashes.includes(deposit.transactionHash))
+    : history;
+
+  if (deposits.length === 0) {
+    throw new Error('No deposits selected for backup');
+  }
+
+  return createTyphoonBackup(deposits, passphrase);
+}
+
+/**
+ * Parse a backup file, returning its raw records after format and checksum checks
+ */
+export async function readTyphoonBackup(contents: string, passphrase?: string): Promise<unknown[]> {
+  let backup: TyphoonBackupFile;
+  try {
+    backup = JSON.parse(contents);
+  } catch (error) {
+    throw new Error('Backup file is not valid JSON');
+  }
+
+  if (backup?.format !== TYPHOON_BACKUP_FORMAT || typeof backup.payload !== 'string') {
+    throw new Error('Not a PrivFi deposit backup');
+  }
+  if (backup.version > TYPHOON_BACKUP_VERSION) {
+    throw new Error(`Backup version ${backup.version} is newer than this app supports`);
+  }
+  if (backup.checksum !== await sha256Hex(backup.payload)) {
+    throw new Error('Backup checksum does not match, the file is corrupted');
+  }
+
+  let plaintext = backup.payload;
+  if (backup.encryption) {
+    if (!passphrase) {
+      throw new Error('This backup is encrypted, enter its passphrase');
+    }
+    plaintext = await decryptWithPassphrase(passphrase, { ...backup.encryption, ciphertext: backup.payload });
+  }
+
+  const records = JSON.parse(plaintext);
+  if (!Array.isArray(records)) {
+    throw new Error('Backup payload must be a list of deposits');
+  }
+  return records;
+}
+
+/**
+ * Whether a backup file needs a passphrase to be imported
+ */
+export function isTyphoonBackupEncrypted(contents: string): boolean {
+  try {
+    return !!JSON.parse(contents)?.encryption;
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * Merge a backup into storage by transaction hash.
+ * Existing records are never overwritten; differing notes are reported as conflicts.
+ */
+export async function importTyphoonBackup(
+  contents: string,
+  passphrase?: string
+): Promise<TyphoonBackupImportResult> {
+  if (!isTyphoonVaultUnlocked()) {
+    throw new Error('Unlock your vault to import deposit notes');
+  }
+
+  const records = await readTyphoonBackup(contents, passphrase);
+  const result: TyphoonBackupImportResult = { imported: [], unchanged: [], conflicts: [], invalid: 0 };
+
+  for (const record of records) {
+    if (!validateTyphoonDepositData(record)) {
+      result.invalid++;
+      continue;
+    }
+
+    const existing = await loadTyphoonDepositData(record.transactionHash);
+    if (!existing) {
+      await saveTyphoonDepositData({ ...record, status: record.status ?? 'pending' });
+      result.imported.push(record.transactionHash);
+    } else if (haveSameNotes(existing, record)) {
+      result.unchanged.push(record.transactionHash);
+    } else {
+      result.conflicts.push(record.transactionHash);
+    }
+  }
+
+  return result;
+}
+
+function haveSameNotes(a: TyphoonDepositData, b: TyphoonDepositData): boolean {
+  return (
+    JSON.stringify(a.secrets) === JSON.stringify(b.secrets) &&
+    JSON.stringify(a.nullifiers) === JSON.stringify(b.nullifiers) &&
+    JSON.stringify(a.pools) === JSON.stringify(b.pools)
+  );
+}
+
+async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
@@ -0,0 +1,61 @@
+/**
+ * Reads the approve and deposit calls the Typhoon SDK generates. Each note is a deposit to the
+ * Typhoon contract naming its pool, and each pool is approved for the total of its notes.
+ */
+import { Call, CallData, num } from 'starknet';
+import { API_CONFIG, MOCK_CONFIG } from '@/core/config';
+
+// deposit(_commitment: u256, _pool, _reward)
+const DEPOSIT_POOL_INDEX = 2;
+
+const sameAddress = (a: string, b: string): boolean => {
+  try {
+    return num.toBigInt(a) === num.toBigInt(b);
+  } catch (error) {
+    return false;
+  }
+};
+
+const toHexCalldata = (call: Call): string[] => {
+  try {
+    return CallData.toHex(call.calldata);
+  } catch (error) {
+    return [];
+  }
+};
+
+/**
+ * The contract is pinned rather than read from the SDK's calls, so the review does not vouch for what it checks
+ */
+export function isTyphoonContract(address: string): boolean {
+  if (sameAddress(address, API_CONFIG.typhoon.contractAddress)) return true;
+  return MOCK_CONFIG.enabled && sameAddress(address, MOCK_CONFIG.typhoonAddress);
+}
+
+/**
+ * Pool of every note deposited to the Typhoon contract, in deposit order. Only deposits to the pinned
+ * contract count; it reverts the whole multicall for a pool it does not know.
+ */
+export function getDepositPools(calls: Call[]): string[] {
+  return calls
+    .filter(call => call.entrypoint === 'deposit' && isTyphoonContract(call.contractAddress))
+    .map(call => toHexCalldata(call)[DEPOSIT_POOL_INDEX])
+    .filter((pool): pool is string => pool !== undefined);
+}
+
+/**
+ * Value of every deposited note in base units, in deposit order. A pool's notes all have its
+ * denomination, so each is worth the pool's approval divided by its number of notes.
+ */
+export function getDepositNoteAmounts(calls: Call[]): bigint[] {
+  const pools = getDepositPools(calls);
+  return pools.map(pool => {
+    const approval = calls.find(call => call.entrypoint === 'approve' && sameAddress(toHexCalldata(call)[0] ?? '0x0', pool));
+    const calldata = approval ? toHexCalldata(approval) : [];
+    if (calldata.length < 3) {
+      throw new Error(`No approval found for Typhoon pool ${pool}`);
+    }
+    const approved = num.toBigInt(calldata[1]) + (num.toBigInt(calldata[2]) << BigInt(128));
+    return approved / BigInt(pools.filter(other => sameAddress(other, pool)).length);
+  });
+}
@@ -0,0 +1,78 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { installMemoryStorage } from '@/test/memoryStorage';
+import { createTyphoonVault, lockTyphoonVault, unlockTyphoonVault } from './typhoonVault';
+import {
+  StoredTyphoonData,
+  TyphoonDepositData,
+  getTyphoonDepositHistory,
+  hasPlaintextTyphoonData,
+  loadTyphoonDepositData,
+  migratePlaintextTyphoonData,
+  saveTyphoonDepositData,
+} from './typhoonStorage';
+
+const PASSPHRASE = 'correct horse battery';
+const STORAGE_KEY = 'privfi_typhoon_data';
+
+const deposit = (transactionHash: string, timestamp = 1): TyphoonDepositData => ({
+  transactionHash,
+  secrets: ['secret'],
+  nullifiers: ['nullifier'],
+  pools: ['pool'],
+  tokenAddress: '0x1',
+  amount: '1000',
+  timestamp,
+  walletAddress: '0x2',
+  status: 'pending',
+});
+
+let storage: Storage;
+
+const readStored = (): StoredTyphoonData => JSON.parse(storage.getItem(STORAGE_KEY) ?? '{"deposits":[]}');
+
+// Records written by versions of the app that predate the vault
+const writeLegacyDeposits = (deposits: TyphoonDepositData[]) =>
+  storage.setItem(STORAGE_KEY, JSON.stringify({ deposits, lastUpdated: 0 }));
+
+beforeEach(async () => {
+  storage = installMemoryStorage();
+  await createTyphoonVault(PASSPHRASE);
+});
+
+afterEach(() => {
+  lockTyphoonVault();
+});
+
+describe('migratePlaintextTyphoonData', () => {
+  it('encrypts legacy plaintext records in place', async () => {
+    writeLegacyDeposits([deposit('0xa'), deposit('0xb')]);
+
+    expect(await migratePlaintextTyphoonData()).toBe(2);
+    expect(hasPlaintextTyphoonData()).toBe(false);
+    expect(JSON.stringify(readStored())).not.toContain('secret');
+    expect(await loadTyphoonDepositData('0xa')).toEqual(deposit('0xa'));
+  });
+
+  it('keeps a record saved while the migration was encrypting', async () => {
+    writeLegacyDeposits([deposit('0xa')]);
+
+    const saved = saveTyphoonDepositData(deposit('0xc'));
+    const migrated = migratePlaintextTyphoonData();
+    await Promise.all([saved, migrated]);
+
+    expect(readStored().deposits.map(d => d.transactionHash).sort()).toEqual(['0xa', '0xc']);
+    expect(hasPlaintextTyphoonData()).toBe(false);
+    expect(await loadTyphoonDepositData('0xc')).toEqual(deposit('0xc'));
+  });
+
+  it('persists records saved while the vault was locked once it is unlocked', async () => {
+    lockTyphoonVault();
+    await saveTyphoonDepositData(deposit('0xd'));
+    expect(storage.getItem(STORAGE_KEY)).toBeNull();
+    expect((await getTyphoonDepositHistory()).map(d => d.transactionHash)).toEqual(['0xd']);
+
+    await unlockTyphoonVault(PASSPHRASE);
+    await migratePlaintextTyphoonData();
+    expect(readStored().deposits.map(d => d.transactionHash)).toEqual(['0xd']);
+  });
+});
@@ -1,56 +1,89 @@
 /**
  * Storage utilities for persisting Typhoon SDK data between sessions
  * Based on Typhoon documentation: https://typhoon-2.gitbook.io/typhoon-docs/getting-started/getters-and-setters
+ *
+ * Deposit records are encrypted with the Typhoon vault before they reach localStorage.
+ * Only the transaction hash is kept in the clear so records can be looked up and replaced.
  */
+import {
+  encryptVaultRecord,
+  decryptVaultRecord,
+  isTyphoonVaultUnlocked,
+  subscribeToTyphoonVault,
+  EncryptedVaultPayload,
+} from './typhoonVault';
+import { PrivfiError } from '@/core/errors';
+
+export type TyphoonDepositStatus = 'pending' | 'withdrawn' | 'failed';
+
+const TYPHOON_DEPOSIT_STATUSES: TyphoonDepositStatus[] = ['pending', 'withdrawn', 'failed'];
 
 export interface TyphoonDepositData {
   transactionHash: string;
   secrets: any[]; // From sdk.get_secrets()
   nullifiers: any[]; // From sdk.get_nullifiers()
   pools: any[]; // From sdk.get_pools()
+  noteAmounts?: string[]; // Value of each note in base units, same order as pools; missing on older records
   tokenAddress: string;
   amount: string;
   timestamp: number;
   walletAddress: string;
+  status: TyphoonDepositStatus; // Missing on records saved before statuses existed
+  statusUpdatedAt?: number;
+  lastError?: string; // Reason of the last failed withdrawal
+  recipientAddresses?: string[]; // Where the withdrawal pays out
+  splitPercentages?: number[]; // Share per recipient when the payout is split
+  scheduledAt?: number; // When the withdrawal runs automatically; unset for manual withdrawals
+}
+
+export interface EncryptedTyphoonDeposit extends EncryptedVaultPayload {
+  transactionHash: string;
 }
 
 export interface StoredTyphoonData {
-  deposits: TyphoonDepositData[];
+  // Plaintext entries are only present in data written before the vault existed
+  deposits: Array<EncryptedTyphoonDeposit | TyphoonDepositData>;
   lastUpdated: number;
 }
 
 const STORAGE_KEY = 'privfi_typhoon_data';
 
+// Records saved while the vault is locked are held here until it is unlocked again
+const pendingDeposits = new Map<string, TyphoonDepositData>();
+
 /**
  * Save Typhoon deposit data after successful deposit
  */
-export function saveTyphoonDepositData(data: TyphoonDepositData): void {
-  try {
-    const existing = getTyphoonStorageData();
-    
-    // Remove any existing entry with same transaction hash
-    const filtered = existing.deposits.filter(d => d.transactionHash !== data.transactionHash);
-    
-    // Add new deposit data
-    const updated: StoredTyphoonData = {
-      deposits: [...filtered, data],
-      lastUpdated: Date.now()
-    };
-    
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(updated));
-  } catch (error) {
-    // Failed to save Typhoon deposit data
+export async function saveTyphoonDepositData(data: TyphoonDepositData): Promise<void> {
+  if (!isTyphoonVaultUnlocked()) {
+    pendingDeposits.set(data.transactionHash, data);
+    return;
   }
+
+  const encrypted = await encryptDeposit(data);
+  const existing = getTyphoonStorageData();
+
+  // Remove any existing entry with same transaction hash
+  const filtered = existing.deposits.filter(d => d.transactionHash !== data.transactionHash);
+
+  // Add new deposit data
+  writeTyphoonStorageData([...filtered, encrypted]);
+  pendingDeposits.delete(data.transactionHash);
 }
 
 /**
  * Load Typhoon deposit data for a specific transaction hash
  */
-export function loadTyphoonDepositData(transactionHash: string): TyphoonDepositData | null {
+export async function loadTyphoonDepositData(transactionHash: string): Promise<TyphoonDepositData | null> {
+  const pending = pendingDeposits.get(transactionHash);
+  if (pending) {
+    return pending;
+  }
+
   try {
     const data = getTyphoonStorageData();
     const deposit = data.deposits.find(d => d.transactionHash === transactionHash);
-    return deposit || null;
+    return deposit ? await decryptDeposit(deposit) : null;
   } catch (error) {
     return null;
   }
@@ -63,16 +96,16 @@ export function loadTyphoonDepositData(transactionHash: string): TyphoonDepositD
  * SDK state accumulation issues. Use loadTyphoonDepositData() for specific transactions instead.
  * Only use this function for debugging or migration purposes.
  */
-export function getAllTyphoonSdkData(): { secrets: any[], nullifiers: any[], pools: any[] } {
+export async function getAllTyphoonSdkData(): Promise<{ secrets: any[], nullifiers: any[], pools: any[] }> {
   try {
-    const data = getTyphoonStorageData();
+    const deposits = await getTyphoonDepositHistory();
     
     // Combine all secrets, nullifiers, and pools from all deposits
     const allSecrets: any[] = [];
     const allNullifiers: any[] = [];
     const allPools: any[] = [];
     
-    data.deposits.forEach(deposit => {
+    deposits.forEach(deposit => {
       if (deposit.secrets) allSecrets.push(...deposit.secrets);
       if (deposit.nullifiers) allNullifiers.push(...deposit.nullifiers);
       if (deposit.pools) allPools.push(...deposit.pools);
@@ -89,19 +122,85 @@ export function getAllTyphoonSdkData(): { secrets: any[], nullifiers: any[], poo
 }
 
 /**
- * Remove deposit data after successful withdrawal
+ * Update fields of an existing deposit record
+ */
+export async function updateTyphoonDepositData(
+  transactionHash: string,
+  changes: Partial<Omit<TyphoonDepositData, 'transactionHash'>>
+): Promise<void> {
+  const deposit = await loadTyphoonDepositData(transactionHash);
+  if (!deposit) {
+    throw new Error(`No deposit data found for transaction ${transactionHash}`);
+  }
+
+  await saveTyphoonDepositData({ ...deposit, ...changes });
+}
+
+/**
+ * Record the withdrawal outcome of a deposit, keeping it in the history
+ */
+export async function updateTyphoonDepositStatus(
+  transactionHash: string,
+  status: TyphoonDepositStatus,
+  lastError?: string
+): Promise<void> {
+  await updateTyphoonDepositData(transactionHash, {
+    status,
+    statusUpdatedAt: Date.now(),
+    lastError: status === 'failed' ? lastError : undefined,
+  });
+}
+
+// Deposits being withdrawn in this tab, shared by every service instance and hook
+const withdrawalsInFlight = new Set<string>();
+
+export function isTyphoonWithdrawalInFlight(transactionHash: string): boolean {
+  return withdrawalsInFlight.has(transactionHash.toLowerCase());
+}
+
+/**
+ * Run a withdrawal while holding the deposit's lock, so the scheduler, the Withdrawals page
+ * and a swap's own withdrawal never work on the same deposit at once
+ */
+export async function withTyphoonWithdrawalLock<T>(transactionHash: string, withdrawal: () => Promise<T>): Promise<T> {
+  const key = transactionHash.toLowerCase();
+  if (withdrawalsInFlight.has(key)) {
+    throw new PrivfiError('WITHDRAWAL_IN_PROGRESS', `Deposit ${transactionHash} is already being withdrawn`);
+  }
+
+  withdrawalsInFlight.add(key);
+  try {
+    return await withdrawal();
+  } finally {
+    withdrawalsInFlight.delete(key);
+  }
+}
+
+/**
+ * Store where and when a deposit should be withdrawn.
+ * A null scheduledAt leaves the withdrawal to the user.
+ */
+export async function scheduleTyphoonWithdrawal(
+  transactionHash: string,
+  recipientAddresses: string[],
+  scheduledAt: number | null,
+  splitPercentages?: number[]
+): Promise<void> {
+  await updateTyphoonDepositData(transactionHash, {
+    recipientAddresses,
+    splitPercentages,
+    scheduledAt: scheduledAt ?? undefined,
+  });
+}
+
+/**
+ * Remove the stored data of a single deposit
  */
 export function clearTyphoonDepositData(transactionHash: string): void {
   try {
+    pendingDeposits.delete(transactionHash);
     const existing = getTyphoonStorageData();
-    const filtered = existing.deposits.filter(d => d.transactionHash !== transactionHash);
-    
-    const updated: StoredTyphoonData = {
-      deposits: filtered,
-      lastUpdated: Date.now()
-    };
-    
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(updated));
+    writeTyphoonStorageData(existing.deposits.filter(d => d.transactionHash !== transactionHash));
   } catch (error) {
     // Failed to clear Typhoon deposit data
   }
@@ -112,6 +211,7 @@ export function clearTyphoonDepositData(transactionHash: string): void {
  */
 export function clearAllTyphoonData(): void {
   try {
+    pendingDeposits.clear();
     localStorage.removeItem(STORAGE_KEY);
   } catch (error) {
     // Failed to clear Typhoon data
@@ -120,10 +220,65 @@ export function clearAllTyphoonData(): void {
 
 /**
  * Get all deposit transactions for UI display
+ * While the vault is locked, only records still waiting to be persisted are returned.
+ */
+export async function getTyphoonDepositHistory(): Promise<TyphoonDepositData[]> {
+  const deposits = new Map(pendingDeposits);
+
+  if (isTyphoonVaultUnlocked()) {
+    const data = getTyphoonStorageData();
+    for (const deposit of data.deposits) {
+      if (deposits.has(deposit.transactionHash)) continue;
+      try {
+        deposits.set(deposit.transactionHash, await decryptDeposit(deposit));
+      } catch (error) {
+        // Skip records that cannot be decrypted
+      }
+    }
+  }
+
+  return [...deposits.values()].sort((a, b) => b.timestamp - a.timestamp);
+}
+
+/**
+ * Whether any deposit records are still stored in plaintext
  */
-export function getTyphoonDepositHistory(): TyphoonDepositData[] {
-  const data = getTyphoonStorageData();
-  return data.deposits.sort((a, b) => b.timestamp - a.timestamp);
+export function hasPlaintextTyphoonData(): boolean {
+  return getTyphoonStorageData().deposits.some(isPlaintextDeposit);
+}
+
+/**
+ * Encrypt legacy plaintext records and persist records held while the vault was locked.
+ * Runs automatically whenever the vault is unlocked.
+ */
+export async function migratePlaintextTyphoonData(): Promise<number> {
+  if (!isTyphoonVaultUnlocked()) {
+    throw new Error('Typhoon vault must be unlocked to migrate deposit data');
+  }
+
+  const plaintext = getTyphoonStorageData().deposits.filter(isPlaintextDeposit);
+  const encrypted = new Map(await Promise.all(
+    plaintext.map(async deposit => [deposit.transactionHash, await encryptDeposit(deposit)] as const)
+  ));
+
+  // Saves may have landed while encrypting, so merge into the current records by hash
+  // and only replace those that are still in plaintext
+  let migrated = 0;
+  if (encrypted.size > 0) {
+    const deposits = getTyphoonStorageData().deposits.map(deposit => {
+      const replacement = isPlaintextDeposit(deposit) ? encrypted.get(deposit.transactionHash) : undefined;
+      if (!replacement) return deposit;
+      migrated++;
+      return replacement;
+    });
+    writeTyphoonStorageData(deposits);
+  }
+
+  for (const deposit of [...pendingDeposits.values()]) {
+    await saveTyphoonDepositData(deposit);
+  }
+
+  return migrated;
 }
 
 /**
@@ -146,6 +301,46 @@ function getTyphoonStorageData(): StoredTyphoonData {
   };
 }
 
+function writeTyphoonStorageData(deposits: StoredTyphoonData['deposits']): void {
+  const updated: StoredTyphoonData = {
+    deposits,
+    lastUpdated: Date.now()
+  };
+
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(updated));
+}
+
+function isPlaintextDeposit(deposit: EncryptedTyphoonDeposit | TyphoonDepositData): deposit is TyphoonDepositData {
+  return validateTyphoonDepositData(deposit);
+}
+
+async function encryptDeposit(data: TyphoonDepositData): Promise<EncryptedTyphoonDeposit> {
+  const payload = await encryptVaultRecord(data);
+  return {
+    transactionHash: data.transactionHash,
+    ...payload
+  };
+}
+
+async function decryptDeposit(deposit: EncryptedTyphoonDeposit | TyphoonDepositData): Promise<TyphoonDepositData> {
+  const data = isPlaintextDeposit(deposit)
+    ? deposit
+    : await decryptVaultRecord<TyphoonDepositData>(deposit);
+
+  return {
+    ...data,
+    status: data.status ?? 'pending',
+  };
+}
+
+subscribeToTyphoonVault(status => {
+  if (status === 'unlocked') {
+    migratePlaintextTyphoonData().catch(() => {
+      // Migration is retried on the next unlock
+    });
+  }
+});
+
 /**
  * Validate that stored data has required fields
  */
@@ -159,6 +354,7 @@ export function validateTyphoonDepositData(data: any): data is TyphoonDepositDat
     typeof data.tokenAddress === 'string' &&
     typeof data.amount === 'string' &&
     typeof data.timestamp === 'number' &&
-    typeof data.walletAddress === 'string'
+    typeof data.walletAddress === 'string' &&
+    (data.status === undefined || TYPHOON_DEPOSIT_STATUSES.includes(data.status))
   );
 }
\ No newline at end of file
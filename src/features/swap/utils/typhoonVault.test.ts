@@ -0,0 +1,144 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { installMemoryStorage } from '@/test/memoryStorage';
+import {
+  createTyphoonVault,
+  decryptVaultRecord,
+  encryptVaultRecord,
+  getTyphoonVaultStatus,
+  holdTyphoonVault,
+  lockTyphoonVault,
+  setTyphoonVaultAutoLock,
+  touchTyphoonVault,
+  unlockTyphoonVault,
+} from './typhoonVault';
+import { getTyphoonDepositHistory, saveTyphoonDepositData } from './typhoonStorage';
+import { getSwapJournal } from './swapJournal';
+
+const PASSPHRASE = 'correct horse battery';
+const AUTO_LOCK_MS = 15 * 60 * 1000;
+const POLL_INTERVAL_MS = 30 * 1000;
+
+beforeEach(() => {
+  installMemoryStorage();
+  setTyphoonVaultAutoLock(AUTO_LOCK_MS);
+});
+
+afterEach(() => {
+  lockTyphoonVault();
+  vi.useRealTimers();
+});
+
+describe('locking', () => {
+  it('unlocks with the passphrase it was created with', async () => {
+    expect(getTyphoonVaultStatus()).toBe('uninitialized');
+    await createTyphoonVault(PASSPHRASE);
+    expect(getTyphoonVaultStatus()).toBe('unlocked');
+
+    expect(lockTyphoonVault()).toBe(true);
+    expect(getTyphoonVaultStatus()).toBe('locked');
+
+    expect(await unlockTyphoonVault('wrong passphrase')).toBe(false);
+    expect(getTyphoonVaultStatus()).toBe('locked');
+    expect(await unlockTyphoonVault(PASSPHRASE)).toBe(true);
+    expect(getTyphoonVaultStatus()).toBe('unlocked');
+  });
+
+  it('rejects short passphrases and a second vault', async () => {
+    await expect(createTyphoonVault('short')).rejects.toThrow('at least 8 characters');
+    await createTyphoonVault(PASSPHRASE);
+    await expect(createTyphoonVault(PASSPHRASE)).rejects.toThrow('already exists');
+  });
+
+  it('round-trips records and refuses them once locked', async () => {
+    await createTyphoonVault(PASSPHRASE);
+    const payload = await encryptVaultRecord({ secret: 42 });
+    expect(payload.ciphertext).not.toContain('42');
+    expect(await decryptVaultRecord(payload)).toEqual({ secret: 42 });
+
+    lockTyphoonVault();
+    await expect(decryptVaultRecord(payload)).rejects.toThrow();
+  });
+});
+
+describe('idle auto-lock', () => {
+  it('locks once the vault has been idle for the configured time', async () => {
+    await createTyphoonVault(PASSPHRASE);
+    vi.useFakeTimers();
+    touchTyphoonVault();
+
+    await vi.advanceTimersByTimeAsync(AUTO_LOCK_MS - 1);
+    expect(getTyphoonVaultStatus()).toBe('unlocked');
+    await vi.advanceTimersByTimeAsync(1);
+    expect(getTyphoonVaultStatus()).toBe('locked');
+  });
+
+  it('is postponed by user activity', async () => {
+    await createTyphoonVault(PASSPHRASE);
+    vi.useFakeTimers();
+    touchTyphoonVault();
+
+    await vi.advanceTimersByTimeAsync(AUTO_LOCK_MS - 1000);
+    touchTyphoonVault();
+    await vi.advanceTimersByTimeAsync(AUTO_LOCK_MS - 1000);
+    expect(getTyphoonVaultStatus()).toBe('unlocked');
+  });
+
+  it('still locks while the withdrawal and recovery pollers read records', async () => {
+    await createTyphoonVault(PASSPHRASE);
+    await saveTyphoonDepositData({
+      transactionHash: '0xabc',
+      secrets: [],
+      nullifiers: [],
+      pools: [],
+      tokenAddress: '0x1',
+      amount: '1',
+      timestamp: 1,
+      walletAddress: '0x2',
+      status: 'pending',
+    });
+    vi.useFakeTimers();
+    touchTyphoonVault();
+
+    const reads: number[] = [];
+    for (let elapsed = POLL_INTERVAL_MS; elapsed < AUTO_LOCK_MS; elapsed += POLL_INTERVAL_MS) {
+      await vi.advanceTimersByTimeAsync(POLL_INTERVAL_MS);
+      reads.push((await getTyphoonDepositHistory()).length);
+      await getSwapJournal();
+    }
+
+    expect(reads.every(count => count === 1)).toBe(true);
+    await vi.advanceTimersByTimeAsync(POLL_INTERVAL_MS);
+    expect(getTyphoonVaultStatus()).toBe('locked');
+  });
+});
+
+describe('holds', () => {
+  it('defers a lock until the last hold is released', async () => {
+    await createTyphoonVault(PASSPHRASE);
+    const releaseFirst = holdTyphoonVault();
+    const releaseSecond = holdTyphoonVault();
+
+    expect(lockTyphoonVault()).toBe(false);
+    expect(getTyphoonVaultStatus()).toBe('unlocked');
+
+    releaseFirst();
+    releaseFirst();
+    expect(getTyphoonVaultStatus()).toBe('unlocked');
+    releaseSecond();
+    expect(getTyphoonVaultStatus()).toBe('locked');
+  });
+
+  it('suspends the idle timer and restarts it on release', async () => {
+    await createTyphoonVault(PASSPHRASE);
+    vi.useFakeTimers();
+    touchTyphoonVault();
+    const release = holdTyphoonVault();
+
+    await vi.advanceTimersByTimeAsync(AUTO_LOCK_MS * 2);
+    expect(getTyphoonVaultStatus()).toBe('unlocked');
+
+    release();
+    await vi.advanceTimersByTimeAsync(AUTO_LOCK_MS);
+    expect(getTyphoonVaultStatus()).toBe('locked');
+  });
+});
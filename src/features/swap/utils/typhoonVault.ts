@@ -0,0 +1,319 @@
+/**
+ * Passphrase-protected vault used to encrypt Typhoon deposit notes at rest.
+ * The key is derived with PBKDF2 (SHA-256) and records are sealed with AES-GCM.
+ * The derived key only ever lives in memory and is dropped when the vault locks.
+ */
+import { VAULT_CONFIG } from '@/core/config';
+
+export type TyphoonVaultStatus = 'uninitialized' | 'locked' | 'unlocked';
+
+export interface EncryptedVaultPayload {
+  iv: string; // base64, 12 bytes
+  ciphertext: string; // base64
+}
+
+/**
+ * Payload sealed with its own passphrase instead of the vault key, e.g. for backups
+ */
+export interface PassphraseEncryptedPayload extends EncryptedVaultPayload {
+  salt: string; // base64, 16 bytes
+  iterations: number;
+}
+
+interface StoredVaultMetadata {
+  version: 1;
+  salt: string; // base64, 16 bytes
+  iterations: number;
+  verifier: EncryptedVaultPayload;
+}
+
+type VaultListener = (status: TyphoonVaultStatus) => void;
+
+const VAULT_STORAGE_KEY = 'privfi_typhoon_vault';
+const VERIFIER_PLAINTEXT = 'privfi-typhoon-vault';
+const MIN_PASSPHRASE_LENGTH = 8;
+
+let vaultKey: CryptoKey | null = null;
+let autoLockMs: number = VAULT_CONFIG.autoLockMs;
+let autoLockTimeout: ReturnType<typeof setTimeout> | null = null;
+// Swaps in flight hold the vault open; a lock requested meanwhile happens on the last release
+let holdCount = 0;
+let lockRequested = false;
+const listeners = new Set<VaultListener>();
+
+/**
+ * Current lock state of the vault
+ */
+export function getTyphoonVaultStatus(): TyphoonVaultStatus {
+  if (vaultKey) return 'unlocked';
+  return readVaultMetadata() ? 'locked' : 'uninitialized';
+}
+
+export function isTyphoonVaultUnlocked(): boolean {
+  return vaultKey !== null;
+}
+
+/**
+ * Subscribe to vault status changes. Returns an unsubscribe function.
+ */
+export function subscribeToTyphoonVault(listener: VaultListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Create a new vault protected by the given passphrase and unlock it
+ */
+export async function createTyphoonVault(passphrase: string): Promise<void> {
+  if (readVaultMetadata()) {
+    throw new Error('A Typhoon vault already exists on this device');
+  }
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+  }
+
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iterations = VAULT_CONFIG.pbkdf2Iterations;
+  const key = await deriveVaultKey(passphrase, salt, iterations);
+  const verifier = await encryptWithKey(key, VERIFIER_PLAINTEXT);
+
+  const metadata: StoredVaultMetadata = {
+    version: 1,
+    salt: toBase64(salt),
+    iterations,
+    verifier,
+  };
+  localStorage.setItem(VAULT_STORAGE_KEY, JSON.stringify(metadata));
+
+  setVaultKey(key);
+}
+
+/**
+ * Unlock the vault. Returns false if the passphrase is wrong.
+ */
+export async function unlockTyphoonVault(passphrase: string): Promise<boolean> {
+  const metadata = readVaultMetadata();
+  if (!metadata) {
+    throw new Error('No Typhoon vault has been created on this device');
+  }
+
+  const key = await deriveVaultKey(passphrase, fromBase64(metadata.salt), metadata.iterations);
+
+  try {
+    const verifier = await decryptWithKey(key, metadata.verifier);
+    if (verifier !== VERIFIER_PLAINTEXT) {
+      return false;
+    }
+  } catch (error) {
+    // AES-GCM authentication fails when the key is wrong
+    return false;
+  }
+
+  setVaultKey(key);
+  return true;
+}
+
+/**
+ * Drop the in-memory key. Encrypted records stay in storage.
+ * Returns false when a hold defers the lock until it is released.
+ */
+export function lockTyphoonVault(): boolean {
+  if (!vaultKey) return true;
+  if (holdCount > 0) {
+    lockRequested = true;
+    return false;
+  }
+  lockRequested = false;
+  clearAutoLock();
+  vaultKey = null;
+  notify();
+  return true;
+}
+
+/**
+ * Keep the vault unlocked until the returned release is called, e.g. while a swap still has
+ * deposit notes or journal entries to write. Records written while locked only live in memory.
+ */
+export function holdTyphoonVault(): () => void {
+  holdCount += 1;
+  clearAutoLock();
+
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+    holdCount -= 1;
+    if (holdCount > 0) return;
+    if (lockRequested) {
+      lockTyphoonVault();
+    } else {
+      touchTyphoonVault();
+    }
+  };
+}
+
+/**
+ * Configure how long the vault may stay idle before locking itself
+ */
+export function setTyphoonVaultAutoLock(ms: number): void {
+  autoLockMs = ms;
+  touchTyphoonVault();
+}
+
+/**
+ * Record user activity, postponing the idle auto-lock. Reading and writing records does not
+ * count, so background polls cannot keep an idle vault open.
+ */
+export function touchTyphoonVault(): void {
+  if (!vaultKey || holdCount > 0) return;
+  clearAutoLock();
+  if (autoLockMs > 0) {
+    autoLockTimeout = setTimeout(lockTyphoonVault, autoLockMs);
+  }
+}
+
+/**
+ * Encrypt a JSON-serialisable value with the vault key
+ */
+export async function encryptVaultRecord<T>(value: T): Promise<EncryptedVaultPayload> {
+  const key = requireVaultKey();
+  return encryptWithKey(key, JSON.stringify(value));
+}
+
+/**
+ * Decrypt a value previously sealed with encryptVaultRecord
+ */
+export async function decryptVaultRecord<T>(payload: EncryptedVaultPayload): Promise<T> {
+  const key = requireVaultKey();
+  return JSON.parse(await decryptWithKey(key, payload)) as T;
+}
+
+/**
+ * Encrypt a string with a standalone passphrase, independent of the vault
+ */
+export async function encryptWithPassphrase(passphrase: string, plaintext: string): Promise<PassphraseEncryptedPayload> {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+  }
+
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iterations = VAULT_CONFIG.pbkdf2Iterations;
+  const key = await deriveVaultKey(passphrase, salt, iterations);
+
+  return {
+    salt: toBase64(salt),
+    iterations,
+    ...(await encryptWithKey(key, plaintext)),
+  };
+}
+
+/**
+ * Decrypt a payload sealed with encryptWithPassphrase. Throws if the passphrase is wrong.
+ */
+export async function decryptWithPassphrase(passphrase: string, payload: PassphraseEncryptedPayload): Promise<string> {
+  const key = await deriveVaultKey(passphrase, fromBase64(payload.salt), payload.iterations);
+
+  try {
+    return await decryptWithKey(key, payload);
+  } catch (error) {
+    // AES-GCM authentication fails when the key is wrong
+    throw new Error('Incorrect passphrase');
+  }
+}
+
+function requireVaultKey(): CryptoKey {
+  if (!vaultKey) {
+    throw new Error('Typhoon vault is locked');
+  }
+  return vaultKey;
+}
+
+function setVaultKey(key: CryptoKey): void {
+  vaultKey = key;
+  touchTyphoonVault();
+  notify();
+}
+
+function clearAutoLock(): void {
+  if (autoLockTimeout) {
+    clearTimeout(autoLockTimeout);
+    autoLockTimeout = null;
+  }
+}
+
+function notify(): void {
+  const status = getTyphoonVaultStatus();
+  listeners.forEach(listener => listener(status));
+}
+
+function readVaultMetadata(): StoredVaultMetadata | null {
+  try {
+    const stored = localStorage.getItem(VAULT_STORAGE_KEY);
+    if (stored) {
+      return JSON.parse(stored);
+    }
+  } catch (error) {
+    // Failed to parse vault metadata
+  }
+  return null;
+}
+
+async function deriveVaultKey(passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
+  const baseKey = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+async function encryptWithKey(key: CryptoKey, plaintext: string): Promise<EncryptedVaultPayload> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    new TextEncoder().encode(plaintext)
+  );
+
+  return {
+    iv: toBase64(iv),
+    ciphertext: toBase64(new Uint8Array(ciphertext)),
+  };
+}
+
+async function decryptWithKey(key: CryptoKey, payload: EncryptedVaultPayload): Promise<string> {
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(payload.iv) },
+    key,
+    fromBase64(payload.ciphertext)
+  );
+  return new TextDecoder().decode(plaintext);
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
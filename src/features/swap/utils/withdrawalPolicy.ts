@@ -0,0 +1,70 @@
+import { WithdrawalPolicy, WithdrawalPolicyMode } from '../types/swap';
+import { TyphoonDepositData } from './typhoonStorage';
+
+export const DEFAULT_WITHDRAWAL_POLICY: WithdrawalPolicy = { mode: 'immediate' };
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Create a policy of the given mode with sensible default timings
+ */
+export function createWithdrawalPolicy(mode: WithdrawalPolicyMode): WithdrawalPolicy {
+  switch (mode) {
+    case 'delayed':
+      return { mode, delayMinutes: 30 };
+    case 'random':
+      return { mode, minMinutes: 10, maxMinutes: 120 };
+    default:
+      return { mode };
+  }
+}
+
+/**
+ * Resolve the timestamp at which a withdrawal should run.
+ * Returns null for manual withdrawals, which are never run automatically.
+ */
+export function resolveWithdrawalTime(policy: WithdrawalPolicy, now: number = Date.now()): number | null {
+  switch (policy.mode) {
+    case 'immediate':
+      return now;
+    case 'delayed':
+      return now + Math.max(0, policy.delayMinutes) * MINUTE_MS;
+    case 'random': {
+      const min = Math.max(0, Math.min(policy.minMinutes, policy.maxMinutes));
+      const max = Math.max(0, policy.maxMinutes, policy.minMinutes);
+      // Use the CSPRNG so the payout time cannot be predicted
+      const random = crypto.getRandomValues(new Uint32Array(1))[0] / 2 ** 32;
+      return now + Math.round((min + random * (max - min)) * MINUTE_MS);
+    }
+    case 'manual':
+      return null;
+  }
+}
+
+/**
+ * Deposits whose scheduled withdrawal is due
+ */
+export function getDueWithdrawals(deposits: TyphoonDepositData[], now: number = Date.now()): TyphoonDepositData[] {
+  return deposits.filter(deposit =>
+    deposit.status === 'pending' &&
+    deposit.scheduledAt !== undefined &&
+    deposit.scheduledAt <= now &&
+    !!deposit.recipientAddresses?.length
+  );
+}
+
+/**
+ * Short human-readable description of a policy
+ */
+export function describeWithdrawalPolicy(policy: WithdrawalPolicy): string {
+  switch (policy.mode) {
+    case 'immediate':
+      return 'Right after the swap';
+    case 'delayed':
+      return `${policy.delayMinutes} min after the swap`;
+    case 'random':
+      return `Randomly within ${policy.minMinutes}-${policy.maxMinutes} min`;
+    case 'manual':
+      return 'Manually from the Withdrawals page';
+  }
+}
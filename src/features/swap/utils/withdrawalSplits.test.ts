@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import {
+  allocateRecipientNotes,
+  distributeEvenly,
+  getSplitAllocationError,
+  validateRecipientSplits,
+} from './withdrawalSplits';
+
+const ALICE = `0x${'a'.repeat(64)}`;
+const BOB = `0x${'b'.repeat(64)}`;
+const CAROL = `0x${'c'.repeat(64)}`;
+
+describe('distributeEvenly', () => {
+  it('hands the remainder to the first recipients', () => {
+    expect(distributeEvenly(3)).toEqual([34, 33, 33]);
+    expect(distributeEvenly(4)).toEqual([25, 25, 25, 25]);
+    expect(distributeEvenly(0)).toEqual([]);
+  });
+});
+
+describe('validateRecipientSplits', () => {
+  it('accepts unique valid recipients adding up to 100%', () => {
+    expect(validateRecipientSplits([{ address: ALICE, percentage: 60 }, { address: BOB, percentage: 40 }])).toBeNull();
+  });
+
+  it('tolerates rounding of decimal shares', () => {
+    expect(validateRecipientSplits([
+      { address: ALICE, percentage: 33.33 },
+      { address: BOB, percentage: 33.33 },
+      { address: CAROL, percentage: 33.34 },
+    ])).toBeNull();
+  });
+
+  it('rejects malformed splits', () => {
+    expect(validateRecipientSplits([])).toBe('Add at least one recipient');
+    expect(validateRecipientSplits([{ address: '0x123', percentage: 100 }])).toBe('Every recipient needs a valid Starknet address');
+    expect(validateRecipientSplits([{ address: ALICE, percentage: 100 }, { address: BOB, percentage: 0 }]))
+      .toBe('Every recipient needs a share above 0%');
+    expect(validateRecipientSplits([{ address: ALICE, percentage: 50 }, { address: ALICE.toUpperCase().replace('0X', '0x'), percentage: 50 }]))
+      .toBe('Recipients must be unique');
+    expect(validateRecipientSplits([{ address: ALICE, percentage: 60 }, { address: BOB, percentage: 30 }]))
+      .toBe('Splits must add up to 100% (currently 90%)');
+  });
+
+  it('checks the split against the notes of the deposit when given', () => {
+    const recipients = [{ address: ALICE, percentage: 50 }, { address: BOB, percentage: 50 }];
+    expect(validateRecipientSplits(recipients, [100n, 100n])).toBeNull();
+    expect(validateRecipientSplits(recipients, [100n])).toContain('cannot be split that way');
+  });
+});
+
+describe('getSplitAllocationError', () => {
+  it('allows shares within the note tolerance', () => {
+    // 52.6% / 47.4% of the value is within 5% of an even split
+    expect(getSplitAllocationError([50, 50], [100n, 90n])).toBeNull();
+  });
+
+  it('reports the closest achievable split', () => {
+    expect(getSplitAllocationError([50, 50], [300n, 100n])).toBe(
+      "This deposit's notes cannot be split that way, the closest split is 75% / 25%. Use fewer recipients or other shares."
+    );
+  });
+
+  it('rejects a deposit without notes', () => {
+    expect(getSplitAllocationError([100], [])).toBe('This deposit has no notes to split');
+  });
+});
+
+describe('allocateRecipientNotes', () => {
+  it('assigns each note to the recipient furthest below its share', () => {
+    expect(allocateRecipientNotes([ALICE, BOB], [75, 25], [100n, 100n, 100n, 100n])).toEqual([ALICE, ALICE, ALICE, BOB]);
+  });
+
+  it('rejects splits the notes cannot pay', () => {
+    expect(() => allocateRecipientNotes([ALICE, BOB], [50, 50], [100n])).toThrow('cannot be split that way');
+    expect(() => allocateRecipientNotes([ALICE, BOB], [50], [100n, 100n])).toThrow('exactly one split percentage');
+    expect(() => allocateRecipientNotes([ALICE, BOB], [50, 40], [100n, 100n])).toThrow('must add up to 100%');
+  });
+});
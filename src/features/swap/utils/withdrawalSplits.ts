@@ -0,0 +1,145 @@
+import { isValidStarknetAddress } from '@/shared/utils/lib/inputValidation';
+import { mulBps, percentToBps } from '@/shared/utils/lib/amounts';
+import { WithdrawalRecipient } from '../types/swap';
+
+export const SPLIT_TOTAL_PERCENTAGE = 100;
+
+// Tolerate float rounding from decimal percentages such as 33.33
+const SPLIT_TOLERANCE = 0.01;
+
+const BPS_DENOMINATOR = BigInt(10000);
+
+// How far a recipient's share of the notes' value may be from the requested percentage
+const SPLIT_NOTE_TOLERANCE_BPS = BigInt(500);
+
+/**
+ * Sum of all recipient percentages
+ */
+export function getSplitTotal(recipients: WithdrawalRecipient[]): number {
+  return recipients.reduce((total, recipient) => total + (recipient.percentage || 0), 0);
+}
+
+/**
+ * Split 100% evenly across a number of recipients using whole percentages
+ */
+export function distributeEvenly(count: number): number[] {
+  if (count <= 0) return [];
+
+  const base = Math.floor(SPLIT_TOTAL_PERCENTAGE / count);
+  const remainder = SPLIT_TOTAL_PERCENTAGE - base * count;
+  return Array.from({ length: count }, (_, index) => base + (index < remainder ? 1 : 0));
+}
+
+/**
+ * Validate a recipient split, returning an error message or null when valid.
+ * With the note amounts of the deposit, also checks that its notes can pay the split.
+ */
+export function validateRecipientSplits(recipients: WithdrawalRecipient[], noteAmounts?: bigint[]): string | null {
+  if (recipients.length === 0) {
+    return 'Add at least one recipient';
+  }
+
+  const seen = new Set<string>();
+  for (const recipient of recipients) {
+    if (!isValidStarknetAddress(recipient.address)) {
+      return 'Every recipient needs a valid Starknet address';
+    }
+    if (!(recipient.percentage > 0)) {
+      return 'Every recipient needs a share above 0%';
+    }
+
+    const normalized = recipient.address.toLowerCase();
+    if (seen.has(normalized)) {
+      return 'Recipients must be unique';
+    }
+    seen.add(normalized);
+  }
+
+  const total = getSplitTotal(recipients);
+  if (Math.abs(total - SPLIT_TOTAL_PERCENTAGE) > SPLIT_TOLERANCE) {
+    return `Splits must add up to 100% (currently ${Math.round(total * 100) / 100}%)`;
+  }
+
+  return noteAmounts ? getSplitAllocationError(recipients.map(recipient => recipient.percentage), noteAmounts) : null;
+}
+
+/**
+ * Recipient index of every note: notes are handed out largest first, each to the recipient
+ * furthest below its share of the deposit's value
+ */
+function assignNotes(percentages: number[], noteAmounts: bigint[]): number[] {
+  const total = noteAmounts.reduce((sum, amount) => sum + amount, BigInt(0));
+  const targets = percentages.map(percentage => mulBps(total, percentToBps(percentage)));
+  const assigned = percentages.map(() => BigInt(0));
+  const owners = noteAmounts.map(() => 0);
+
+  const largestFirst = noteAmounts
+    .map((amount, index) => ({ amount, index }))
+    .sort((a, b) => (a.amount === b.amount ? a.index - b.index : a.amount > b.amount ? -1 : 1));
+  for (const { amount, index } of largestFirst) {
+    let owner = 0;
+    for (let recipient = 1; recipient < targets.length; recipient++) {
+      if (targets[recipient] - assigned[recipient] > targets[owner] - assigned[owner]) {
+        owner = recipient;
+      }
+    }
+    owners[index] = owner;
+    assigned[owner] += amount;
+  }
+
+  return owners;
+}
+
+/**
+ * Check that the notes of a deposit can pay each recipient its share, returning an error message or null.
+ * Notes are fixed sizes from the Typhoon pools, so a share may be off by up to SPLIT_NOTE_TOLERANCE_BPS.
+ */
+export function getSplitAllocationError(percentages: number[], noteAmounts: bigint[]): string | null {
+  const total = noteAmounts.reduce((sum, amount) => sum + amount, BigInt(0));
+  if (total === BigInt(0)) {
+    return 'This deposit has no notes to split';
+  }
+
+  const owners = assignNotes(percentages, noteAmounts);
+  const receivedBps = percentages.map((_, recipient) =>
+    owners.reduce((sum, owner, note) => (owner === recipient ? sum + noteAmounts[note] : sum), BigInt(0)) * BPS_DENOMINATOR / total
+  );
+
+  const isAchievable = receivedBps.every((bps, recipient) => {
+    const requestedBps = percentToBps(percentages[recipient]);
+    const difference = bps > requestedBps ? bps - requestedBps : requestedBps - bps;
+    return bps > BigInt(0) && difference <= SPLIT_NOTE_TOLERANCE_BPS;
+  });
+  if (isAchievable) {
+    return null;
+  }
+
+  const closest = receivedBps.map(bps => `${Number(bps) / 100}%`).join(' / ');
+  return `This deposit's notes cannot be split that way, the closest split is ${closest}. Use fewer recipients or other shares.`;
+}
+
+/**
+ * Assign the notes of a deposit to recipients according to their percentages of its value.
+ * The SDK pays note i to receiver_list[i % length], so the returned list has one entry per note.
+ */
+export function allocateRecipientNotes(
+  recipientAddresses: string[],
+  percentages: number[],
+  noteAmounts: bigint[]
+): string[] {
+  if (recipientAddresses.length !== percentages.length) {
+    throw new Error('Each recipient needs exactly one split percentage');
+  }
+
+  const total = percentages.reduce((sum, percentage) => sum + percentage, 0);
+  if (Math.abs(total - SPLIT_TOTAL_PERCENTAGE) > SPLIT_TOLERANCE) {
+    throw new Error(`Withdrawal splits must add up to 100%, got ${total}%`);
+  }
+
+  const allocationError = getSplitAllocationError(percentages, noteAmounts);
+  if (allocationError) {
+    throw new Error(allocationError);
+  }
+
+  return assignNotes(percentages, noteAmounts).map(owner => recipientAddresses[owner]);
+}
@@ -0,0 +1,89 @@
+import React from 'react';
+import { RefreshCw } from 'lucide-react';
+import { Button } from '@/shared/components/ui/button';
+import { ErrorMessage } from '@/shared/components/ui/error-message';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/shared/components/ui/table';
+import { formatUSDValue } from '@/shared/utils/priceUtils';
+import { formatAmountDisplay } from '@/shared/utils/lib/amounts';
+import { usePortfolio } from '../hooks/usePortfolio';
+import { PriceChange } from './PriceChange';
+
+interface PortfolioOverviewProps {
+  walletAddress?: string;
+}
+
+export const PortfolioOverview: React.FC<PortfolioOverviewProps> = ({ walletAddress }) => {
+  const { portfolio, isLoading, error, refetch } = usePortfolio(walletAddress);
+
+  const change24hUsd = portfolio?.change24hUsd ?? null;
+
+  return (
+    <div className="w-full max-w-4xl bg-[#1C1C1C] rounded-xl p-3">
+      <div className="flex items-center justify-between pb-3">
+        <span className="text-base font-normal text-white pl-2">Portfolio</span>
+        <Button variant="ghost" size="sm" onClick={() => refetch()} disabled={!walletAddress}>
+          <RefreshCw className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {error && <ErrorMessage error={error} onRetry={() => refetch()} className="mb-3" />}
+
+      <div className="crypto-card p-4 mb-3 flex items-end justify-between gap-3">
+        <div>
+          <div className="text-xs text-muted-foreground">Total value</div>
+          <div className="text-2xl text-white">{portfolio ? formatUSDValue(portfolio.totalUsd) : '-'}</div>
+          {portfolio?.hasUnknownBalances && (
+            <div className="text-xs text-muted-foreground">Some balances could not be read, the total leaves them out</div>
+          )}
+        </div>
+        <div className="text-right">
+          <div className="text-xs text-muted-foreground">24h change</div>
+          <div className="text-sm">
+            {change24hUsd !== null && (
+              <span className="text-muted-foreground mr-2">
+                {change24hUsd < 0 ? '-' : '+'}{formatUSDValue(Math.abs(change24hUsd))}
+              </span>
+            )}
+            <PriceChange percentage={portfolio?.change24hPercentage ?? null} />
+          </div>
+        </div>
+      </div>
+
+      <div className="crypto-card p-3">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Token</TableHead>
+              <TableHead>Balance</TableHead>
+              <TableHead>Price</TableHead>
+              <TableHead>24h</TableHead>
+              <TableHead className="text-right">Value</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {(!portfolio || portfolio.balances.length === 0) && (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center text-xs text-muted-foreground">
+                  {!walletAddress
+                    ? 'Connect your wallet to see its balances'
+                    : isLoading
+                      ? 'Loading...'
+                      : 'No token balances'}
+                </TableCell>
+              </TableRow>
+            )}
+            {portfolio?.balances.map(({ token, balance, priceInUsd, valueUsd, change24hPercentage }) => (
+              <TableRow key={token.address}>
+                <TableCell>{token.symbol}</TableCell>
+                <TableCell>{balance === null ? 'Unavailable' : formatAmountDisplay(balance, token.decimals, 6)}</TableCell>
+                <TableCell>{priceInUsd === null ? '-' : formatUSDValue(priceInUsd)}</TableCell>
+                <TableCell><PriceChange percentage={change24hPercentage} /></TableCell>
+                <TableCell className="text-right">{valueUsd === null ? '-' : formatUSDValue(valueUsd)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,22 @@
+import React from 'react';
+
+interface PriceChangeProps {
+  percentage: number | null;
+  className?: string;
+}
+
+/**
+ * Signed 24h change in percent, green when up and red when down
+ */
+export const PriceChange: React.FC<PriceChangeProps> = ({ percentage, className = '' }) => {
+  if (percentage === null) {
+    return <span className={`text-muted-foreground ${className}`}>-</span>;
+  }
+
+  const color = percentage > 0 ? 'text-green-400' : percentage < 0 ? 'text-red-400' : 'text-muted-foreground';
+  return (
+    <span className={`${color} ${className}`}>
+      {percentage > 0 ? '+' : ''}{percentage.toFixed(2)}%
+    </span>
+  );
+};
@@ -1,19 +1,37 @@
 import React from 'react';
-import { Wallet, LogOut } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { Wallet, LogOut, PieChart } from 'lucide-react';
 import { Button } from '@/shared/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/shared/components/ui/dropdown-menu';
+import { formatUSDValue } from '@/shared/utils/priceUtils';
+import { formatAmountDisplay } from '@/shared/utils/lib/amounts';
+import { Portfolio } from '../types/wallet';
+import { PriceChange } from './PriceChange';
 
 interface WalletConnectionButtonProps {
   isConnected: boolean;
   isConnecting: boolean;
   address?: string;
+  portfolio?: Portfolio | null;
   onConnect: () => void;
   onDisconnect: () => void;
 }
 
+// Balances listed in the dropdown; the portfolio page shows the rest
+const DROPDOWN_BALANCES = 4;
+
 export const WalletConnectionButton: React.FC<WalletConnectionButtonProps> = ({
   isConnected,
   isConnecting,
   address,
+  portfolio,
   onConnect,
   onDisconnect,
 }) => {
@@ -21,37 +39,61 @@ export const WalletConnectionButton: React.FC<WalletConnectionButtonProps> = ({
     return `${addr.slice(0, 6)}...${addr.slice(-4)}`;
   };
 
+  if (!isConnected || isConnecting) {
+    return (
+      <Button
+        variant="default"
+        size="sm"
+        onClick={onConnect}
+        disabled={isConnecting}
+        className="flex items-center gap-2 w-36"
+      >
+        {isConnecting ? 'Connecting...' : 'Connect Wallet'}
+      </Button>
+    );
+  }
+
   return (
-    <Button
-      variant={isConnected ? "ghost" : "default"}
-      size="sm"
-      onClick={isConnected ? onDisconnect : onConnect}
-      disabled={isConnecting}
-      className="flex items-center gap-2 group w-36"
-    >
-      {isConnected && !isConnecting ? (
-        <>
-          <Wallet className="h-4 w-4 group-hover:hidden" />
-          {/* <LogOut className="h-4 w-4 hidden group-hover:inline" /> */}
-        </>
-      ) : (
-        <></>
-      )}
-      {isConnecting
-        ? 'Connecting...'
-        : isConnected
-          ? (
-            <>
-              <span className="group-hover:hidden">
-                {formatAddress(address || '')}
-              </span>
-              <span className="hidden group-hover:inline">
-                Disconnect
-              </span>
-            </>
-          )
-          : 'Connect Wallet'
-      }
-    </Button>
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="sm" className="flex items-center gap-2 w-36">
+          <Wallet className="h-4 w-4" />
+          {formatAddress(address || '')}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-64 bg-[#1C1C1C] border-none">
+        <DropdownMenuLabel className="space-y-1">
+          <div className="text-xs font-normal text-muted-foreground">Wallet value</div>
+          <div className="flex items-baseline justify-between">
+            <span className="text-base text-white">{portfolio ? formatUSDValue(portfolio.totalUsd) : '...'}</span>
+            {portfolio && <PriceChange percentage={portfolio.change24hPercentage} className="text-xs font-normal" />}
+          </div>
+          {portfolio?.hasUnknownBalances && (
+            <div className="text-xs font-normal text-muted-foreground">Some balances could not be read</div>
+          )}
+        </DropdownMenuLabel>
+        {portfolio && portfolio.balances.length > 0 && (
+          <div className="px-2 pb-1 space-y-1">
+            {portfolio.balances.slice(0, DROPDOWN_BALANCES).map(({ token, balance, valueUsd }) => (
+              <div key={token.address} className="flex justify-between text-xs">
+                <span>{balance === null ? 'Unavailable' : formatAmountDisplay(balance, token.decimals, 4)} {token.symbol}</span>
+                <span className="text-muted-foreground">{valueUsd === null ? '-' : formatUSDValue(valueUsd)}</span>
+              </div>
+            ))}
+          </div>
+        )}
+        <DropdownMenuSeparator />
+        <DropdownMenuItem asChild>
+          <Link to="/portfolio" className="cursor-pointer gap-2">
+            <PieChart className="h-4 w-4" />
+            View portfolio
+          </Link>
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={onDisconnect} className="cursor-pointer gap-2">
+          <LogOut className="h-4 w-4" />
+          Disconnect
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
   );
-};
\ No newline at end of file
+};
@@ -1,4 +1,6 @@
 export { WalletConnectionButton } from './WalletConnectionButton';
 export { WalletModal } from './WalletModal';
 export { ArgentIcon, BraavosIcon } from './WalletIcons';
-export { WalletErrorBoundary } from './WalletErrorBoundary';
\ No newline at end of file
+export { WalletErrorBoundary } from './WalletErrorBoundary';
+export { PortfolioOverview } from './PortfolioOverview';
+export { PriceChange } from './PriceChange';
\ No newline at end of file
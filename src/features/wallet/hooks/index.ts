@@ -1 +1,2 @@
-export * from './useWalletConnection';
\ No newline at end of file
+export * from './useWalletConnection';
+export * from './usePortfolio';
\ No newline at end of file
@@ -0,0 +1,90 @@
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useInvalidateOnBlock } from '@starknet-react/core';
+import { STARKNET_TOKENS, Token } from '@/constants/tokens';
+import { toPrivfiError } from '@/core/errors';
+import { useTokenPriceChanges, useTokenPrices } from '@/shared/hooks/useTokenPrices';
+import { toAmountNumber } from '@/shared/utils/lib/amounts';
+import { PortfolioService } from '../services/portfolio';
+import { Portfolio, PortfolioBalance } from '../types/wallet';
+
+export const PORTFOLIO_QUERY_KEY = ['portfolio'] as const;
+
+const DEFAULT_PORTFOLIO_TOKENS = Object.values(STARKNET_TOKENS);
+
+const portfolioService = new PortfolioService();
+
+/**
+ * Balances of the known tokens in the account, valued at current prices and refreshed on new blocks
+ */
+export const usePortfolio = (address?: string, tokens: Token[] = DEFAULT_PORTFOLIO_TOKENS) => {
+  const queryKey = useMemo(
+    () => [...PORTFOLIO_QUERY_KEY, address, tokens.map(token => token.address.toLowerCase()).sort()],
+    [address, tokens]
+  );
+  const tokenAddresses = useMemo(() => tokens.map(token => token.address), [tokens]);
+
+  const {
+    data: balances,
+    isLoading,
+    error,
+    refetch,
+  } = useQuery({
+    queryKey,
+    enabled: !!address,
+    queryFn: () => portfolioService.getBalances(address as string, tokens),
+  });
+  useInvalidateOnBlock({ enabled: !!address, queryKey });
+
+  const { data: prices, isLoading: isLoadingPrices } = useTokenPrices(tokenAddresses);
+  const { data: priceChanges } = useTokenPriceChanges(tokenAddresses);
+
+  const portfolio = useMemo((): Portfolio | null => {
+    if (!balances) {
+      return null;
+    }
+
+    const entries = tokens
+      .map((token): PortfolioBalance => {
+        const key = token.address.toLowerCase();
+        const balance = balances.get(key) ?? null;
+        const priceInUsd = prices?.[key]?.priceInUSD ?? null;
+        return {
+          token,
+          balance,
+          priceInUsd,
+          valueUsd: priceInUsd === null || balance === null ? null : toAmountNumber(balance, token.decimals) * priceInUsd,
+          change24hPercentage: priceChanges?.[key] ?? null,
+        };
+      })
+      // Unread balances stay listed, they are unknown rather than empty
+      .filter(entry => entry.balance === null || entry.balance > BigInt(0))
+      .sort((a, b) => (b.valueUsd ?? 0) - (a.valueUsd ?? 0));
+
+    const totalUsd = entries.reduce((total, entry) => total + (entry.valueUsd ?? 0), 0);
+
+    // Value 24h ago at today's balances, from each token's price change
+    const valued = entries.filter(entry => entry.valueUsd !== null && entry.change24hPercentage !== null);
+    const previousUsd = valued.reduce(
+      (total, entry) => total + (entry.valueUsd as number) / (1 + (entry.change24hPercentage as number) / 100),
+      0
+    );
+    const changedUsd = valued.reduce((total, entry) => total + (entry.valueUsd as number), 0);
+    const hasChange = valued.length > 0 && previousUsd > 0;
+
+    return {
+      balances: entries,
+      totalUsd,
+      hasUnknownBalances: entries.some(entry => entry.balance === null),
+      change24hUsd: hasChange ? changedUsd - previousUsd : null,
+      change24hPercentage: hasChange ? ((changedUsd - previousUsd) / previousUsd) * 100 : null,
+    };
+  }, [balances, tokens, prices, priceChanges]);
+
+  return {
+    portfolio,
+    isLoading: isLoading || isLoadingPrices,
+    error: error ? toPrivfiError(error) : null,
+    refetch,
+  };
+};
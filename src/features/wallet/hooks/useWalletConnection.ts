@@ -1,6 +1,8 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { useAccount, useConnect, useDisconnect } from '@starknet-react/core';
 import { connect as getStarknetConnect } from '@starknet-io/get-starknet';
+import { useWalletStore } from '../store/walletStore';
+import { usePortfolio } from './usePortfolio';
 
 export const useWalletConnection = () => {
   const [isConnecting, setIsConnecting] = useState(false);
@@ -10,7 +12,15 @@ export const useWalletConnection = () => {
   const { connect, connectors, error: connectError, status } = useConnect();
   const { disconnect } = useDisconnect();
 
-  const balance = '0.0000'; // TODO: Implement balance fetching with useBalance hook
+  const setBalance = useWalletStore(state => state.setBalance);
+  const { portfolio, isLoading: isLoadingPortfolio } = usePortfolio(address);
+
+  // Total USD value of the known tokens in the wallet, unknown until every balance has been read
+  const balance = portfolio && !portfolio.hasUnknownBalances ? portfolio.totalUsd.toFixed(2) : null;
+
+  useEffect(() => {
+    setBalance(balance);
+  }, [balance, setBalance]);
 
   const handleConnectWithConnector = async (selectedConnector: typeof connectors[0]) => {
     setIsConnecting(true);
@@ -45,6 +55,8 @@ export const useWalletConnection = () => {
     isConnected,
     address,
     balance,
+    portfolio,
+    isLoadingPortfolio,
     connectors,
     connectError,
 
@@ -4,6 +4,9 @@ export * from './components';
 // Hooks
 export * from './hooks';
 
+// Services
+export * from './services';
+
 // Store
 export * from './store';
 
@@ -0,0 +1 @@
+export * from './portfolio';
\ No newline at end of file
@@ -0,0 +1,44 @@
+import { getRpcProvider } from '@/core/rpc';
+import { Token } from '@/constants/tokens';
+import { toPrivfiError } from '@/core/errors';
+
+/**
+ * Reads the balances of many tokens at once. The provider batches the calls made
+ * in the same tick into a single JSON-RPC request.
+ */
+export class PortfolioService {
+  async getBalance(tokenAddress: string, owner: string): Promise<bigint> {
+    const [low, high] = await getRpcProvider().callContract({
+      contractAddress: tokenAddress,
+      entrypoint: 'balance_of',
+      calldata: [owner],
+    });
+    if (low === undefined) {
+      throw new Error(`Invalid balance response from ${tokenAddress}`);
+    }
+    return BigInt(low) + (BigInt(high ?? '0x0') << BigInt(128));
+  }
+
+  /**
+   * Balance of each token keyed by lowercase address, null for tokens that cannot be read.
+   * Throws when no balance can be read at all, which must not look like an empty wallet.
+   */
+  async getBalances(owner: string, tokens: Token[]): Promise<Map<string, bigint | null>> {
+    const balances = new Map<string, bigint | null>();
+    let lastError: unknown;
+
+    await Promise.all(tokens.map(async token => {
+      try {
+        balances.set(token.address.toLowerCase(), await this.getBalance(token.address, owner));
+      } catch (error) {
+        lastError = error;
+        balances.set(token.address.toLowerCase(), null);
+      }
+    }));
+
+    if (tokens.length > 0 && [...balances.values()].every(balance => balance === null)) {
+      throw toPrivfiError(lastError, 'RPC_UNAVAILABLE');
+    }
+    return balances;
+  }
+}
@@ -6,7 +6,7 @@ interface WalletState {
   isConnected: boolean;
   isConnecting: boolean;
   address: string | null;
-  balance: string;
+  balance: string | null; // Total USD value, null while unknown
   
   // UI state
   showWalletModal: boolean;
@@ -32,7 +32,7 @@ interface WalletActions {
   setConnected: (connected: boolean) => void;
   setConnecting: (connecting: boolean) => void;
   setAddress: (address: string | null) => void;
-  setBalance: (balance: string) => void;
+  setBalance: (balance: string | null) => void;
   
   // UI actions
   setShowWalletModal: (show: boolean) => void;
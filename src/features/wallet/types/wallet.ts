@@ -1,9 +1,13 @@
+import { Token } from '@/constants/tokens';
+
 export interface WalletConnectionState {
   isConnecting: boolean;
   showWalletModal: boolean;
   isConnected: boolean;
   address?: string;
-  balance: string;
+  balance: string; // Total USD value of the known token balances
+  portfolio: Portfolio | null;
+  isLoadingPortfolio: boolean;
   connectError?: Error;
 }
 
@@ -24,4 +28,23 @@ export interface WalletProvider {
   description?: string;
   isAvailable: boolean;
   connect: () => Promise<void>;
+}
+
+/**
+ * Balance of one known token in the connected account
+ */
+export interface PortfolioBalance {
+  token: Token;
+  balance: bigint | null; // Base units, null when the balance could not be read
+  priceInUsd: number | null; // Null when the token has no price
+  valueUsd: number | null;
+  change24hPercentage: number | null; // Price change of the token over the last 24h
+}
+
+export interface Portfolio {
+  balances: PortfolioBalance[]; // Tokens with a balance, most valuable first
+  totalUsd: number; // Only a lower bound when hasUnknownBalances is set
+  hasUnknownBalances: boolean; // Some balances could not be read
+  change24hUsd: number | null; // Change of the total value from the last 24h of price moves
+  change24hPercentage: number | null;
 }
\ No newline at end of file
@@ -1,3 +1,6 @@
+// Both must run before starknet and the Typhoon SDK are imported, they keep a reference to fetch
+import './core/rpc/mockRpcNode'
+import './core/rpc/typhoonRpcRedirect'
 import { createRoot } from 'react-dom/client'
 import App from './App.tsx'
 import './index.css'
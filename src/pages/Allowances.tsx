@@ -0,0 +1,14 @@
+import { AllowancesDashboard } from '@/features/swap';
+import { useWalletConnection } from '@/features/wallet';
+
+const Allowances = () => {
+  const { address } = useWalletConnection();
+
+  return (
+    <div className="flex-1 flex items-center justify-center p-4 my-24">
+      <AllowancesDashboard walletAddress={address} />
+    </div>
+  );
+};
+
+export default Allowances;
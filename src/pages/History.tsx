@@ -0,0 +1,14 @@
+import { SwapHistoryDashboard } from '@/features/swap';
+import { useWalletConnection } from '@/features/wallet';
+
+const History = () => {
+  const { address } = useWalletConnection();
+
+  return (
+    <div className="flex-1 flex items-center justify-center p-4 my-24">
+      <SwapHistoryDashboard walletAddress={address} />
+    </div>
+  );
+};
+
+export default History;
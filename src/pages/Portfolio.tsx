@@ -0,0 +1,13 @@
+import { PortfolioOverview, useWalletConnection } from '@/features/wallet';
+
+const Portfolio = () => {
+  const { address } = useWalletConnection();
+
+  return (
+    <div className="flex-1 flex items-center justify-center p-4 my-24">
+      <PortfolioOverview walletAddress={address} />
+    </div>
+  );
+};
+
+export default Portfolio;
@@ -0,0 +1,14 @@
+import { WithdrawalsDashboard } from '@/features/swap';
+import { useWalletConnection } from '@/features/wallet';
+
+const Withdrawals = () => {
+  const { address } = useWalletConnection();
+
+  return (
+    <div className="flex-1 flex items-center justify-center p-4 my-24">
+      <WithdrawalsDashboard walletAddress={address} />
+    </div>
+  );
+};
+
+export default Withdrawals;
@@ -0,0 +1,160 @@
+import React, { useState } from 'react';
+import { ArrowDown, ArrowUp, RefreshCw, Trash2 } from 'lucide-react';
+import { getUserErrorMessage } from '@/core/errors';
+import { RpcEndpointHealth, RpcEndpointStatus, useRpcHealth, useRpcStore } from '@/core/rpc';
+import { Button } from './ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
+import { Input } from './ui/input';
+
+const STATUS_COLORS: Record<RpcEndpointStatus, string> = {
+  unknown: 'bg-gray-500',
+  healthy: 'bg-green-500',
+  slow: 'bg-yellow-500',
+  down: 'bg-red-500',
+};
+
+const STATUS_LABELS: Record<RpcEndpointStatus, string> = {
+  unknown: 'Not checked',
+  healthy: 'Healthy',
+  slow: 'Slow',
+  down: 'Down',
+};
+
+const formatHost = (url: string) => new URL(url).host;
+
+const formatHealth = (health?: RpcEndpointHealth) => {
+  if (!health || health.status === 'unknown') return STATUS_LABELS.unknown;
+  if (health.status === 'down') return STATUS_LABELS.down;
+  return `${STATUS_LABELS[health.status]}, ${health.latencyMs}ms, block ${health.blockNumber}`;
+};
+
+/**
+ * Status of the Starknet node in use, opening the list of endpoints the app fails over between
+ */
+export const RpcStatusMenu: React.FC = () => {
+  const { endpoints, health, activeUrl, isChecking, checkNow } = useRpcHealth();
+  const { addEndpoint, removeEndpoint, moveEndpoint, resetEndpoints } = useRpcStore();
+  const [isOpen, setIsOpen] = useState(false);
+  const [newEndpoint, setNewEndpoint] = useState('');
+  const [addError, setAddError] = useState<string | null>(null);
+
+  const activeHealth = health[activeUrl];
+  const activeStatus = activeHealth?.status ?? 'unknown';
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      addEndpoint(newEndpoint);
+      setNewEndpoint('');
+      setAddError(null);
+    } catch (error) {
+      setAddError(getUserErrorMessage(error));
+    }
+  };
+
+  return (
+    <>
+      <Button
+        variant="link"
+        onClick={() => setIsOpen(true)}
+        className="text-sm font-medium text-gray-400 hover:text-white gap-2"
+        title={`RPC: ${formatHost(activeUrl)} (${formatHealth(activeHealth)})`}
+      >
+        <span className={`h-2 w-2 rounded-full ${STATUS_COLORS[activeStatus]}`} />
+        {activeHealth?.latencyMs !== undefined && activeStatus !== 'down' ? `${activeHealth.latencyMs}ms` : 'RPC'}
+      </Button>
+
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogContent className="max-w-[calc(100%-2rem)] sm:max-w-lg border-none bg-[#1C1C1C]">
+          <DialogHeader>
+            <DialogTitle>RPC Endpoints</DialogTitle>
+            <DialogDescription className="text-xs">
+              Requests go to the first healthy endpoint in this list. Slow endpoints are only used when
+              nothing faster is up.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            {endpoints.map((url, index) => {
+              const endpointHealth = health[url];
+              const status = endpointHealth?.status ?? 'unknown';
+
+              return (
+                <div key={url} className="crypto-card flex items-center gap-3 p-3">
+                  <span className={`h-2 w-2 shrink-0 rounded-full ${STATUS_COLORS[status]}`} />
+                  <div className="min-w-0 flex-1">
+                    <div className="flex items-center gap-2 text-sm">
+                      <span className="truncate" title={url}>{formatHost(url)}</span>
+                      {url === activeUrl && <span className="text-xs text-green-500">Active</span>}
+                    </div>
+                    <div className="truncate text-xs text-muted-foreground" title={endpointHealth?.error}>
+                      {formatHealth(endpointHealth)}
+                    </div>
+                  </div>
+                  <div className="flex items-center">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      onClick={() => moveEndpoint(url, 'up')}
+                      disabled={index === 0}
+                      title="Prefer this endpoint"
+                    >
+                      <ArrowUp className="h-3 w-3" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      onClick={() => moveEndpoint(url, 'down')}
+                      disabled={index === endpoints.length - 1}
+                      title="Use this endpoint later"
+                    >
+                      <ArrowDown className="h-3 w-3" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      onClick={() => removeEndpoint(url)}
+                      disabled={endpoints.length <= 1}
+                      title="Remove endpoint"
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          <form onSubmit={handleAdd} className="space-y-1">
+            <div className="flex gap-2">
+              <Input
+                type="url"
+                placeholder="https://your-starknet-node/rpc"
+                value={newEndpoint}
+                onChange={(e) => setNewEndpoint(e.target.value)}
+                className="token-input-compact flex-1"
+              />
+              <Button type="submit" size="sm" disabled={!newEndpoint.trim()}>
+                Add
+              </Button>
+            </div>
+            {addError && <p className="text-xs text-red-500">{addError}</p>}
+          </form>
+
+          <div className="flex justify-between">
+            <Button variant="ghost" size="sm" onClick={resetEndpoints}>
+              Reset to defaults
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => checkNow()} disabled={isChecking}>
+              <RefreshCw className={`h-4 w-4 ${isChecking ? 'animate-spin' : ''}`} />
+              Check now
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
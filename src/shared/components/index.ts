@@ -48,4 +48,5 @@ export * from './ui/toggle';
 export * from './ui/toggle-group';
 export * from './ui/tooltip';
 export * from './ui/error-message';
-export { ErrorBoundary } from './ErrorBoundary';
\ No newline at end of file
+export { ErrorBoundary } from './ErrorBoundary';
+export { RpcStatusMenu } from './RpcStatusMenu';
\ No newline at end of file
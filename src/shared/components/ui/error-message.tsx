@@ -2,17 +2,24 @@ import React from 'react';
 import { AlertCircle } from 'lucide-react';
 import { motion } from 'framer-motion';
 import { useAnimations } from '@/shared/hooks/useAnimations';
+import { getUserErrorMessage, isRetryableError } from '@/core/errors';
 
 interface ErrorMessageProps {
-  message: string;
+  message?: string; // Shown as is, otherwise the user-facing message of `error`
+  error?: unknown;
+  onRetry?: () => void; // Offered only when the error is retryable
   className?: string;
 }
 
 export const ErrorMessage: React.FC<ErrorMessageProps> = ({ 
   message, 
+  error,
+  onRetry,
   className = '' 
 }) => {
   const { variants } = useAnimations();
+  const text = message ?? getUserErrorMessage(error);
+  const canRetry = !!onRetry && error !== undefined && isRetryableError(error);
 
   return (
     <motion.div 
@@ -33,8 +40,17 @@ export const ErrorMessage: React.FC<ErrorMessageProps> = ({
         animate={{ opacity: 1, x: 0 }}
         transition={{ delay: 0.2 }}
       >
-        {message}
+        {text}
       </motion.span>
+      {canRetry && (
+        <button
+          type="button"
+          onClick={onRetry}
+          className="underline underline-offset-2 hover:text-red-300 flex-shrink-0"
+        >
+          Try again
+        </button>
+      )}
     </motion.div>
   );
 };
\ No newline at end of file
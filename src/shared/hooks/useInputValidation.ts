@@ -1,5 +1,6 @@
 import { useState, useCallback, useMemo } from 'react';
 import { validateTokenInput, sanitizeNumericInput, ValidationResult } from '@/shared/utils/lib/inputValidation';
+import { compareAmounts, tryParseAmount } from '@/shared/utils/lib/amounts';
 import { Token } from '@/constants/tokens';
 
 export interface InputValidationState {
@@ -82,10 +83,12 @@ export const useInputValidation = (
   // Check if amount exceeds balance specifically
   const exceedsBalance = useMemo(() => {
     if (!maxBalance || !state.value) return false;
-    const inputNum = parseFloat(state.value);
-    const balanceNum = parseFloat(maxBalance);
-    return inputNum > balanceNum;
-  }, [state.value, maxBalance]);
+    const decimals = token?.decimals || 18;
+    const inputAmount = tryParseAmount(state.value, decimals);
+    const balanceAmount = tryParseAmount(maxBalance, decimals);
+    if (inputAmount === null || balanceAmount === null) return false;
+    return compareAmounts(inputAmount, balanceAmount) > 0;
+  }, [state.value, maxBalance, token?.decimals]);
 
   return {
     ...state,
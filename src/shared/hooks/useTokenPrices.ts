@@ -1,4 +1,8 @@
 import { useQuery } from '@tanstack/react-query';
+import { MOCK_CONFIG } from '@/core/config';
+import { avnuMarketClient } from '@/core/api';
+import { isRetryableError } from '@/core/errors';
+import { STARKNET_TOKENS } from '@/constants/tokens';
 
 export interface TokenPrice {
   address: string;
@@ -11,13 +15,34 @@ interface TokenPricesResponse {
   [address: string]: TokenPrice;
 }
 
-const AVNU_API_BASE = 'https://starknet.impulse.avnu.fi/v1';
+// Fixed prices for the known tokens when running against the mock services
+const getMockTokenPrices = (): TokenPricesResponse => {
+  const ethPrice = MOCK_CONFIG.pricesUsd.ETH;
+  const prices: TokenPricesResponse = {};
 
-const fetchTokenPrices = async (tokenAddresses: string[]): Promise<TokenPricesResponse> => {
+  Object.values(STARKNET_TOKENS).forEach(token => {
+    const priceInUSD = MOCK_CONFIG.pricesUsd[token.symbol];
+    if (!priceInUSD) return;
+
+    const normalizedAddr = token.address.toLowerCase();
+    const price = { address: normalizedAddr, priceInUSD, priceInETH: priceInUSD / ethPrice, decimals: token.decimals };
+    prices[normalizedAddr] = price;
+    prices['0x' + normalizedAddr.slice(2).replace(/^0+/, '')] = price;
+    prices['0x' + normalizedAddr.slice(2).padStart(64, '0')] = price;
+  });
+
+  return prices;
+};
+
+const fetchTokenPrices = async (tokenAddresses: string[], signal?: AbortSignal): Promise<TokenPricesResponse> => {
   if (tokenAddresses.length === 0) {
     return {};
   }
 
+  if (MOCK_CONFIG.enabled) {
+    return getMockTokenPrices();
+  }
+
   // AVNU API accepts up to 10 tokens per request
   const chunks = [];
   for (let i = 0; i < tokenAddresses.length; i += 10) {
@@ -30,13 +55,7 @@ const fetchTokenPrices = async (tokenAddresses: string[]): Promise<TokenPricesRe
     const params = new URLSearchParams();
     chunk.forEach(address => params.append('token', address));
     
-    const response = await fetch(`${AVNU_API_BASE}/tokens/prices?${params}`);
-    
-    if (!response.ok) {
-      throw new Error(`Failed to fetch token prices: ${response.statusText}`);
-    }
-
-    const data: TokenPrice[] = await response.json();
+    const data = await avnuMarketClient.get<TokenPrice[]>(`/tokens/prices?${params}`, { signal });
     
     // Convert array to object keyed by address
     // Handle both padded and unpadded addresses by storing both versions
@@ -68,15 +87,61 @@ export const useTokenPrices = (tokenAddresses: string[]) => {
 
   return useQuery({
     queryKey: ['tokenPrices', normalizedAddresses.sort()],
-    queryFn: () => fetchTokenPrices(normalizedAddresses),
+    queryFn: ({ signal }) => fetchTokenPrices(normalizedAddresses, signal),
     staleTime: 60 * 1000, // 1 minute - matches AVNU update frequency
     refetchInterval: 60 * 1000, // Refetch every minute
     enabled: normalizedAddresses.length > 0,
-    retry: 3,
+    retry: (failureCount, error) => failureCount < 3 && isRetryableError(error),
     retryDelay: (attemptIndex) => Math.min(1000 * 2 ** attemptIndex, 30000),
   });
 };
 
+interface TokenMarketResponse {
+  address: string;
+  market?: {
+    priceChangePercentage24h?: number;
+  };
+}
+
+/**
+ * 24h price change in percent, keyed by lowercase address. Tokens without market data are left out.
+ */
+const fetchTokenPriceChanges = async (tokenAddresses: string[], signal?: AbortSignal): Promise<Record<string, number>> => {
+  if (MOCK_CONFIG.enabled) {
+    // Mock prices are fixed, so they never move
+    return Object.fromEntries(tokenAddresses.map(address => [address, 0]));
+  }
+
+  const changes: Record<string, number> = {};
+  await Promise.all(tokenAddresses.map(async address => {
+    try {
+      const data = await avnuMarketClient.get<TokenMarketResponse>(`/tokens/${address}`, { signal });
+      const change = data.market?.priceChangePercentage24h;
+      if (typeof change === 'number') {
+        changes[address] = change;
+      }
+    } catch (error) {
+      // A token without market data only lacks its 24h change
+    }
+  }));
+
+  return changes;
+};
+
+export const useTokenPriceChanges = (tokenAddresses: string[]) => {
+  const normalizedAddresses = tokenAddresses
+    .filter(address => address && address.trim() !== '')
+    .map(address => address.toLowerCase());
+
+  return useQuery({
+    queryKey: ['tokenPriceChanges', normalizedAddresses.sort()],
+    queryFn: ({ signal }) => fetchTokenPriceChanges(normalizedAddresses, signal),
+    staleTime: 5 * 60 * 1000,
+    refetchInterval: 5 * 60 * 1000,
+    enabled: normalizedAddresses.length > 0,
+  });
+};
+
 export const useTokenPrice = (tokenAddress: string) => {
   // Skip API call entirely if no address provided
   const addressesToFetch = tokenAddress && tokenAddress.trim() !== '' ? [tokenAddress] : [];
@@ -48,4 +48,5 @@ export interface SwapQuote {
   route: SwapRoute[];
   expiry: number | null;
   slippage: number;
+  raw?: unknown; // Aggregator-specific quote payload
 }
\ No newline at end of file
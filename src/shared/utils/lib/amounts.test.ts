@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import { formatAmount, mulBps, parseAmount, subtractBps } from './amounts';
+
+const rawAmount = fc.bigInt({ min: 0n, max: 10n ** 40n });
+const decimals = fc.integer({ min: 0, max: 24 });
+const bps = fc.integer({ min: 0, max: 10000 });
+
+// Decimal strings as the user may type them, with at most `decimals` fraction digits
+const decimalString = decimals.chain(d =>
+  fc.tuple(
+    fc.constant(d),
+    fc.stringMatching(/^\d{1,30}$/),
+    fc.stringMatching(new RegExp(`^\\d{0,${d}}$`))
+  )
+);
+
+describe('parseAmount and formatAmount', () => {
+  it('round-trips raw amounts through their decimal string', () => {
+    fc.assert(
+      fc.property(rawAmount, decimals, (raw, d) => {
+        expect(parseAmount(formatAmount(raw, d), d)).toBe(raw);
+      })
+    );
+  });
+
+  it('round-trips decimal strings to their canonical form', () => {
+    fc.assert(
+      fc.property(decimalString, ([d, integerPart, fractionPart]) => {
+        const value = fractionPart ? `${integerPart}.${fractionPart}` : integerPart;
+        const formatted = formatAmount(parseAmount(value, d), d);
+        expect(formatted).not.toMatch(/^0\d|\.$|\.\d*0$/);
+        expect(parseAmount(formatted, d)).toBe(parseAmount(value, d));
+      })
+    );
+  });
+
+  it('only truncates when formatting to fewer decimals', () => {
+    fc.assert(
+      fc.property(rawAmount, decimals, fc.nat(24), (raw, d, maxDecimals) => {
+        const truncated = parseAmount(formatAmount(raw, d, maxDecimals), d);
+        const dropped = 10n ** BigInt(Math.max(d - maxDecimals, 0));
+        expect(truncated).toBeLessThanOrEqual(raw);
+        expect(raw - truncated).toBeLessThan(dropped);
+      })
+    );
+  });
+
+  it('truncates digits past the token decimals', () => {
+    expect(parseAmount('1.23456789', 6)).toBe(1234567n);
+    expect(parseAmount('.5', 1)).toBe(5n);
+  });
+
+  it('rejects malformed input', () => {
+    for (const value of ['', '.', '1e18', '-1', '1.2.3', 'abc']) {
+      expect(() => parseAmount(value, 18)).toThrow();
+    }
+  });
+
+  it('keeps the sign of negative amounts', () => {
+    fc.assert(
+      fc.property(rawAmount.filter(raw => raw > 0n), decimals, (raw, d) => {
+        const formatted = formatAmount(raw, d);
+        expect(formatAmount(-raw, d)).toBe(formatted === '0' ? '0' : `-${formatted}`);
+      })
+    );
+  });
+});
+
+describe('mulBps and subtractBps', () => {
+  it('keeps mulBps between zero and the amount', () => {
+    fc.assert(
+      fc.property(rawAmount, bps, (raw, b) => {
+        const share = mulBps(raw, b);
+        expect(share).toBeGreaterThanOrEqual(0n);
+        expect(share).toBeLessThanOrEqual(raw);
+      })
+    );
+  });
+
+  it('grows mulBps with the basis points', () => {
+    fc.assert(
+      fc.property(rawAmount, bps, bps, (raw, a, b) => {
+        const [low, high] = a <= b ? [a, b] : [b, a];
+        expect(mulBps(raw, low)).toBeLessThanOrEqual(mulBps(raw, high));
+      })
+    );
+  });
+
+  it('never leaves more than the amount after subtractBps', () => {
+    fc.assert(
+      fc.property(rawAmount, bps, (raw, b) => {
+        const left = subtractBps(raw, b);
+        expect(left).toBeGreaterThanOrEqual(0n);
+        expect(left).toBeLessThanOrEqual(raw);
+        // Both sides round down, so together they lose at most one unit
+        const total = left + mulBps(raw, b);
+        expect(total).toBeLessThanOrEqual(raw);
+        expect(raw - total).toBeLessThanOrEqual(1n);
+      })
+    );
+  });
+
+  it('takes nothing at 0 bps and everything at 10000 bps', () => {
+    fc.assert(
+      fc.property(rawAmount, raw => {
+        expect(subtractBps(raw, 0)).toBe(raw);
+        expect(subtractBps(raw, 10000)).toBe(0n);
+      })
+    );
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Fixed-point token amounts. Raw amounts are bigints in the token's smallest unit,
+ * decimal amounts are the strings the user types and reads. Converting between the
+ * two never goes through a float, so 18-decimal tokens and large balances stay exact.
+ */
+
+const BPS_DENOMINATOR = 10000n;
+
+const DECIMAL_PATTERN = /^\d*\.?\d*$/;
+
+/**
+ * Raw amount from a hex (0x...) or decimal integer string
+ */
+export const toRawAmount = (value: string | bigint): bigint => {
+  return typeof value === 'bigint' ? value : BigInt(value);
+};
+
+/**
+ * Raw amount of a decimal string such as "1.5". Digits past the token's decimals are truncated.
+ */
+export const parseAmount = (value: string, decimals: number): bigint => {
+  const trimmed = value.trim();
+  if (!trimmed || trimmed === '.' || !DECIMAL_PATTERN.test(trimmed)) {
+    throw new Error(`Invalid amount: ${value}`);
+  }
+
+  const [integerPart = '', fractionPart = ''] = trimmed.split('.');
+  const fraction = fractionPart.padEnd(decimals, '0').slice(0, decimals);
+  return BigInt((integerPart || '0') + fraction);
+};
+
+/**
+ * Like parseAmount, but null instead of throwing for empty or malformed input
+ */
+export const tryParseAmount = (value: string | undefined, decimals: number): bigint | null => {
+  if (!value) return null;
+  try {
+    return parseAmount(value, decimals);
+  } catch (error) {
+    return null;
+  }
+};
+
+/**
+ * Decimal string of a raw amount, truncated to maxDecimals and without trailing zeros
+ */
+export const formatAmount = (raw: bigint, decimals: number, maxDecimals: number = decimals): string => {
+  const negative = raw < 0n;
+  const absolute = negative ? -raw : raw;
+  const base = 10n ** BigInt(decimals);
+
+  const integerPart = (absolute / base).toString();
+  const fractionPart = (absolute % base)
+    .toString()
+    .padStart(decimals, '0')
+    .slice(0, Math.min(maxDecimals, decimals))
+    .replace(/0+$/, '');
+
+  const formatted = fractionPart ? `${integerPart}.${fractionPart}` : integerPart;
+  return negative && formatted !== '0' ? `-${formatted}` : formatted;
+};
+
+/**
+ * Short display form of a raw amount. Amounts too small for maxDecimals fall back to
+ * scientific notation instead of showing as zero.
+ */
+export const formatAmountDisplay = (raw: bigint, decimals: number, maxDecimals: number = 6): string => {
+  const formatted = formatAmount(raw, decimals, maxDecimals);
+  if (raw !== 0n && (formatted === '0' || formatted === '-0')) {
+    return toAmountNumber(raw, decimals).toExponential(2);
+  }
+  return formatted;
+};
+
+/**
+ * Approximate number value of a raw amount, for USD values, rates and charts only
+ */
+export const toAmountNumber = (raw: bigint, decimals: number): number => {
+  return Number(formatAmount(raw, decimals));
+};
+
+/**
+ * raw * bps / 10000, rounded down
+ */
+export const mulBps = (raw: bigint, bps: number | bigint): bigint => {
+  return (raw * BigInt(bps)) / BPS_DENOMINATOR;
+};
+
+/**
+ * The amount left after taking bps off, rounded down
+ */
+export const subtractBps = (raw: bigint, bps: number | bigint): bigint => {
+  return mulBps(raw, BPS_DENOMINATOR - BigInt(bps));
+};
+
+/**
+ * Basis points of a percentage such as 0.5 (%), rounded to the nearest basis point
+ */
+export const percentToBps = (percent: number): bigint => {
+  return BigInt(Math.round(percent * 100));
+};
+
+/**
+ * -1, 0 or 1 as a is less than, equal to or greater than b
+ */
+export const compareAmounts = (a: bigint, b: bigint): number => {
+  if (a === b) return 0;
+  return a < b ? -1 : 1;
+};
@@ -0,0 +1,11 @@
+/**
+ * Save a string as a file through the browser's download prompt
+ */
+export const downloadFile = (contents: string, fileName: string, type: string = 'application/json') => {
+  const url = URL.createObjectURL(new Blob([contents], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -1,3 +1,5 @@
+import { compareAmounts, tryParseAmount } from './amounts';
+
 export interface ValidationResult {
   isValid: boolean;
   error?: string;
@@ -54,8 +56,9 @@ export const validateTokenInput = (
   
   // Check against maximum balance - use warning instead of error to allow quotes
   if (maxBalance) {
-    const maxBalanceNum = parseFloat(maxBalance);
-    if (num > maxBalanceNum) {
+    const inputAmount = tryParseAmount(normalizedInput, maxDecimals);
+    const maxBalanceAmount = tryParseAmount(maxBalance, maxDecimals);
+    if (inputAmount !== null && maxBalanceAmount !== null && compareAmounts(inputAmount, maxBalanceAmount) > 0) {
       return { 
         isValid: true, 
         warning: 'Amount exceeds available balance',
@@ -126,4 +129,12 @@ export const formatTokenAmountDisplay = (amount: number, maxDecimals: number = 6
   
   // Remove trailing zeros after decimal point, but keep at least one decimal if there was one
   return formatted.replace(/\.?0+$/, '');
-};
\ No newline at end of file
+};
+
+/**
+ * Hex address check for recipients and token imports: 0x followed by 63 or 64 hex digits
+ */
+export const isValidStarknetAddress = (address: string): boolean => {
+  if (!address) return false;
+  return /^0x[a-fA-F0-9]{63,64}$/.test(address);
+};
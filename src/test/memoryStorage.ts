@@ -0,0 +1,24 @@
+import { vi } from 'vitest';
+
+/**
+ * In-memory Storage installed as localStorage, since unit tests run in node without a DOM
+ */
+export function installMemoryStorage(): Storage {
+  const items = new Map<string, string>();
+  const storage: Storage = {
+    get length() {
+      return items.size;
+    },
+    clear: () => items.clear(),
+    getItem: key => items.get(key) ?? null,
+    key: index => Array.from(items.keys())[index] ?? null,
+    removeItem: key => {
+      items.delete(key);
+    },
+    setItem: (key, value) => {
+      items.set(key, String(value));
+    },
+  };
+  vi.stubGlobal('localStorage', storage);
+  return storage;
+}
@@ -0,0 +1,48 @@
+import { test, expect, Page } from '@playwright/test';
+
+// Runs against the scripted mock DEX, Typhoon service, wallet and node (VITE_USE_MOCKS)
+
+const connectMockWallet = async (page: Page) => {
+  await page.getByRole('button', { name: 'Connect Wallet' }).first().click();
+  await page.getByRole('button', { name: 'Mock Wallet' }).click();
+};
+
+const createVault = async (page: Page) => {
+  await page.locator('.swap-button').click();
+  await page.getByPlaceholder('Passphrase', { exact: true }).fill('correct horse battery staple');
+  await page.getByPlaceholder('Confirm passphrase').fill('correct horse battery staple');
+  await page.getByRole('button', { name: 'Create Vault' }).click();
+};
+
+test.describe('private swap', () => {
+  test('swaps ETH to STRK and withdraws to the wallet', async ({ page }) => {
+    await page.goto('/');
+    await connectMockWallet(page);
+
+    await page.getByPlaceholder('0.0').first().fill('0.1');
+    await expect(page.locator('.swap-button')).toHaveText('Unlock Vault to Swap');
+    await createVault(page);
+
+    const swapButton = page.locator('.swap-button');
+    await expect(swapButton).toHaveText('Swap');
+    await expect(swapButton).toBeEnabled();
+    await swapButton.click();
+
+    const review = page.getByRole('dialog', { name: 'Review Transaction' });
+    await expect(review).toBeVisible();
+    await expect(review.getByText('Unrecognised')).toHaveCount(0);
+    await review.getByRole('button', { name: 'Sign in Wallet' }).click();
+
+    await expect(page.getByText('Withdrawal completed!')).toBeVisible({ timeout: 30000 });
+  });
+
+  test('reports a pair without quotes', async ({ page }) => {
+    await page.addInitScript(() => localStorage.setItem('privfi_mock_scenario', 'no-quotes'));
+    await page.goto('/');
+    await connectMockWallet(page);
+
+    await page.getByPlaceholder('0.0').first().fill('0.1');
+    await expect(page.locator('.swap-button')).toBeDisabled();
+    await expect(page.locator('.swap-button')).not.toHaveText('Swap');
+  });
+});
@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
@@ -60,4 +61,8 @@ export default defineConfig(({ mode }) => ({
     }
   },
   assetsInclude: ['**/*.wasm', '**/*.zkey'],
+  test: {
+    // Unit tests live next to the code, tests/ holds the Playwright specs
+    include: ['src/**/*.test.ts'],
+  },
 }));